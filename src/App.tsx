@@ -1,6 +1,7 @@
-import { BrowserRouter, Routes, Route } from 'react-router-dom'
+import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import { AgentInterceptorProvider } from '@/components/AgentInterceptorProvider'
 import ErrorBoundary, { GlobalErrorModal } from '@/components/ErrorBoundary'
+import { UserSessionProvider } from '@/components/UserSessionProvider'
 import Home from './pages/Home'
 import NotFound from './pages/NotFound'
 
@@ -9,10 +10,21 @@ export default function App() {
     <BrowserRouter>
       <ErrorBoundary>
         <AgentInterceptorProvider>
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <UserSessionProvider>
+            <Routes>
+              <Route path="/" element={<Navigate to="/expenses" replace />} />
+              {/* Home is the shell for every view; it reads the active view and expense from the URL */}
+              <Route element={<Home />}>
+                <Route path="/expenses" />
+                <Route path="/expenses/:id" />
+                <Route path="/review" />
+                <Route path="/review/:id" />
+                <Route path="/audit" />
+                <Route path="/analytics" />
+              </Route>
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </UserSessionProvider>
         </AgentInterceptorProvider>
         <GlobalErrorModal />
       </ErrorBoundary>
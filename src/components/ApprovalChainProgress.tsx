@@ -0,0 +1,72 @@
+import { CheckCircle, Circle, Clock, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { APPROVAL_STEP_LABELS, describeApprover, getNextApprovers } from '@/lib/approval-chain'
+import type { ApprovalChain, ApprovalDelegation, ExpenseRecord } from '@/types/expense'
+
+// ============================================================================
+// APPROVAL CHAIN PROGRESS
+// ============================================================================
+
+/**
+ * One row per sign-off step: who signed it, or who it is waiting on
+ */
+export function ApprovalChainProgress({
+  expense,
+  chain,
+  delegations = []
+}: {
+  expense: ExpenseRecord
+  chain: ApprovalChain
+  delegations?: ApprovalDelegation[]
+}) {
+  const nextApprovers = getNextApprovers(expense, delegations)
+  const isOpen = expense.status === 'reviewing' || expense.status === 'pending'
+
+  return (
+    <div className="space-y-2">
+      {chain.steps.map((role, index) => {
+        const signature = chain.signatures.find(s => s.step === index)
+        const isCurrent = isOpen && index === chain.currentStep
+
+        return (
+          <div
+            key={`${role}-${index}`}
+            className={cn(
+              'flex items-start gap-3 rounded-md border p-3 text-sm',
+              isCurrent ? 'border-blue-200 bg-blue-50' : 'border-gray-200'
+            )}
+          >
+            {signature?.decision === 'approve' ? (
+              <CheckCircle className="h-4 w-4 mt-0.5 text-green-600" />
+            ) : signature?.decision === 'reject' ? (
+              <XCircle className="h-4 w-4 mt-0.5 text-red-600" />
+            ) : isCurrent ? (
+              <Clock className="h-4 w-4 mt-0.5 text-blue-600" />
+            ) : (
+              <Circle className="h-4 w-4 mt-0.5 text-gray-300" />
+            )}
+            <div className="flex-1">
+              <p className="font-medium">
+                Step {index + 1}: {APPROVAL_STEP_LABELS[role]}
+              </p>
+              {signature ? (
+                <p className="text-xs text-gray-600">
+                  {signature.decision === 'approve' ? 'Approved' : 'Rejected'} by {signature.userName}
+                  {signature.onBehalfOfName && <> on behalf of {signature.onBehalfOfName}</>} on{' '}
+                  {new Date(signature.signedAt).toLocaleString()}
+                  {signature.rationale && <> — {signature.rationale}</>}
+                </p>
+              ) : isCurrent ? (
+                <p className="text-xs text-blue-700">
+                  Waiting on {nextApprovers.length > 0 ? nextApprovers.map(describeApprover).join(', ') : 'an eligible approver'}
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500">Not started</p>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
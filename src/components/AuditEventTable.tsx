@@ -0,0 +1,106 @@
+import type { ColumnDef } from '@tanstack/react-table'
+import { Badge } from '@/components/ui/badge'
+import { FileCheck } from 'lucide-react'
+import { DataTable } from '@/components/DataTable'
+import { describeStateChanges } from '@/lib/audit-log'
+import type { AuditRow } from '@/lib/audit-filters'
+
+// ============================================================================
+// COLUMNS
+// ============================================================================
+
+const AUDIT_EVENT_COLUMNS: Array<ColumnDef<AuditRow, any>> = [
+  {
+    id: 'sequence',
+    accessorFn: (row) => row.event.id ?? 0,
+    header: '#',
+    cell: ({ row }) => <span className="text-xs text-gray-500">{row.original.event.id}</span>,
+  },
+  {
+    id: 'timestamp',
+    accessorFn: (row) => row.event.timestamp,
+    header: 'Timestamp',
+    cell: ({ row }) => (
+      <span className="text-sm text-gray-600">{new Date(row.original.event.timestamp).toLocaleString()}</span>
+    ),
+  },
+  {
+    id: 'expenseId',
+    accessorFn: (row) => row.event.expenseId ?? '',
+    header: 'Expense ID',
+    cell: ({ row }) => <span className="font-medium">{row.original.event.expenseId ?? '—'}</span>,
+  },
+  { id: 'employee', accessorFn: (row) => row.expense?.employee ?? '', header: 'Employee' },
+  {
+    id: 'event',
+    accessorFn: (row) => row.event.type,
+    header: 'Event',
+    cell: ({ row }) => <Badge variant="outline">{row.original.event.type.replace(/_/g, ' ')}</Badge>,
+  },
+  { id: 'actor', accessorFn: (row) => row.event.actorName, header: 'Actor' },
+  {
+    id: 'change',
+    header: 'Change',
+    enableSorting: false,
+    cell: ({ row }) => (
+      <div className="text-xs text-gray-600">
+        {describeStateChanges(row.original.event.before, row.original.event.after).map(line => (
+          <p key={line}>{line}</p>
+        ))}
+      </div>
+    ),
+  },
+  {
+    id: 'message',
+    accessorFn: (row) => row.event.message,
+    header: 'Details',
+    enableSorting: false,
+    cell: ({ row }) => <span className="text-sm">{row.original.event.message}</span>,
+  },
+  {
+    id: 'hash',
+    accessorFn: (row) => row.event.hash ?? '',
+    header: 'Hash',
+    enableSorting: false,
+    cell: ({ row }) => (
+      <span className="font-mono text-xs text-gray-500" title={row.original.event.hash}>
+        {row.original.event.hash ? row.original.event.hash.slice(0, 10) : 'unsealed'}
+      </span>
+    ),
+  },
+]
+
+// ============================================================================
+// AUDIT EVENT TABLE
+// ============================================================================
+
+/**
+ * The audit event log; rows arrive filtered and newest first
+ */
+export function AuditEventTable({
+  rows,
+  userId,
+  hasEvents
+}: {
+  rows: AuditRow[]
+  userId: string
+  /** Distinguishes "nothing recorded" from "nothing matches the filters" */
+  hasEvents: boolean
+}) {
+  return (
+    <DataTable
+      tableId="audit-log"
+      userId={userId}
+      columns={AUDIT_EVENT_COLUMNS}
+      data={rows}
+      getRowId={(row) => String(row.event.id)}
+      emptyState={
+        <div className="flex flex-col items-center gap-2">
+          <FileCheck className="h-12 w-12 text-gray-300" />
+          <p className="text-sm">{hasEvents ? 'No events match these filters' : 'No audit events recorded'}</p>
+          <p className="text-xs">Submissions, validations, decisions and payments will appear here</p>
+        </div>
+      }
+    />
+  )
+}
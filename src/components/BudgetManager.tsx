@@ -0,0 +1,345 @@
+import { useMemo, useState } from 'react'
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Loader2, PiggyBank, Trash2 } from 'lucide-react'
+import {
+  BUDGET_PERIOD_LABELS,
+  DEFAULT_WARNING_THRESHOLD,
+  describeBudget,
+  getBudgetUsage,
+  getBurnDown,
+  getPeriodStart,
+  validateBudget,
+  type BudgetDraft,
+  type BudgetUsage
+} from '@/lib/budgets'
+import { localToday } from '@/lib/calendar-date'
+import { HOME_CURRENCY } from '@/lib/currency'
+import { formatCurrency, formatDate, formatPercent } from '@/lib/format'
+import { parseMoney, toAmount } from '@/lib/money'
+import { cn } from '@/lib/utils'
+import { EXPENSE_CATEGORIES, type Budget, type BudgetPeriod, type ExpenseRecord } from '@/types/expense'
+
+// ============================================================================
+// BURN-DOWN
+// ============================================================================
+
+const BURN_DOWN_CONFIG: ChartConfig = {
+  remaining: { label: 'Remaining (approved)', color: 'hsl(var(--chart-1))' },
+  remainingWithPending: { label: 'Remaining (incl. pending)', color: 'hsl(var(--chart-4))' },
+  ideal: { label: 'Even burn', color: 'hsl(var(--muted-foreground))' },
+}
+
+const ALL_CATEGORIES = 'all'
+
+const HEALTH_BADGES: Record<BudgetUsage['health'], { label: string; className: string }> = {
+  ok: { label: 'On track', className: 'bg-green-100 text-green-800' },
+  warning: { label: 'Near limit', className: 'bg-amber-100 text-amber-800' },
+  over: { label: 'Over budget', className: 'bg-red-100 text-red-800' },
+}
+
+function BurnDownChart({ budget, expenses }: { budget: Budget; expenses: ExpenseRecord[] }) {
+  const points = useMemo(() => getBurnDown(budget, expenses, localToday()), [budget, expenses])
+
+  return (
+    <ChartContainer config={BURN_DOWN_CONFIG} className="h-64 w-full aspect-auto">
+      <LineChart data={points} accessibilityLayer>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="date" tickFormatter={formatDate} tickLine={false} axisLine={false} minTickGap={32} />
+        <YAxis
+          tickFormatter={(value: number) => formatCurrency(value).replace(/\.00$/, '')}
+          tickLine={false}
+          axisLine={false}
+          width={72}
+        />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatDate(String(value))} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="ideal" stroke="var(--color-ideal)" strokeDasharray="4 4" dot={false} />
+        <Line dataKey="remainingWithPending" stroke="var(--color-remainingWithPending)" dot={false} />
+        <Line dataKey="remaining" stroke="var(--color-remaining)" strokeWidth={2} dot={false} />
+      </LineChart>
+    </ChartContainer>
+  )
+}
+
+function BudgetRow({
+  usage,
+  selected,
+  onSelect,
+  onDelete
+}: {
+  usage: BudgetUsage
+  selected: boolean
+  onSelect: () => void
+  onDelete?: () => void
+}) {
+  const { budget, approved, pending, remaining, ratio, health } = usage
+  // Bar segments are shares of the budget, capped so an overspend still fits
+  const scale = Math.max(1, ratio)
+  const badge = HEALTH_BADGES[health]
+
+  return (
+    <div
+      className={cn(
+        'rounded-md border p-3 text-xs space-y-2 cursor-pointer',
+        selected ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+      )}
+      onClick={onSelect}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium text-sm">{describeBudget(budget)}</p>
+          <p className="text-gray-600">
+            {formatCurrency(approved)} approved · {formatCurrency(pending)} pending of {formatCurrency(budget.amount)}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Badge className={badge.className}>{badge.label}</Badge>
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2"
+              onClick={(e) => {
+                e.stopPropagation()
+                onDelete()
+              }}
+              aria-label="Delete budget"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="relative h-2 w-full overflow-hidden rounded-full bg-gray-100">
+        <div className="absolute inset-y-0 left-0 bg-blue-600" style={{ width: `${(approved / budget.amount / scale) * 100}%` }} />
+        <div
+          className="absolute inset-y-0 bg-amber-400"
+          style={{ left: `${(approved / budget.amount / scale) * 100}%`, width: `${(pending / budget.amount / scale) * 100}%` }}
+        />
+        <div className="absolute inset-y-0 w-px bg-gray-500" style={{ left: `${(budget.warningThreshold / scale) * 100}%` }} />
+      </div>
+      <p className={cn('text-gray-500', remaining < 0 && 'text-red-600')}>
+        {remaining < 0 ? `${formatCurrency(-remaining)} over` : `${formatCurrency(remaining)} left`} · {formatPercent(ratio)} committed
+      </p>
+    </div>
+  )
+}
+
+// ============================================================================
+// BUDGET MANAGER
+// ============================================================================
+
+interface BudgetManagerProps {
+  budgets: Budget[]
+  expenses: ExpenseRecord[]
+  departments: string[]
+  loading?: boolean
+  /** Without these handlers budgets are read-only */
+  onCreate?: (draft: BudgetDraft) => Promise<void>
+  onDelete?: (budget: Budget) => Promise<void>
+}
+
+/**
+ * Budgets per department, category and period with their burn-down, and a
+ * form for finance to add new ones
+ */
+export function BudgetManager({ budgets, expenses, departments, loading, onCreate, onDelete }: BudgetManagerProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [department, setDepartment] = useState('')
+  const [category, setCategory] = useState(ALL_CATEGORIES)
+  const [period, setPeriod] = useState<BudgetPeriod>('month')
+  const [periodMonth, setPeriodMonth] = useState(() => localToday().slice(0, 7))
+  const [amount, setAmount] = useState('')
+  const [threshold, setThreshold] = useState(String(DEFAULT_WARNING_THRESHOLD * 100))
+  const [errors, setErrors] = useState<string[]>([])
+  const [deleteError, setDeleteError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const usages = useMemo(() => budgets.map(budget => getBudgetUsage(budget, expenses)), [budgets, expenses])
+  const selected = budgets.find(b => b.id === selectedId) ?? budgets[0] ?? null
+
+  const handleSubmit = async () => {
+    if (!onCreate) return
+    const parsedAmount = parseMoney(amount, HOME_CURRENCY)
+    const draft: BudgetDraft = {
+      department,
+      category: category === ALL_CATEGORIES ? undefined : category,
+      period,
+      periodStart: periodMonth ? getPeriodStart(period, `${periodMonth}-01`) : '',
+      amount: parsedAmount ? toAmount(parsedAmount) : NaN,
+      warningThreshold: parseFloat(threshold) / 100,
+    }
+    const problems = validateBudget(draft, budgets)
+    setErrors(problems)
+    if (problems.length > 0) return
+
+    setIsSaving(true)
+    try {
+      await onCreate(draft)
+      setAmount('')
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Could not save the budget'])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (budget: Budget) => {
+    if (!onDelete) return
+    setDeleteError(null)
+    try {
+      await onDelete(budget)
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : 'Could not delete the budget')
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <PiggyBank className="h-5 w-5" />
+            Budgets
+          </CardTitle>
+          <CardDescription>
+            Approved and pending spend against each budget; select one to see its burn-down
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {deleteError && <p className="text-sm text-red-600">{deleteError}</p>}
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Loading budgets...
+            </div>
+          ) : usages.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500">No budgets have been set</p>
+          ) : (
+            <>
+              {selected && (
+                <div>
+                  <p className="text-sm font-medium mb-2">Burn-down · {describeBudget(selected)}</p>
+                  <BurnDownChart budget={selected} expenses={expenses} />
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {usages.map(usage => (
+                  <BudgetRow
+                    key={usage.budget.id}
+                    usage={usage}
+                    selected={usage.budget.id === selected?.id}
+                    onSelect={() => setSelectedId(usage.budget.id)}
+                    onDelete={onDelete ? () => handleDelete(usage.budget) : undefined}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {onCreate && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Budget</CardTitle>
+            <CardDescription>Warnings start once committed spend passes the threshold</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label>Department</Label>
+              <Select value={department} onValueChange={setDepartment}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a department" />
+                </SelectTrigger>
+                <SelectContent>
+                  {departments.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                  {EXPENSE_CATEGORIES.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label>Period</Label>
+                <Select value={period} onValueChange={(value) => setPeriod(value as BudgetPeriod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BUDGET_PERIOD_LABELS) as BudgetPeriod[]).map(key => (
+                      <SelectItem key={key} value={key}>{BUDGET_PERIOD_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="budget-period">Containing</Label>
+                <Input id="budget-period" type="month" value={periodMonth} onChange={(e) => setPeriodMonth(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="budget-amount">Amount</Label>
+                <Input
+                  id="budget-amount"
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="budget-threshold">Warn at (%)</Label>
+                <Input
+                  id="budget-threshold"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="text-sm text-red-600 list-disc pl-4">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+
+            <Button className="w-full" onClick={handleSubmit} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Budget
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
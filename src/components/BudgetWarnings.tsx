@@ -0,0 +1,42 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { AlertTriangle } from 'lucide-react'
+import { describeBudget, type BudgetWarning } from '@/lib/budgets'
+import { formatCurrency, formatPercent } from '@/lib/format'
+import { cn } from '@/lib/utils'
+
+// ============================================================================
+// BUDGET WARNINGS
+// ============================================================================
+
+interface BudgetWarningsProps {
+  warnings: BudgetWarning[]
+  /** What the warning is about, e.g. "Submitting this expense" */
+  action: string
+  className?: string
+}
+
+/**
+ * Budgets an expense would push past their warning threshold or over their
+ * amount; renders nothing when every budget has room
+ */
+export function BudgetWarnings({ warnings, action, className }: BudgetWarningsProps) {
+  if (warnings.length === 0) return null
+  const over = warnings.some(w => w.health === 'over')
+
+  return (
+    <Alert className={cn(over ? 'border-red-300 bg-red-50' : 'border-amber-300 bg-amber-50', className)}>
+      <AlertTriangle className={cn('h-4 w-4', over ? 'text-red-600' : 'text-amber-600')} />
+      <AlertTitle>{over ? 'Over budget' : 'Budget nearly spent'}</AlertTitle>
+      <AlertDescription>
+        <p className="mb-1">{action} would bring:</p>
+        <ul className="list-disc pl-4 space-y-0.5">
+          {warnings.map(({ budget, projected, ratio }) => (
+            <li key={budget.id}>
+              {describeBudget(budget)} to {formatCurrency(projected)} of {formatCurrency(budget.amount)} ({formatPercent(ratio)})
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,438 @@
+import { Fragment, useEffect, useLayoutEffect, useMemo, useRef, useState, type ReactNode } from 'react'
+import {
+  flexRender,
+  functionalUpdate,
+  getCoreRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  useReactTable,
+  type Column,
+  type ColumnDef,
+  type ExpandedState,
+  type PaginationState,
+  type Row,
+  type Updater
+} from '@tanstack/react-table'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination'
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronDown, ChevronUp, Columns3, Loader2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useTablePreferences } from '@/hooks/useTablePreferences'
+import { useVirtualRows } from '@/hooks/useVirtualRows'
+import { ALL_ROWS_PAGE_SIZE, PAGE_SIZE_OPTIONS, type TablePreferences } from '@/lib/table-preferences'
+
+/** Pages longer than this only mount the rows in view */
+const VIRTUALIZE_THRESHOLD = 100
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getColumnLabel<T>(column: Column<T, unknown>): string {
+  const header = column.columnDef.header
+  return typeof header === 'string' && header ? header : column.id
+}
+
+/**
+ * The saved order with any columns added since appended at the end
+ */
+function normalizeColumnOrder(saved: string[], ids: string[]): string[] {
+  return [...saved.filter(id => ids.includes(id)), ...ids.filter(id => !saved.includes(id))]
+}
+
+/** Page numbers around the current page, with null marking a gap */
+function getPageWindow(pageIndex: number, pageCount: number): Array<number | null> {
+  const pages: Array<number | null> = []
+  for (let i = 0; i < pageCount; i++) {
+    if (i === 0 || i === pageCount - 1 || Math.abs(i - pageIndex) <= 1) {
+      pages.push(i)
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null)
+    }
+  }
+  return pages
+}
+
+// ============================================================================
+// COLUMN SETTINGS
+// ============================================================================
+
+function ColumnSettings<T>({
+  columns,
+  order,
+  onToggle,
+  onMove,
+  onReset
+}: {
+  columns: Array<Column<T, unknown>>
+  order: string[]
+  onToggle: (id: string, visible: boolean) => void
+  onMove: (id: string, offset: -1 | 1) => void
+  onReset: () => void
+}) {
+  const byId = new Map(columns.map(column => [column.id, column]))
+  const ordered = order.map(id => byId.get(id)).filter((c): c is Column<T, unknown> => c !== undefined)
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Columns3 className="mr-2 h-4 w-4" />
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-2">
+        <div className="space-y-1">
+          {ordered.map((column, index) => (
+            <div key={column.id} className="flex items-center gap-2 rounded px-1 py-0.5 hover:bg-gray-50">
+              <Checkbox
+                id={`column-${column.id}`}
+                checked={column.getIsVisible()}
+                disabled={!column.getCanHide()}
+                onCheckedChange={(checked) => onToggle(column.id, checked === true)}
+              />
+              <label htmlFor={`column-${column.id}`} className="flex-1 text-sm">
+                {getColumnLabel(column)}
+              </label>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={index === 0}
+                onClick={() => onMove(column.id, -1)}
+                aria-label={`Move ${getColumnLabel(column)} up`}
+              >
+                <ChevronUp className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={index === ordered.length - 1}
+                onClick={() => onMove(column.id, 1)}
+                aria-label={`Move ${getColumnLabel(column)} down`}
+              >
+                <ChevronDown className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <Button variant="ghost" size="sm" className="mt-2 w-full" onClick={onReset}>
+          Reset layout
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+// ============================================================================
+// DATA TABLE
+// ============================================================================
+
+export interface DataTableProps<T> {
+  /** Identifies the table in saved preferences */
+  tableId: string
+  /** Preferences are saved per user */
+  userId: string
+  columns: Array<ColumnDef<T, any>>
+  data: T[]
+  getRowId: (row: T) => string
+  /** Defaults for users without saved preferences; keep it a module-level constant */
+  defaultPreferences?: TablePreferences
+  loading?: boolean
+  emptyState?: ReactNode
+  onRowClick?: (row: T) => void
+  /** Highlighted, expanded on first render and paged into view */
+  selectedRowId?: string | null
+  /** Detail shown under an expanded row; rows without detail cannot expand */
+  renderExpanded?: (row: T) => ReactNode | null
+  /** Extra controls shown left of the column settings */
+  toolbar?: ReactNode
+  scrollClassName?: string
+}
+
+/**
+ * Sortable (shift-click for multi-column), paginated table with column
+ * show/hide and reordering, remembered per user
+ */
+export function DataTable<T>({
+  tableId,
+  userId,
+  columns,
+  data,
+  getRowId,
+  defaultPreferences,
+  loading = false,
+  emptyState,
+  onRowClick,
+  selectedRowId,
+  renderExpanded,
+  toolbar,
+  scrollClassName = 'h-[600px]'
+}: DataTableProps<T>) {
+  const { preferences, updatePreferences, resetPreferences } = useTablePreferences(tableId, userId, defaultPreferences)
+  const [pageIndex, setPageIndex] = useState(0)
+  const [expanded, setExpanded] = useState<ExpandedState>(() => (selectedRowId ? { [selectedRowId]: true } : {}))
+  // Row index within the page to scroll to once it renders
+  const pendingScrollRef = useRef<number | null>(null)
+
+  const pagination: PaginationState = { pageIndex, pageSize: preferences.pageSize }
+  // Memoized so TanStack's own memoization sees stable state between renders
+  const columnOrder = useMemo(() => {
+    const ids = columns.map((column, index) => column.id ?? (column as { accessorKey?: string }).accessorKey ?? String(index))
+    return normalizeColumnOrder(preferences.columnOrder, ids)
+  }, [columns, preferences.columnOrder])
+
+  const table = useReactTable({
+    data,
+    columns,
+    getRowId: (row) => getRowId(row),
+    state: {
+      sorting: preferences.sorting,
+      columnVisibility: preferences.columnVisibility,
+      columnOrder,
+      pagination,
+      expanded,
+    },
+    onSortingChange: (updater) => updatePreferences({ sorting: functionalUpdate(updater, preferences.sorting) }),
+    onColumnVisibilityChange: (updater) =>
+      updatePreferences({ columnVisibility: functionalUpdate(updater, preferences.columnVisibility) }),
+    onColumnOrderChange: (updater) => updatePreferences({ columnOrder: functionalUpdate(updater, columnOrder) }),
+    onPaginationChange: (updater: Updater<PaginationState>) => {
+      const next = functionalUpdate(updater, pagination)
+      setPageIndex(next.pageIndex)
+      pendingScrollRef.current = 0
+      if (next.pageSize !== preferences.pageSize) updatePreferences({ pageSize: next.pageSize })
+    },
+    onExpandedChange: setExpanded,
+    getRowCanExpand: (row) => Boolean(renderExpanded?.(row.original)),
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    enableMultiSort: true,
+    autoResetPageIndex: false,
+  })
+
+  const rowCount = table.getRowCount()
+  const pageCount = Math.max(table.getPageCount(), 1)
+  const pageRows = table.getRowModel().rows
+  const { scrollRef, start, end, paddingTop, paddingBottom, measureRows, scrollToIndex } = useVirtualRows({
+    count: pageRows.length,
+    enabled: pageRows.length > VIRTUALIZE_THRESHOLD,
+  })
+  const bodyRef = useRef<HTMLTableSectionElement>(null)
+
+  // Correct the row height estimate from the rows just rendered, then apply
+  // any scroll requested before the new page was on screen
+  useLayoutEffect(() => {
+    const body = bodyRef.current
+    if (body && end > start) {
+      // Expanded detail rows are not counted in `end - start`, so they stay out of the average
+      const rendered = Array.from(body.rows).filter(row => !row.dataset.spacer && !row.dataset.detail)
+      measureRows(rendered.reduce((sum, row) => sum + row.getBoundingClientRect().height, 0), end - start)
+    }
+    if (pendingScrollRef.current !== null) {
+      scrollToIndex(pendingScrollRef.current)
+      pendingScrollRef.current = null
+    }
+  })
+
+  // Keep the page in range when filters shrink the data
+  useEffect(() => {
+    if (pageIndex > pageCount - 1) setPageIndex(pageCount - 1)
+  }, [pageIndex, pageCount])
+
+  // Bring a deep-linked or newly selected row onto the current page, once per
+  // selection so re-sorting does not keep jumping back to it
+  const pagedToRowRef = useRef<string | null>(null)
+  const sortedRows = table.getSortedRowModel().rows
+  useEffect(() => {
+    if (!selectedRowId || pagedToRowRef.current === selectedRowId) return
+    const index = sortedRows.findIndex(row => row.id === selectedRowId)
+    if (index < 0) return
+    pagedToRowRef.current = selectedRowId
+    setPageIndex(Math.floor(index / preferences.pageSize))
+    pendingScrollRef.current = index % preferences.pageSize
+  }, [selectedRowId, sortedRows, preferences.pageSize])
+
+  const moveColumn = (id: string, offset: -1 | 1) => {
+    const index = columnOrder.indexOf(id)
+    const target = index + offset
+    if (index < 0 || target < 0 || target >= columnOrder.length) return
+    const next = [...columnOrder]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    table.setColumnOrder(next)
+  }
+
+  const visibleColumnCount = table.getVisibleLeafColumns().length
+  const firstRow = rowCount === 0 ? 0 : pageIndex * preferences.pageSize + 1
+  const lastRow = Math.min((pageIndex + 1) * preferences.pageSize, rowCount)
+
+  const renderRow = (row: Row<T>) => (
+    <Fragment key={row.id}>
+      <TableRow
+        className={cn(onRowClick && 'cursor-pointer hover:bg-gray-50', row.id === selectedRowId && 'bg-blue-50')}
+        onClick={onRowClick ? () => onRowClick(row.original) : undefined}
+      >
+        {row.getVisibleCells().map(cell => (
+          <TableCell key={cell.id}>{flexRender(cell.column.columnDef.cell, cell.getContext())}</TableCell>
+        ))}
+      </TableRow>
+      {row.getIsExpanded() && renderExpanded && (
+        <TableRow data-detail="true">
+          <TableCell colSpan={visibleColumnCount} className="bg-gray-50 p-4">
+            {renderExpanded(row.original)}
+          </TableCell>
+        </TableRow>
+      )}
+    </Fragment>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">Shift-click headers to sort by several columns</p>
+        <div className="flex items-center gap-2">
+          {toolbar}
+          <ColumnSettings
+            columns={table.getAllLeafColumns()}
+            order={columnOrder}
+            onToggle={(id, visible) => table.getColumn(id)?.toggleVisibility(visible)}
+            onMove={moveColumn}
+            onReset={() => {
+              resetPreferences()
+              setPageIndex(0)
+              pendingScrollRef.current = 0
+            }}
+          />
+        </div>
+      </div>
+
+      <div ref={scrollRef} className={cn('overflow-auto', scrollClassName)}>
+        <Table>
+          <TableHeader className="sticky top-0 z-10 bg-white">
+            {table.getHeaderGroups().map(headerGroup => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map(header => {
+                  const sorted = header.column.getIsSorted()
+                  const sortIndex = header.column.getSortIndex()
+                  return (
+                    <TableHead key={header.id} className={cn(header.column.id === 'expand' && 'w-12')}>
+                      {header.isPlaceholder ? null : header.column.getCanSort() ? (
+                        <button
+                          type="button"
+                          className="flex items-center gap-1 hover:text-gray-900"
+                          onClick={header.column.getToggleSortingHandler()}
+                        >
+                          {flexRender(header.column.columnDef.header, header.getContext())}
+                          {sorted === 'asc' ? (
+                            <ArrowUp className="h-3 w-3" />
+                          ) : sorted === 'desc' ? (
+                            <ArrowDown className="h-3 w-3" />
+                          ) : (
+                            <ArrowUpDown className="h-3 w-3 text-gray-300" />
+                          )}
+                          {sorted && preferences.sorting.length > 1 && (
+                            <span className="text-[10px] text-gray-500">{sortIndex + 1}</span>
+                          )}
+                        </button>
+                      ) : (
+                        flexRender(header.column.columnDef.header, header.getContext())
+                      )}
+                    </TableHead>
+                  )
+                })}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody ref={bodyRef}>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={visibleColumnCount} className="text-center py-8 text-gray-500">
+                  <Loader2 className="h-6 w-6 mx-auto animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : rowCount > 0 ? (
+              <>
+                {paddingTop > 0 && <tr data-spacer="true" style={{ height: paddingTop }} />}
+                {pageRows.slice(start, end).map(renderRow)}
+                {paddingBottom > 0 && <tr data-spacer="true" style={{ height: paddingBottom }} />}
+              </>
+            ) : (
+              <TableRow>
+                <TableCell colSpan={visibleColumnCount} className="text-center py-8 text-gray-500">
+                  {emptyState}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600">
+        <div className="flex items-center gap-2">
+          <span>Rows per page</span>
+          <Select value={String(preferences.pageSize)} onValueChange={(value) => table.setPageSize(Number(value))}>
+            <SelectTrigger className="h-8 w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZE_OPTIONS.map(size => (
+                <SelectItem key={size} value={String(size)}>{size === ALL_ROWS_PAGE_SIZE ? 'All' : size}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span>{firstRow}–{lastRow} of {rowCount}</span>
+        </div>
+        <Pagination className="mx-0 w-auto">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                role="button"
+                aria-disabled={!table.getCanPreviousPage()}
+                className={cn('cursor-pointer', !table.getCanPreviousPage() && 'pointer-events-none opacity-50')}
+                onClick={() => table.previousPage()}
+              />
+            </PaginationItem>
+            {getPageWindow(pageIndex, pageCount).map((page, index) => (
+              <PaginationItem key={page ?? `gap-${index}`}>
+                {page === null ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink
+                    role="button"
+                    className="cursor-pointer"
+                    isActive={page === pageIndex}
+                    onClick={() => table.setPageIndex(page)}
+                  >
+                    {page + 1}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                role="button"
+                aria-disabled={!table.getCanNextPage()}
+                className={cn('cursor-pointer', !table.getCanNextPage() && 'pointer-events-none opacity-50')}
+                onClick={() => table.nextPage()}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      </div>
+    </div>
+  )
+}
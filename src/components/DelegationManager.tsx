@@ -0,0 +1,229 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, UserCheck } from 'lucide-react'
+import { describeDelegationLimits, isDelegationActive, validateDelegation } from '@/lib/delegations'
+import { hasPermission } from '@/lib/permissions'
+import { getUserById } from '@/lib/users'
+import { formatCurrency, formatDate } from '@/lib/format'
+import { HOME_CURRENCY } from '@/lib/currency'
+import { parseMoney, toAmount } from '@/lib/money'
+import { EXPENSE_CATEGORIES, type ApprovalDelegation } from '@/types/expense'
+import type { User } from '@/types'
+
+// ============================================================================
+// DELEGATION MANAGER
+// ============================================================================
+
+type DelegationDraft = Omit<ApprovalDelegation, 'id' | 'createdAt'>
+
+interface DelegationManagerProps {
+  currentUser: User
+  users: User[]
+  delegations: ApprovalDelegation[]
+  onCreate: (draft: DelegationDraft) => Promise<void>
+  onRevoke: (delegation: ApprovalDelegation) => Promise<void>
+}
+
+function DelegationRow({
+  delegation,
+  perspective,
+  onRevoke
+}: {
+  delegation: ApprovalDelegation
+  perspective: 'given' | 'received'
+  onRevoke?: () => void
+}) {
+  const other = getUserById(perspective === 'given' ? delegation.delegateId : delegation.delegatorId)
+  const status = delegation.revokedAt ? 'revoked' : isDelegationActive(delegation) ? 'active' : 'scheduled'
+
+  return (
+    <div className="flex items-start justify-between gap-2 rounded-md border border-gray-200 p-2 text-xs">
+      <div>
+        <p className="font-medium text-sm">
+          {perspective === 'given' ? 'To' : 'From'} {other?.name ?? 'Unknown user'}
+        </p>
+        <p className="text-gray-600">
+          {formatDate(delegation.startDate)} – {formatDate(delegation.endDate)}
+        </p>
+        <p className="text-gray-500">{describeDelegationLimits(delegation, formatCurrency)}</p>
+      </div>
+      <div className="flex flex-col items-end gap-1">
+        <Badge variant={status === 'active' ? 'default' : 'outline'} className="capitalize">{status}</Badge>
+        {onRevoke && !delegation.revokedAt && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onRevoke}>
+            Revoke
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Lets an approver hand their authority to a substitute while away, and
+ * lists delegations they have given or received
+ */
+export function DelegationManager({ currentUser, users, delegations, onCreate, onRevoke }: DelegationManagerProps) {
+  const [delegateId, setDelegateId] = useState('')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [maxAmount, setMaxAmount] = useState('')
+  const [categories, setCategories] = useState<string[]>([])
+  const [errors, setErrors] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [revokeError, setRevokeError] = useState<string | null>(null)
+
+  const substitutes = users.filter(u => u.id !== currentUser.id && hasPermission(u, 'review:decide'))
+  const given = delegations.filter(d => d.delegatorId === currentUser.id)
+  const received = delegations.filter(d => d.delegateId === currentUser.id && !d.revokedAt)
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    setCategories(prev => (checked ? [...prev, category] : prev.filter(c => c !== category)))
+  }
+
+  const handleSubmit = async () => {
+    const cap = maxAmount ? parseMoney(maxAmount, HOME_CURRENCY) : null
+    const draft: DelegationDraft = {
+      delegatorId: currentUser.id,
+      delegateId,
+      startDate,
+      endDate,
+      maxAmount: maxAmount ? (cap ? toAmount(cap) : NaN) : undefined,
+      categories: categories.length > 0 ? categories : undefined
+    }
+    const problems = validateDelegation(draft)
+    setErrors(problems)
+    if (problems.length > 0) return
+
+    setIsSaving(true)
+    try {
+      await onCreate(draft)
+      setDelegateId('')
+      setStartDate('')
+      setEndDate('')
+      setMaxAmount('')
+      setCategories([])
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Could not save the delegation'])
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRevoke = async (delegation: ApprovalDelegation) => {
+    setRevokeError(null)
+    try {
+      await onRevoke(delegation)
+    } catch (error) {
+      setRevokeError(error instanceof Error ? error.message : 'Could not revoke the delegation')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Out of Office
+        </CardTitle>
+        <CardDescription>Delegate your approvals to a substitute while you are away</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label>Substitute</Label>
+          <Select value={delegateId} onValueChange={setDelegateId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a substitute" />
+            </SelectTrigger>
+            <SelectContent>
+              {substitutes.map(user => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.name} · {user.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="delegation-start">From</Label>
+            <Input id="delegation-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="delegation-end">Until</Label>
+            <Input id="delegation-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="delegation-cap">Amount cap (optional)</Label>
+          <Input
+            id="delegation-cap"
+            type="number"
+            step="0.01"
+            placeholder="No cap"
+            value={maxAmount}
+            onChange={(e) => setMaxAmount(e.target.value)}
+          />
+        </div>
+
+        <div>
+          <Label>Categories (optional)</Label>
+          <div className="mt-2 space-y-1">
+            {EXPENSE_CATEGORIES.map(category => (
+              <label key={category} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={categories.includes(category)}
+                  onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                />
+                {category}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-600 list-disc pl-4">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        <Button className="w-full" onClick={handleSubmit} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Delegate Approvals
+        </Button>
+
+        {given.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Delegated by you</p>
+            {revokeError && <p className="text-sm text-red-600">{revokeError}</p>}
+            {given.map(delegation => (
+              <DelegationRow
+                key={delegation.id}
+                delegation={delegation}
+                perspective="given"
+                onRevoke={() => handleRevoke(delegation)}
+              />
+            ))}
+          </div>
+        )}
+
+        {received.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Delegated to you</p>
+            {received.map(delegation => (
+              <DelegationRow key={delegation.id} delegation={delegation} perspective="received" />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
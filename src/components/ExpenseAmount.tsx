@@ -0,0 +1,43 @@
+import {
+  getExpenseCurrency,
+  getHomeMoney,
+  getOriginalMoney,
+  HOME_CURRENCY,
+  isForeignCurrency,
+  type AmountFields
+} from '@/lib/currency'
+import { formatMoney } from '@/lib/money'
+import { cn } from '@/lib/utils'
+
+// ============================================================================
+// EXPENSE AMOUNT
+// ============================================================================
+
+interface ExpenseAmountProps {
+  expense: AmountFields & { fxRate?: number; fxRateDate?: string }
+  className?: string
+  /** Put the home-currency amount on its own line instead of alongside */
+  stacked?: boolean
+}
+
+/**
+ * The amount as paid and, for foreign-currency expenses, the converted
+ * home-currency amount
+ */
+export function ExpenseAmount({ expense, className, stacked }: ExpenseAmountProps) {
+  const original = formatMoney(getOriginalMoney(expense))
+  if (!isForeignCurrency(expense)) return <span className={className}>{original}</span>
+
+  const rateNote = expense.fxRate !== undefined
+    ? `${getExpenseCurrency(expense)} 1 = ${HOME_CURRENCY} ${expense.fxRate}${expense.fxRateDate ? ` (${expense.fxRateDate})` : ''}`
+    : undefined
+
+  return (
+    <span className={cn(stacked ? 'inline-flex flex-col' : 'inline-flex items-baseline gap-1', className)}>
+      <span>{original}</span>
+      <span className="text-xs font-normal text-gray-500" title={rateNote}>
+        {stacked ? '' : '('}{formatMoney(getHomeMoney(expense))}{stacked ? '' : ')'}
+      </span>
+    </span>
+  )
+}
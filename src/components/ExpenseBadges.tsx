@@ -0,0 +1,121 @@
+import { Badge } from '@/components/ui/badge'
+import { Clock, Moon } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { MealTimingFlag } from '@/lib/meal-timing'
+import type { ReviewSla } from '@/lib/review-sla'
+
+// ============================================================================
+// COLOR HELPERS
+// ============================================================================
+
+export function getStatusColor(status: string): string {
+  switch (status) {
+    case 'approved':
+      return 'bg-green-500'
+    case 'rejected':
+      return 'bg-red-500'
+    case 'pending':
+      return 'bg-yellow-500'
+    case 'reviewing':
+      return 'bg-blue-500'
+    case 'needs_info':
+      return 'bg-orange-500'
+    case 'appealed':
+      return 'bg-purple-500'
+    default:
+      return 'bg-gray-500'
+  }
+}
+
+export function getRiskColor(risk: string): string {
+  switch (risk) {
+    case 'low':
+      return 'bg-green-100 text-green-800 border-green-200'
+    case 'medium':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200'
+    case 'high':
+    case 'critical':
+      return 'bg-red-100 text-red-800 border-red-200'
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-200'
+  }
+}
+
+export function getSlaColor(state: ReviewSla['state']): string {
+  switch (state) {
+    case 'overdue':
+      return 'bg-red-100 text-red-800 border-red-200'
+    case 'due_soon':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-200'
+    default:
+      return 'bg-gray-100 text-gray-700 border-gray-200'
+  }
+}
+
+// ============================================================================
+// BADGES
+// ============================================================================
+
+// Status Badge Component
+export function StatusBadge({ status }: { status: string }) {
+  const color = getStatusColor(status)
+  return (
+    <Badge className={cn('capitalize', color, 'text-white border-0')}>
+      {status.replace(/_/g, ' ')}
+    </Badge>
+  )
+}
+
+// Risk Badge Component
+export function RiskBadge({ risk }: { risk: string }) {
+  const color = getRiskColor(risk)
+  return (
+    <Badge variant="outline" className={cn('capitalize', color)}>
+      {risk} risk
+    </Badge>
+  )
+}
+
+// Severity Badge Component (fraud flags, policy violations)
+export function SeverityBadge({ severity }: { severity: string }) {
+  const color = getRiskColor(severity)
+  return (
+    <Badge variant="outline" className={cn('capitalize', color)}>
+      {severity}
+    </Badge>
+  )
+}
+
+// SLA Age Badge Component (time the current approval step has been waiting)
+export function SlaBadge({ sla }: { sla: ReviewSla }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn('gap-1', getSlaColor(sla.state))}
+      title={`Due ${sla.dueAt.toLocaleString()}`}
+    >
+      <Clock className="h-3 w-3" />
+      {sla.ageBusinessDays.toFixed(1)} business days
+      {sla.state === 'overdue' && ' · overdue'}
+    </Badge>
+  )
+}
+
+// Meal Timing Badges Component (weekend or late-night business meals)
+export function MealTimingBadges({ flags }: { flags: MealTimingFlag[] }) {
+  return (
+    <>
+      {flags.map(flag => (
+        <Badge
+          key={flag.id}
+          variant="outline"
+          className="gap-1 bg-amber-50 text-amber-800 border-amber-200"
+          title={flag.description}
+        >
+          {flag.id === 'late_night' && <Moon className="h-3 w-3" />}
+          {flag.label}
+        </Badge>
+      ))}
+    </>
+  )
+}
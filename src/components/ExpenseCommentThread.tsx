@@ -0,0 +1,169 @@
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Loader2, MessageSquare, Paperclip, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { CommentAttachment, ExpenseComment } from '@/types/expense'
+
+// ============================================================================
+// COMMENT THREAD
+// ============================================================================
+
+const KIND_LABELS: Record<ExpenseComment['kind'], string> = {
+  info_request: 'Information requested',
+  response: 'Response',
+  comment: 'Comment'
+}
+
+interface ExpenseCommentThreadProps {
+  comments: ExpenseComment[]
+  currentUserId: string
+  /** Omit to render the thread read-only */
+  onSubmit?: (body: string, files: File[]) => Promise<void>
+  submitLabel?: string
+  placeholder?: string
+  allowAttachments?: boolean
+  onOpenAttachment?: (attachment: CommentAttachment) => Promise<void>
+}
+
+/**
+ * Conversation between an employee and reviewers about one expense
+ */
+export function ExpenseCommentThread({
+  comments,
+  currentUserId,
+  onSubmit,
+  submitLabel = 'Post Comment',
+  placeholder = 'Write a comment...',
+  allowAttachments = false,
+  onOpenAttachment
+}: ExpenseCommentThreadProps) {
+  const [body, setBody] = useState('')
+  const [files, setFiles] = useState<File[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [attachmentError, setAttachmentError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleSubmit = async () => {
+    if (!onSubmit || !body.trim()) return
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await onSubmit(body.trim(), files)
+      setBody('')
+      setFiles([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not post the comment')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenAttachment = async (attachment: CommentAttachment) => {
+    if (!onOpenAttachment) return
+    setAttachmentError(null)
+    try {
+      await onOpenAttachment(attachment)
+    } catch (err) {
+      setAttachmentError(err instanceof Error ? err.message : `Could not open ${attachment.fileName}`)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {comments.length > 0 ? (
+        <div className="space-y-2">
+          {comments.map(comment => (
+            <div
+              key={comment.id}
+              className={cn(
+                'rounded-md border p-3 text-sm',
+                comment.authorId === currentUserId ? 'border-blue-200 bg-blue-50' : 'border-gray-200 bg-white'
+              )}
+            >
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="font-medium">{comment.authorName}</span>
+                <span className="text-xs text-gray-500">{new Date(comment.createdAt).toLocaleString()}</span>
+              </div>
+              {comment.kind !== 'comment' && (
+                <Badge variant="outline" className="mb-1 text-xs">{KIND_LABELS[comment.kind]}</Badge>
+              )}
+              <p className="whitespace-pre-wrap text-gray-700">{comment.body}</p>
+              {comment.attachments && comment.attachments.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {comment.attachments.map(attachment => (
+                    <Button
+                      key={attachment.id}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => handleOpenAttachment(attachment)}
+                      disabled={!onOpenAttachment}
+                    >
+                      <Paperclip className="mr-1 h-3 w-3" />
+                      {attachment.fileName}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 flex items-center gap-2">
+          <MessageSquare className="h-4 w-4" />
+          No comments yet
+        </p>
+      )}
+      {attachmentError && <p className="text-sm text-red-600">{attachmentError}</p>}
+
+      {onSubmit && (
+        <div className="space-y-2">
+          <Textarea placeholder={placeholder} value={body} onChange={(e) => setBody(e.target.value)} rows={3} />
+          {files.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {files.map(file => (
+                <Badge key={file.name} variant="secondary" className="gap-1">
+                  <Paperclip className="h-3 w-3" />
+                  {file.name}
+                  <button onClick={() => setFiles(prev => prev.filter(f => f !== file))} aria-label={`Remove ${file.name}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            {allowAttachments && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept="image/*,.pdf"
+                  className="hidden"
+                  onChange={(e) => {
+                    const selected = Array.from(e.target.files ?? [])
+                    setFiles(prev => [...prev, ...selected])
+                    e.target.value = ''
+                  }}
+                />
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isSubmitting}>
+                  <Paperclip className="mr-2 h-4 w-4" />
+                  Attach
+                </Button>
+              </>
+            )}
+            <Button size="sm" className="flex-1" onClick={handleSubmit} disabled={isSubmitting || !body.trim()}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitLabel}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import type { ColumnDef } from '@tanstack/react-table'
+import { Button } from '@/components/ui/button'
+import { ChevronDown, ChevronRight, FileText } from 'lucide-react'
+import { DataTable } from '@/components/DataTable'
+import { StatusBadge, RiskBadge } from '@/components/ExpenseBadges'
+import { ExpenseAmount } from '@/components/ExpenseAmount'
+import { formatDate } from '@/lib/format'
+import { DEFAULT_TABLE_PREFERENCES, type TablePreferences } from '@/lib/table-preferences'
+import type { ExpenseRecord } from '@/types/expense'
+
+// ============================================================================
+// COLUMNS
+// ============================================================================
+
+const RISK_ORDER: Record<ExpenseRecord['riskScore'], number> = { low: 0, medium: 1, high: 2, critical: 3 }
+
+const EXPENSE_COLUMNS: Array<ColumnDef<ExpenseRecord, any>> = [
+  {
+    id: 'expand',
+    header: '',
+    enableSorting: false,
+    enableHiding: false,
+    cell: ({ row }) => row.getCanExpand() && (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={(e) => {
+          e.stopPropagation()
+          row.toggleExpanded()
+        }}
+        aria-label={row.getIsExpanded() ? 'Collapse' : 'Expand'}
+      >
+        {row.getIsExpanded() ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+      </Button>
+    ),
+  },
+  {
+    id: 'id',
+    accessorKey: 'id',
+    header: 'ID',
+    enableHiding: false,
+    cell: ({ row }) => <span className="font-medium">{row.original.id}</span>,
+  },
+  { id: 'date', accessorKey: 'date', header: 'Date', cell: ({ row }) => formatDate(row.original.date) },
+  { id: 'employee', accessorKey: 'employee', header: 'Employee' },
+  { id: 'vendor', accessorKey: 'vendor', header: 'Vendor' },
+  // Sorted by the home-currency amount so mixed currencies compare correctly
+  { id: 'amount', accessorKey: 'amount', header: 'Amount', cell: ({ row }) => <ExpenseAmount expense={row.original} stacked /> },
+  { id: 'category', accessorKey: 'category', header: 'Category' },
+  { id: 'status', accessorKey: 'status', header: 'Status', cell: ({ row }) => <StatusBadge status={row.original.status} /> },
+  {
+    id: 'risk',
+    accessorFn: (expense) => RISK_ORDER[expense.riskScore] ?? 0,
+    header: 'Risk',
+    cell: ({ row }) => <RiskBadge risk={row.original.riskScore} />,
+  },
+  { id: 'createdAt', accessorKey: 'createdAt', header: 'Submitted', cell: ({ row }) => formatDate(row.original.createdAt) },
+]
+
+/** Employee and submission date are hidden until chosen; unsorted keeps newest submissions first */
+const EXPENSE_TABLE_DEFAULTS: TablePreferences = {
+  ...DEFAULT_TABLE_PREFERENCES,
+  columnVisibility: { employee: false, createdAt: false },
+}
+
+function ExpenseValidationSummary({ expense }: { expense: ExpenseRecord }) {
+  const result = expense.validationResult
+  if (!result) return null
+  return (
+    <div className="grid grid-cols-2 gap-4 text-sm">
+      <div>
+        <p className="font-semibold mb-1">Fraud Analysis</p>
+        <p>Score: {(result.fraud_analysis.fraud_score * 100).toFixed(0)}%</p>
+        <p>Flags: {result.fraud_analysis.flags_count}</p>
+      </div>
+      <div>
+        <p className="font-semibold mb-1">Policy Compliance</p>
+        <p>Status: {result.policy_compliance.compliant ? 'Compliant' : 'Non-Compliant'}</p>
+        <p>Violations: {result.policy_compliance.violations_count}</p>
+      </div>
+      <div className="col-span-2">
+        <p className="font-semibold mb-1">Recommendation</p>
+        <p className="text-gray-700">{result.recommendation_reasoning}</p>
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// EXPENSE TABLE
+// ============================================================================
+
+/**
+ * Expense list with validation details on expandable rows
+ */
+export function ExpenseTable({
+  expenses,
+  userId,
+  loading,
+  selectedExpenseId,
+  onSelect
+}: {
+  expenses: ExpenseRecord[]
+  userId: string
+  loading?: boolean
+  selectedExpenseId?: string | null
+  onSelect: (expense: ExpenseRecord) => void
+}) {
+  return (
+    <DataTable
+      tableId="recent-expenses"
+      userId={userId}
+      columns={EXPENSE_COLUMNS}
+      data={expenses}
+      getRowId={(expense) => expense.id}
+      defaultPreferences={EXPENSE_TABLE_DEFAULTS}
+      loading={loading}
+      onRowClick={onSelect}
+      selectedRowId={selectedExpenseId}
+      renderExpanded={(expense) => (expense.validationResult ? <ExpenseValidationSummary expense={expense} /> : null)}
+      emptyState={
+        <div className="flex flex-col items-center gap-2">
+          <FileText className="h-12 w-12 text-gray-300" />
+          <p className="text-sm">No expenses yet</p>
+          <p className="text-xs">Submit your first expense to get started</p>
+        </div>
+      }
+    />
+  )
+}
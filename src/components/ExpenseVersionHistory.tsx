@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ArrowRight, History } from 'lucide-react'
+import { diffVersions, listVersions } from '@/lib/expense-versions'
+import { StatusBadge, RiskBadge } from '@/components/ExpenseBadges'
+import type { ExpenseRecord, ExpenseVersion } from '@/types/expense'
+
+// ============================================================================
+// VERSION HISTORY
+// ============================================================================
+
+function VersionSummary({ version, isCurrent }: { version: ExpenseVersion; isCurrent: boolean }) {
+  return (
+    <div className="rounded-md border border-gray-200 p-3 text-sm space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">
+          Version {version.version}{isCurrent && ' (current)'}
+        </span>
+        <div className="flex items-center gap-2">
+          <RiskBadge risk={version.riskScore} />
+          <StatusBadge status={version.status} />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">Submitted {new Date(version.submittedAt).toLocaleString()}</p>
+      {version.validationResult && (
+        <p className="text-xs text-gray-700">
+          Validation: {version.validationResult.final_recommendation} — {version.validationResult.recommendation_reasoning}
+        </p>
+      )}
+      {version.approvalChain?.signatures.map(signature => (
+        <p key={`${signature.step}-${signature.signedAt}`} className="text-xs text-gray-700">
+          {signature.userName} {signature.decision === 'approve' ? 'approved' : 'rejected'}: {signature.rationale}
+        </p>
+      ))}
+      {version.approvalResults?.map((result, index) => (
+        <p key={index} className="text-xs text-gray-700">
+          Outcome: {result.expense_status}
+          {result.decision_details?.rationale && <> — {result.decision_details.rationale}</>}
+        </p>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * All submissions of a resubmitted expense, with a field-level diff between any two
+ */
+export function ExpenseVersionHistory({ expense }: { expense: ExpenseRecord }) {
+  const versions = listVersions(expense)
+  const latest = versions[versions.length - 1]
+  const [fromVersion, setFromVersion] = useState(String(versions[versions.length - 2]?.version ?? latest.version))
+  const [toVersion, setToVersion] = useState(String(latest.version))
+
+  if (versions.length < 2) return null
+
+  const from = versions.find(v => String(v.version) === fromVersion) ?? versions[0]
+  const to = versions.find(v => String(v.version) === toVersion) ?? latest
+  const changes = diffVersions(from, to)
+
+  const versionSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-24 h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(v => (
+          <SelectItem key={v.version} value={String(v.version)}>v{v.version}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Version History ({versions.length} versions)
+      </p>
+
+      <div className="flex items-center gap-2 text-sm">
+        Compare {versionSelect(fromVersion, setFromVersion)}
+        <ArrowRight className="h-4 w-4 text-gray-400" />
+        {versionSelect(toVersion, setToVersion)}
+      </div>
+
+      {changes.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>v{from.version}</TableHead>
+              <TableHead>v{to.version}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changes.map(change => (
+              <TableRow key={change.field}>
+                <TableCell className="font-medium">{change.label}</TableCell>
+                <TableCell className="text-red-700 line-through">{change.before}</TableCell>
+                <TableCell className="text-green-700">{change.after}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-gray-500">No field changes between these versions</p>
+      )}
+
+      <div className="space-y-2">
+        {[...versions].reverse().map(version => (
+          <VersionSummary key={version.version} version={version} isCurrent={version.version === latest.version} />
+        ))}
+      </div>
+    </div>
+  )
+}
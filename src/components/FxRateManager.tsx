@@ -0,0 +1,142 @@
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ArrowLeftRight, Loader2, Upload } from 'lucide-react'
+import { HOME_CURRENCY, parseFxRateCsv } from '@/lib/currency'
+import type { FxRate } from '@/types/expense'
+
+// ============================================================================
+// FX RATE MANAGER
+// ============================================================================
+
+/** Past rows shown per currency besides the current one */
+const HISTORY_PER_CURRENCY = 2
+
+interface FxRateManagerProps {
+  rates: FxRate[]
+  loading?: boolean
+  /** Without this handler the table is read-only */
+  onImport?: (rates: FxRate[], fileName: string) => Promise<void>
+}
+
+/**
+ * The dated FX table used to convert expenses into the home currency, with
+ * CSV import for admins
+ */
+export function FxRateManager({ rates, loading, onImport }: FxRateManagerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [summary, setSummary] = useState<string | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+
+  // Rates arrive sorted by currency, newest first; each currency's first row is its latest
+  const seen = new Map<string, number>()
+  const shown = rates.flatMap(rate => {
+    const position = seen.get(rate.currency) ?? 0
+    seen.set(rate.currency, position + 1)
+    return position <= HISTORY_PER_CURRENCY ? [{ rate, latest: position === 0 }] : []
+  })
+
+  const handleFile = async (file: File) => {
+    if (!onImport) return
+    setIsImporting(true)
+    setSummary(null)
+    try {
+      const { rates: parsed, errors: problems } = parseFxRateCsv(await file.text(), file.name)
+      setErrors(problems)
+      if (parsed.length > 0) {
+        await onImport(parsed, file.name)
+        setSummary(`Imported ${parsed.length} rate${parsed.length === 1 ? '' : 's'} from ${file.name}`)
+      }
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Could not import the file'])
+    } finally {
+      setIsImporting(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowLeftRight className="h-5 w-5" />
+              Exchange Rates
+            </CardTitle>
+            <CardDescription>
+              {HOME_CURRENCY} per unit of each currency; a rate applies from its date until the next one
+            </CardDescription>
+          </div>
+          {onImport && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleFile(file)
+                }}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+                {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Import CSV
+              </Button>
+            </>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {onImport && (
+          <p className="text-xs text-gray-500">
+            CSV with a header row naming <code>currency</code>, <code>date</code> (YYYY-MM-DD) and <code>rate</code> columns.
+            Rows for an existing currency and date replace it.
+          </p>
+        )}
+        {summary && <p className="text-sm text-green-700">{summary}</p>}
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-600 list-disc pl-4">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+        {loading ? (
+          <div className="flex items-center justify-center py-6 text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading rates...
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Currency</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>Source</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.map(({ rate, latest }) => (
+                <TableRow key={`${rate.currency}:${rate.effectiveDate}`}>
+                  <TableCell className="font-medium">
+                    {rate.currency}
+                    {latest && (
+                      <Badge variant="outline" className="ml-2">Latest</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{rate.effectiveDate}</TableCell>
+                  <TableCell className="text-right font-mono">{rate.rate}</TableCell>
+                  <TableCell className="text-xs text-gray-500">{rate.source === 'default' ? 'Bundled' : rate.source}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
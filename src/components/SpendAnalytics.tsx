@@ -0,0 +1,272 @@
+import { useMemo, type ReactNode } from 'react'
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { BarChart3, Loader2 } from 'lucide-react'
+import { HOME_CURRENCY } from '@/lib/currency'
+import { formatCurrency, formatElapsed, formatPercent } from '@/lib/format'
+import type { ExpenseFilters } from '@/lib/expense-filters'
+import { buildSpendAnalytics, TOP_VENDOR_COUNT } from '@/lib/spend-analytics'
+import { cn } from '@/lib/utils'
+import type { ExpenseRecord } from '@/types/expense'
+
+// ============================================================================
+// CHART CONFIG
+// ============================================================================
+
+const SPEND_CONFIG: ChartConfig = { amount: { label: 'Spend', color: 'hsl(var(--chart-1))' } }
+const COUNT_CONFIG: ChartConfig = { count: { label: 'Expenses', color: 'hsl(var(--chart-2))' } }
+const DECISION_TIME_CONFIG: ChartConfig = { averageDays: { label: 'Avg. days', color: 'hsl(var(--chart-3))' } }
+const DECISION_CONFIG: ChartConfig = {
+  approved: { label: 'Approved', color: 'hsl(142 71% 45%)' },
+  rejected: { label: 'Rejected', color: 'hsl(0 72% 51%)' },
+}
+const RECOMMENDATION_COLORS: Record<string, string> = {
+  AUTO_APPROVE: 'hsl(142 71% 45%)',
+  MANAGER_REVIEW: 'hsl(38 92% 50%)',
+  reject: 'hsl(0 72% 51%)',
+}
+
+const formatAxisCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: HOME_CURRENCY, notation: 'compact' }).format(value)
+
+// Recharts hands click handlers the rendered item with the source row under `payload`
+type ChartClick = { payload?: { key?: string } }
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+interface StatCardProps {
+  label: string
+  value: string
+  detail: string
+  onClick?: () => void
+}
+
+function StatCard({ label, value, detail, onClick }: StatCardProps) {
+  return (
+    <Card
+      className={cn(onClick && 'cursor-pointer hover:border-blue-300 transition-colors')}
+      onClick={onClick}
+    >
+      <CardContent className="pt-6">
+        <p className="text-sm text-gray-500">{label}</p>
+        <p className="text-2xl font-semibold text-gray-900">{value}</p>
+        <p className="text-xs text-gray-500 mt-1">{detail}</p>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface ChartCardProps {
+  title: string
+  description: string
+  empty: boolean
+  children: ReactNode
+}
+
+function ChartCard({ title, description, empty, children }: ChartCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {empty ? (
+          <p className="py-12 text-center text-sm text-gray-500">No data yet</p>
+        ) : children}
+      </CardContent>
+    </Card>
+  )
+}
+
+// ============================================================================
+// SPEND ANALYTICS
+// ============================================================================
+
+interface SpendAnalyticsProps {
+  expenses: ExpenseRecord[]
+  loading?: boolean
+  /** Opens the expense list filtered to the clicked bar or slice */
+  onDrillThrough: (filters: Partial<ExpenseFilters>) => void
+}
+
+export function SpendAnalytics({ expenses, loading, onDrillThrough }: SpendAnalyticsProps) {
+  const analytics = useMemo(() => buildSpendAnalytics(expenses), [expenses])
+
+  const drill = (field: keyof ExpenseFilters) => (item: ChartClick) => {
+    const key = item?.payload?.key
+    if (key) onDrillThrough({ [field]: key })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24 text-gray-500">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Loading expenses...
+      </div>
+    )
+  }
+
+  const decisionData = [
+    { key: 'approved', label: 'Approved', count: analytics.approvedCount, fill: 'var(--color-approved)' },
+    { key: 'rejected', label: 'Rejected', count: analytics.rejectedCount, fill: 'var(--color-rejected)' },
+  ].filter(slice => slice.count > 0)
+  const validatedCount = analytics.fraudDistribution.reduce((sum, band) => sum + band.count, 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <BarChart3 className="h-5 w-5 text-blue-600" />
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Spend Analytics</h2>
+          <p className="text-sm text-gray-500">Click any bar, slice or figure to open the matching expenses</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          label="Claimed Spend"
+          value={formatCurrency(analytics.totalSpend)}
+          detail={`${analytics.expenseCount} expenses, any status`}
+          onClick={() => onDrillThrough({})}
+        />
+        <StatCard
+          label="Approval Rate"
+          value={analytics.approvalRate === null ? '—' : formatPercent(analytics.approvalRate)}
+          detail={`${analytics.approvedCount} approved, ${analytics.rejectedCount} rejected`}
+          onClick={() => onDrillThrough({ status: 'approved' })}
+        />
+        <StatCard
+          label="Avg. Time to Decision"
+          value={analytics.averageDecisionMs === null ? '—' : formatElapsed(analytics.averageDecisionMs)}
+          detail="From submission to final decision"
+        />
+        <StatCard
+          label="Auto-approve Rate"
+          value={analytics.autoApproveRate === null ? '—' : formatPercent(analytics.autoApproveRate)}
+          detail="Share of validated expenses"
+          onClick={() => onDrillThrough({ recommendation: 'AUTO_APPROVE' })}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ChartCard title="Spend by Category" description="Claimed amount per expense category" empty={analytics.byCategory.length === 0}>
+          <ChartContainer config={SPEND_CONFIG} className="h-64 w-full aspect-auto">
+            <BarChart data={analytics.byCategory} accessibilityLayer>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} fontSize={11} />
+              <YAxis tickFormatter={formatAxisCurrency} tickLine={false} axisLine={false} width={56} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="amount" fill="var(--color-amount)" radius={4} className="cursor-pointer" onClick={drill('category')} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Spend by Department" description="Claimed amount per submitting department" empty={analytics.byDepartment.length === 0}>
+          <ChartContainer config={SPEND_CONFIG} className="h-64 w-full aspect-auto">
+            <BarChart data={analytics.byDepartment} accessibilityLayer>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} fontSize={11} />
+              <YAxis tickFormatter={formatAxisCurrency} tickLine={false} axisLine={false} width={56} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="amount" fill="var(--color-amount)" radius={4} className="cursor-pointer" onClick={drill('department')} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Top Vendors" description={`The ${TOP_VENDOR_COUNT} vendors with the most claimed spend`} empty={analytics.byVendor.length === 0}>
+          <ChartContainer config={SPEND_CONFIG} className="h-64 w-full aspect-auto">
+            <BarChart data={analytics.byVendor} layout="vertical" accessibilityLayer>
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" tickFormatter={formatAxisCurrency} tickLine={false} axisLine={false} />
+              <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} fontSize={11} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="amount" fill="var(--color-amount)" radius={4} className="cursor-pointer" onClick={drill('vendor')} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Spend by Month" description="Claimed amount by transaction month" empty={analytics.byMonth.length === 0}>
+          <ChartContainer config={SPEND_CONFIG} className="h-64 w-full aspect-auto">
+            <BarChart data={analytics.byMonth} accessibilityLayer>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis tickFormatter={formatAxisCurrency} tickLine={false} axisLine={false} width={56} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="amount" fill="var(--color-amount)" radius={4} className="cursor-pointer" onClick={drill('month')} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Approvals vs Rejections" description="Final decisions on closed expenses" empty={decisionData.length === 0}>
+          <ChartContainer config={DECISION_CONFIG} className="h-64 w-full aspect-auto">
+            <PieChart accessibilityLayer>
+              <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+              <Pie
+                data={decisionData}
+                dataKey="count"
+                nameKey="key"
+                innerRadius={50}
+                label={({ payload }) => payload.label}
+                className="cursor-pointer"
+                onClick={drill('status')}
+              />
+            </PieChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard
+          title="Time to Decision"
+          description="Average days from submission to final decision, by transaction month"
+          empty={analytics.decisionTimeByMonth.length === 0}
+        >
+          <ChartContainer config={DECISION_TIME_CONFIG} className="h-64 w-full aspect-auto">
+            <BarChart data={analytics.decisionTimeByMonth} accessibilityLayer>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis tickFormatter={(value: number) => value.toFixed(1)} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="averageDays" fill="var(--color-averageDays)" radius={4} className="cursor-pointer" onClick={drill('month')} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Fraud Score Distribution" description="Validated expenses by the fraud agent's score" empty={validatedCount === 0}>
+          <ChartContainer config={COUNT_CONFIG} className="h-64 w-full aspect-auto">
+            <BarChart data={analytics.fraudDistribution} accessibilityLayer>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={4} className="cursor-pointer" onClick={drill('fraud')} />
+            </BarChart>
+          </ChartContainer>
+        </ChartCard>
+
+        <ChartCard title="Validation Recommendations" description="The validation agent's final recommendation" empty={analytics.recommendations.length === 0}>
+          <ChartContainer config={COUNT_CONFIG} className="h-64 w-full aspect-auto">
+            <PieChart accessibilityLayer>
+              <ChartTooltip content={<ChartTooltipContent nameKey="label" hideLabel />} />
+              <Pie
+                data={analytics.recommendations}
+                dataKey="count"
+                nameKey="label"
+                innerRadius={50}
+                label={({ payload }) => payload.label}
+                className="cursor-pointer"
+                onClick={drill('recommendation')}
+              >
+                {analytics.recommendations.map(bucket => (
+                  <Cell key={bucket.key} fill={RECOMMENDATION_COLORS[bucket.key]} />
+                ))}
+              </Pie>
+            </PieChart>
+          </ChartContainer>
+        </ChartCard>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+/**
+ * User Session Provider
+ *
+ * Holds the signed-in user for the whole app. Until someone signs in, the
+ * sign-in screen is rendered in place of the routes.
+ */
+
+import { createContext, useCallback, useContext, useMemo, useState, type ReactNode } from 'react'
+import { DEFAULT_USERS, getUserById, loadSessionUserId, saveSessionUserId } from '@/lib/users'
+import { hasPermission, type Permission } from '@/lib/permissions'
+import SignIn from '@/pages/SignIn'
+import type { User } from '@/types'
+
+interface UserSession {
+  currentUser: User
+  users: User[]
+  /** Switch to another account without signing out */
+  signIn: (userId: string) => void
+  signOut: () => void
+  can: (permission: Permission) => boolean
+}
+
+const UserSessionContext = createContext<UserSession | null>(null)
+
+export function UserSessionProvider({ children }: { children: ReactNode }) {
+  const [currentUser, setCurrentUser] = useState<User | null>(() => getUserById(loadSessionUserId()))
+
+  const signIn = useCallback((userId: string) => {
+    const user = getUserById(userId)
+    if (!user) return
+    saveSessionUserId(user.id)
+    setCurrentUser(user)
+  }, [])
+
+  const signOut = useCallback(() => {
+    saveSessionUserId(null)
+    setCurrentUser(null)
+  }, [])
+
+  const session = useMemo<UserSession | null>(() => currentUser && {
+    currentUser,
+    users: DEFAULT_USERS,
+    signIn,
+    signOut,
+    can: (permission: Permission) => hasPermission(currentUser, permission),
+  }, [currentUser, signIn, signOut])
+
+  if (!session) {
+    return <SignIn users={DEFAULT_USERS} onSignIn={signIn} />
+  }
+
+  return <UserSessionContext.Provider value={session}>{children}</UserSessionContext.Provider>
+}
+
+/**
+ * Access the signed-in user. Only valid below UserSessionProvider.
+ */
+export function useCurrentUser(): UserSession {
+  const session = useContext(UserSessionContext)
+  if (!session) {
+    throw new Error('useCurrentUser must be used within UserSessionProvider')
+  }
+  return session
+}
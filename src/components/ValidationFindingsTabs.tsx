@@ -0,0 +1,413 @@
+/**
+ * Validation Findings Tabs
+ *
+ * Manager review tabs for Receipt Data, Fraud Analysis, Policy Check and
+ * Eligibility. Shows the full sub-agent payloads when the expense has them
+ * (orchestrated validation) and falls back to the coordinator's summary
+ * counts otherwise.
+ */
+
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Progress } from '@/components/ui/progress'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertTriangle, CheckCircle, Info } from 'lucide-react'
+import { SeverityBadge } from '@/components/ExpenseBadges'
+import { formatCurrency } from '@/lib/format'
+import type { ValidationDetails, ValidationResult } from '@/types/expense'
+
+interface ValidationFindingsTabsProps {
+  result: ValidationResult
+  details?: ValidationDetails
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function Field({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <p className="text-gray-600">{label}</p>
+      <p className="font-medium">{value ?? '—'}</p>
+    </div>
+  )
+}
+
+function YesNo({ value, yes = 'Yes', no = 'No' }: { value: boolean; yes?: string; no?: string }) {
+  return <Badge variant={value ? 'default' : 'destructive'}>{value ? yes : no}</Badge>
+}
+
+function SummaryOnlyNotice() {
+  return (
+    <Alert>
+      <Info className="h-4 w-4" />
+      <AlertDescription>
+        Only summary counts are available. Validate in orchestrated mode to see the full findings.
+      </AlertDescription>
+    </Alert>
+  )
+}
+
+function StringList({ items, empty }: { items: string[]; empty: string }) {
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500">{empty}</p>
+  }
+  return (
+    <ul className="space-y-1">
+      {items.map((item, idx) => (
+        <li key={idx} className="text-sm text-gray-700 flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+          {item}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+// ============================================================================
+// TABS
+// ============================================================================
+
+function ReceiptTab({ result, details }: ValidationFindingsTabsProps) {
+  const receipt = details?.receipt
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">Extraction Status</span>
+        <Badge variant={result.receipt_data.extracted_successfully ? 'default' : 'destructive'}>
+          {result.receipt_data.extracted_successfully ? 'Success' : 'Failed'}
+        </Badge>
+      </div>
+
+      {receipt ? (
+        <>
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Extraction Confidence</p>
+            <Progress value={receipt.extraction_confidence * 100} />
+            <p className="text-xs text-gray-500 mt-1">{(receipt.extraction_confidence * 100).toFixed(0)}%</p>
+          </div>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <Field label="Vendor" value={receipt.vendor_name} />
+            <Field label="Total" value={formatCurrency(receipt.total_amount, receipt.currency)} />
+            <Field label="Date" value={receipt.transaction_date} />
+            <Field label="Time" value={receipt.transaction_time} />
+            <Field label="Location" value={receipt.location} />
+            <Field label="Tax" value={receipt.tax_amount !== null ? formatCurrency(receipt.tax_amount, receipt.currency) : null} />
+            <Field label="Payment Method" value={receipt.payment_method} />
+            <Field label="Receipt Number" value={receipt.receipt_number} />
+          </div>
+          {receipt.missing_fields.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>Missing fields: {receipt.missing_fields.join(', ')}</AlertDescription>
+            </Alert>
+          )}
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Line Items ({receipt.line_items.length})</p>
+            {receipt.line_items.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receipt.line_items.map((item, idx) => (
+                    <TableRow key={idx}>
+                      <TableCell>{item.item_name}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.unit_price, receipt.currency)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.total_price, receipt.currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-gray-500">No line items extracted</p>
+            )}
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <Field label="Vendor" value={result.receipt_data.vendor} />
+            <Field label="Amount" value={formatCurrency(result.receipt_data.amount)} />
+            <Field label="Date" value={result.receipt_data.date} />
+          </div>
+          <SummaryOnlyNotice />
+        </>
+      )}
+    </div>
+  )
+}
+
+function FraudTab({ result, details }: ValidationFindingsTabsProps) {
+  const fraud = details?.fraud
+  const summary = result.fraud_analysis
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">Fraud Risk</span>
+        {fraud ? (
+          <SeverityBadge severity={fraud.fraud_risk_level} />
+        ) : (
+          <Badge variant={summary.fraud_detected ? 'destructive' : 'default'}>
+            {summary.fraud_detected ? 'Detected' : 'Clear'}
+          </Badge>
+        )}
+      </div>
+      <div>
+        <p className="text-sm text-gray-600 mb-2">Fraud Score</p>
+        <Progress value={summary.fraud_score * 100} />
+        <p className="text-xs text-gray-500 mt-1">{(summary.fraud_score * 100).toFixed(0)}%</p>
+      </div>
+
+      {fraud ? (
+        <>
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <Field label="Duplicate" value={<YesNo value={!fraud.duplicate_detected} yes="None found" no="Duplicate" />} />
+            <Field label="Vendor" value={<YesNo value={fraud.vendor_verified} yes="Verified" no="Unverified" />} />
+            <Field label="Location" value={<YesNo value={fraud.location_plausible} yes="Plausible" no="Implausible" />} />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Flags ({fraud.flags.length})</p>
+            {fraud.flags.length > 0 ? (
+              <div className="space-y-2">
+                {fraud.flags.map((flag, idx) => (
+                  <div key={idx} className="border rounded-md p-3 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium capitalize">{flag.category.replace(/_/g, ' ')}</span>
+                      <SeverityBadge severity={flag.severity} />
+                    </div>
+                    <p className="text-sm text-gray-700">{flag.description}</p>
+                    <p className="text-xs text-gray-500">Evidence: {flag.evidence}</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>No fraud indicators detected</AlertDescription>
+              </Alert>
+            )}
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 mb-1">Reasoning</p>
+            <p className="text-sm text-gray-700">{fraud.reasoning}</p>
+          </div>
+        </>
+      ) : (
+        <>
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Flags ({summary.flags_count})</p>
+            {summary.flags_count > 0 ? (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{summary.flags_count} fraud indicators detected</AlertDescription>
+              </Alert>
+            ) : (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>No fraud indicators detected</AlertDescription>
+              </Alert>
+            )}
+          </div>
+          {summary.flags_count > 0 && <SummaryOnlyNotice />}
+        </>
+      )}
+    </div>
+  )
+}
+
+function PolicyTab({ result, details }: ValidationFindingsTabsProps) {
+  const policy = details?.policy
+  const summary = result.policy_compliance
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">Compliance Status</span>
+        <Badge variant={summary.compliant ? 'default' : 'destructive'}>
+          {summary.compliant ? 'Compliant' : 'Non-Compliant'}
+        </Badge>
+      </div>
+
+      {policy ? (
+        <>
+          <div>
+            <div className="flex items-center justify-between text-sm mb-2">
+              <span className="text-gray-600">Category Limit</span>
+              <span className={policy.category_limit.within_limit ? 'text-gray-700' : 'text-red-600 font-medium'}>
+                {formatCurrency(policy.category_limit.actual)} of {formatCurrency(policy.category_limit.limit)}
+              </span>
+            </div>
+            <Progress
+              value={policy.category_limit.limit > 0
+                ? Math.min(100, (policy.category_limit.actual / policy.category_limit.limit) * 100)
+                : 100}
+            />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Violations ({policy.violations.length})</p>
+            {policy.violations.length > 0 ? (
+              <div className="space-y-2">
+                {policy.violations.map((violation, idx) => (
+                  <div key={idx} className="border rounded-md p-3 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium capitalize">{violation.violation_type.replace(/_/g, ' ')}</span>
+                      <SeverityBadge severity={violation.severity} />
+                    </div>
+                    <p className="text-sm text-gray-700">{violation.description}</p>
+                    <p className="text-xs text-gray-500">Rule: {violation.policy_rule}</p>
+                    <p className="text-xs text-gray-500">Reference: {violation.policy_reference}</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>No policy violations</AlertDescription>
+              </Alert>
+            )}
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Missing Documents</p>
+            <StringList items={policy.missing_documents} empty="All required documents provided" />
+          </div>
+          {policy.required_approvals.length > 0 && (
+            <div>
+              <p className="text-sm text-gray-600 mb-2">Required Approvals</p>
+              <div className="flex flex-wrap gap-2">
+                {policy.required_approvals.map(approval => (
+                  <Badge key={approval} variant="outline">{approval}</Badge>
+                ))}
+              </div>
+            </div>
+          )}
+          <div>
+            <p className="text-sm text-gray-600 mb-1">Reasoning</p>
+            <p className="text-sm text-gray-700">{policy.reasoning}</p>
+          </div>
+        </>
+      ) : (
+        <>
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Violations</p>
+            {summary.violations_count > 0 ? (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {summary.violations_count} policy violations found
+                  {summary.critical_violations && ' (critical)'}
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>No policy violations</AlertDescription>
+              </Alert>
+            )}
+          </div>
+          {summary.violations_count > 0 && <SummaryOnlyNotice />}
+        </>
+      )}
+    </div>
+  )
+}
+
+function EligibilityTab({ result, details }: ValidationFindingsTabsProps) {
+  const eligibility = details?.eligibility
+  const summary = result.employee_eligibility
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">Eligibility Status</span>
+        <Badge variant={summary.eligible ? 'default' : 'destructive'}>
+          {summary.eligible ? 'Eligible' : 'Not Eligible'}
+        </Badge>
+      </div>
+
+      {eligibility ? (
+        <>
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Ineligibility Reasons</p>
+            <StringList items={eligibility.ineligibility_reasons} empty="No eligibility restrictions" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Employee Context</p>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <Field label="Department" value={eligibility.employee_context.department} />
+              <Field label="Location" value={eligibility.employee_context.location} />
+              <Field label="Job Level" value={eligibility.employee_context.job_level} />
+              <Field label="Travel Status" value={eligibility.employee_context.travel_status} />
+              <Field label="Meal Plan" value={eligibility.employee_context.meal_plan_enrolled ? 'Enrolled' : 'Not enrolled'} />
+              <Field label="Per Diem" value={eligibility.employee_context.per_diem_active ? 'Active' : 'Inactive'} />
+            </div>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 mb-1">Reasoning</p>
+            <p className="text-sm text-gray-700">{eligibility.reasoning}</p>
+          </div>
+        </>
+      ) : (
+        <>
+          <div>
+            <p className="text-sm text-gray-600 mb-2">Restrictions</p>
+            {summary.restrictions > 0 ? (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{summary.restrictions} eligibility restrictions</AlertDescription>
+              </Alert>
+            ) : (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>No eligibility restrictions</AlertDescription>
+              </Alert>
+            )}
+          </div>
+          {summary.restrictions > 0 && <SummaryOnlyNotice />}
+        </>
+      )}
+    </div>
+  )
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function ValidationFindingsTabs({ result, details }: ValidationFindingsTabsProps) {
+  return (
+    <Tabs defaultValue="receipt">
+      <TabsList className="grid w-full grid-cols-4">
+        <TabsTrigger value="receipt">Receipt Data</TabsTrigger>
+        <TabsTrigger value="fraud">Fraud Analysis</TabsTrigger>
+        <TabsTrigger value="policy">Policy Check</TabsTrigger>
+        <TabsTrigger value="eligibility">Eligibility</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="receipt" className="space-y-4">
+        <ReceiptTab result={result} details={details} />
+      </TabsContent>
+      <TabsContent value="fraud" className="space-y-4">
+        <FraudTab result={result} details={details} />
+      </TabsContent>
+      <TabsContent value="policy" className="space-y-4">
+        <PolicyTab result={result} details={details} />
+      </TabsContent>
+      <TabsContent value="eligibility" className="space-y-4">
+        <EligibilityTab result={result} details={details} />
+      </TabsContent>
+    </Tabs>
+  )
+}
+
+export default ValidationFindingsTabs
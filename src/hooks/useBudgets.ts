@@ -0,0 +1,73 @@
+/**
+ * useBudgets Hook
+ *
+ * Loads department budgets from the expense repository and keeps React
+ * state in sync as they are created or deleted.
+ *
+ * @example
+ * ```tsx
+ * const { budgets, createBudget, deleteBudget } = useBudgets()
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { expenseRepository, type ExpenseRepository } from '@/lib/expense-repository'
+import type { BudgetDraft } from '@/lib/budgets'
+import type { Budget } from '@/types/expense'
+
+export function useBudgets(repository: ExpenseRepository = expenseRepository) {
+  const [budgets, setBudgets] = useState<Budget[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    repository.listBudgets()
+      .then((records) => {
+        if (!cancelled) setBudgets(records)
+      })
+      .catch((err) => {
+        console.error('Failed to load budgets:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load budgets')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [repository])
+
+  const createBudget = useCallback(async (draft: BudgetDraft, createdBy: string) => {
+    const created: Budget = {
+      ...draft,
+      id: `BUD-${crypto.randomUUID()}`,
+      createdBy,
+      createdAt: new Date().toISOString(),
+    }
+    await repository.createBudget(created)
+    setBudgets(prev => [created, ...prev])
+    return created
+  }, [repository])
+
+  const deleteBudget = useCallback(async (id: string) => {
+    const current = budgets.find(b => b.id === id)
+    if (!current) throw new Error(`Budget ${id} not found`)
+
+    await repository.deleteBudget(id)
+    setBudgets(prev => prev.filter(b => b.id !== id))
+    return current
+  }, [repository, budgets])
+
+  return {
+    budgets,
+    loading,
+    error,
+    createBudget,
+    deleteBudget,
+  }
+}
+
+export default useBudgets
@@ -0,0 +1,72 @@
+/**
+ * useDelegations Hook
+ *
+ * Loads approval delegations from the expense repository and keeps React
+ * state in sync as they are created or revoked.
+ *
+ * @example
+ * ```tsx
+ * const { delegations, createDelegation, revokeDelegation } = useDelegations()
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { expenseRepository, type ExpenseRepository } from '@/lib/expense-repository'
+import type { ApprovalDelegation } from '@/types/expense'
+
+export function useDelegations(repository: ExpenseRepository = expenseRepository) {
+  const [delegations, setDelegations] = useState<ApprovalDelegation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    repository.listDelegations()
+      .then((records) => {
+        if (!cancelled) setDelegations(records)
+      })
+      .catch((err) => {
+        console.error('Failed to load delegations:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load delegations')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [repository])
+
+  const createDelegation = useCallback(async (delegation: Omit<ApprovalDelegation, 'id' | 'createdAt'>) => {
+    const created: ApprovalDelegation = {
+      ...delegation,
+      id: `DEL-${crypto.randomUUID()}`,
+      createdAt: new Date().toISOString(),
+    }
+    await repository.createDelegation(created)
+    setDelegations(prev => [created, ...prev])
+    return created
+  }, [repository])
+
+  const revokeDelegation = useCallback(async (id: string) => {
+    const current = delegations.find(d => d.id === id)
+    if (!current) throw new Error(`Delegation ${id} not found`)
+
+    const revoked: ApprovalDelegation = { ...current, revokedAt: new Date().toISOString() }
+    await repository.saveDelegation(revoked)
+    setDelegations(prev => prev.map(d => (d.id === id ? revoked : d)))
+    return revoked
+  }, [repository, delegations])
+
+  return {
+    delegations,
+    loading,
+    error,
+    createDelegation,
+    revokeDelegation,
+  }
+}
+
+export default useDelegations
@@ -0,0 +1,120 @@
+/**
+ * useExpenses Hook
+ *
+ * Loads expenses from the expense repository and keeps React state in sync
+ * with every write, so views read and write through the persistence layer.
+ *
+ * @example
+ * ```tsx
+ * const { expenses, loading, addExpense, updateExpense } = useExpenses()
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { expenseRepository, type ExpenseRepository } from '@/lib/expense-repository'
+import { verifyAuditChain } from '@/lib/audit-log'
+import { changesTrackedFields, recordEditor } from '@/lib/approval-rules'
+import type { ApprovalResult, AuditEvent, ExpenseRecord, ExpenseStatus } from '@/types/expense'
+
+export function useExpenses(repository: ExpenseRepository = expenseRepository) {
+  const [expenses, setExpenses] = useState<ExpenseRecord[]>([])
+  const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    Promise.all([repository.listExpenses(), repository.listAuditEvents()])
+      .then(([records, events]) => {
+        if (cancelled) return
+        setExpenses(records)
+        setAuditEvents(events)
+      })
+      .catch((err) => {
+        console.error('Failed to load expenses:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load expenses')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [repository])
+
+  // Rejects when the id is already taken rather than overwriting that expense
+  const addExpense = useCallback(async (expense: ExpenseRecord, receipt?: File | Blob | null) => {
+    await repository.createExpense(expense, receipt)
+    setExpenses(prev => [expense, ...prev])
+  }, [repository])
+
+  // Replace a whole record, e.g. with a resubmitted version
+  const replaceExpense = useCallback(async (expense: ExpenseRecord, receipt?: File | Blob | null) => {
+    await repository.saveExpense(expense, receipt)
+    setExpenses(prev => [expense, ...prev.filter(e => e.id !== expense.id)])
+  }, [repository])
+
+  // Checks and changes the stored record in one write; null when `modify` declined or the expense is gone
+  const modifyExpense = useCallback(async (
+    id: string,
+    modify: (current: ExpenseRecord) => Partial<ExpenseRecord> | null
+  ) => {
+    const updated = await repository.modifyExpense(id, modify)
+    if (updated) setExpenses(prev => prev.map(e => (e.id === id ? updated : e)))
+    return updated
+  }, [repository])
+
+  // Changing vendor, amount, category and the like needs `editorId`, who is then barred from deciding on the expense
+  const updateExpense = useCallback(async (id: string, changes: Partial<ExpenseRecord>, editorId?: string) => {
+    const updated = await modifyExpense(id, current => {
+      if (changesTrackedFields(current, changes) && !editorId) {
+        throw new Error(`Changing the details of expense ${id} requires the editor's id`)
+      }
+      return { ...changes, editorIds: editorId ? recordEditor(current, changes, editorId) : current.editorIds }
+    })
+    if (!updated) throw new Error(`Expense ${id} not found`)
+    return updated
+  }, [modifyExpense])
+
+  // `modify` sets the status from the human decision, checked against the stored record; the agent's
+  // `expense_status` is only kept in the stored result. The result is stored only if the decision was.
+  const recordApproval = useCallback(async (
+    id: string,
+    result: ApprovalResult,
+    modify: (current: ExpenseRecord) => (Partial<ExpenseRecord> & { status: ExpenseStatus }) | null
+  ) => {
+    const updated = await modifyExpense(id, modify)
+    if (updated) await repository.saveApprovalResult(id, result)
+    return updated
+  }, [repository, modifyExpense])
+
+  const recordAuditEvent = useCallback(async (event: AuditEvent) => {
+    const stored = await repository.appendAuditEvent(event)
+    setAuditEvents(prev => [...prev, stored])
+    return stored
+  }, [repository])
+
+  // Verifies what is stored, not the in-memory copy
+  const verifyAuditLog = useCallback(async () => {
+    return verifyAuditChain(await repository.listAuditEvents())
+  }, [repository])
+
+  return {
+    expenses,
+    auditEvents,
+    loading,
+    error,
+    addExpense,
+    replaceExpense,
+    updateExpense,
+    modifyExpense,
+    recordApproval,
+    recordAuditEvent,
+    verifyAuditLog,
+    repository,
+  }
+}
+
+export default useExpenses
@@ -0,0 +1,59 @@
+/**
+ * useFxRates Hook
+ *
+ * The FX table: bundled default rates overlaid with any rows admins have
+ * imported into the expense repository.
+ *
+ * @example
+ * ```tsx
+ * const { rates, importRates } = useFxRates()
+ * const converted = convertToHome(amount, currency, date, rates)
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { mergeFxRates } from '@/lib/currency'
+import { expenseRepository, type ExpenseRepository } from '@/lib/expense-repository'
+import type { FxRate } from '@/types/expense'
+
+export function useFxRates(repository: ExpenseRepository = expenseRepository) {
+  const [imported, setImported] = useState<FxRate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    repository.listFxRates()
+      .then((records) => {
+        if (!cancelled) setImported(records)
+      })
+      .catch((err) => {
+        console.error('Failed to load exchange rates:', err)
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load exchange rates')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [repository])
+
+  const rates = useMemo(() => mergeFxRates(imported), [imported])
+
+  const importRates = useCallback(async (rows: FxRate[]) => {
+    await repository.saveFxRates(rows)
+    setImported(prev => mergeFxRates(rows, prev))
+  }, [repository])
+
+  return {
+    rates,
+    loading,
+    error,
+    importRates,
+  }
+}
+
+export default useFxRates
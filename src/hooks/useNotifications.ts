@@ -0,0 +1,57 @@
+/**
+ * useNotifications Hook
+ *
+ * In-app notifications for the signed-in user, plus `notify` for sending one
+ * to any user (e.g. telling an employee their expense was escalated).
+ *
+ * @example
+ * ```tsx
+ * const { notifications, unreadCount, notify, markRead } = useNotifications(currentUser.id)
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { expenseRepository, type ExpenseRepository } from '@/lib/expense-repository'
+import type { UserNotification } from '@/types/expense'
+
+export function useNotifications(userId: string, repository: ExpenseRepository = expenseRepository) {
+  const [notifications, setNotifications] = useState<UserNotification[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+
+    repository.listNotifications(userId)
+      .then((records) => {
+        if (!cancelled) setNotifications(records)
+      })
+      .catch((err) => {
+        console.error('Failed to load notifications:', err)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [repository, userId])
+
+  const notify = useCallback(async (notification: Omit<UserNotification, 'id' | 'createdAt' | 'readAt'>) => {
+    const stored = await repository.addNotification({ ...notification, createdAt: new Date().toISOString() })
+    if (stored.userId === userId) {
+      setNotifications(prev => [stored, ...prev])
+    }
+    return stored
+  }, [repository, userId])
+
+  const markRead = useCallback(async (id: number) => {
+    await repository.markNotificationRead(id)
+    setNotifications(prev => prev.map(n => (n.id === id && !n.readAt ? { ...n, readAt: new Date().toISOString() } : n)))
+  }, [repository])
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.readAt).length,
+    notify,
+    markRead,
+  }
+}
+
+export default useNotifications
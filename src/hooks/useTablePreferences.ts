@@ -0,0 +1,55 @@
+/**
+ * useTablePreferences Hook
+ *
+ * A data table's sorting, page size and column layout for the signed-in
+ * user, loaded from and saved back to localStorage on every change.
+ *
+ * @example
+ * ```tsx
+ * const { preferences, updatePreferences, resetPreferences } = useTablePreferences('audit-log', currentUser.id)
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  clearTablePreferences,
+  DEFAULT_TABLE_PREFERENCES,
+  loadTablePreferences,
+  saveTablePreferences,
+  type TablePreferences
+} from '@/lib/table-preferences'
+
+// `defaults` should be a module-level constant; a new object each render reloads the preferences
+export function useTablePreferences(
+  tableId: string,
+  userId: string,
+  defaults: TablePreferences = DEFAULT_TABLE_PREFERENCES
+) {
+  const [preferences, setPreferences] = useState<TablePreferences>(() => loadTablePreferences(userId, tableId, defaults))
+
+  // Switching users swaps in that user's saved layout
+  useEffect(() => {
+    setPreferences(loadTablePreferences(userId, tableId, defaults))
+  }, [userId, tableId, defaults])
+
+  const updatePreferences = useCallback((changes: Partial<TablePreferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...changes }
+      saveTablePreferences(userId, tableId, next)
+      return next
+    })
+  }, [userId, tableId])
+
+  const resetPreferences = useCallback(() => {
+    clearTablePreferences(userId, tableId)
+    setPreferences(defaults)
+  }, [userId, tableId, defaults])
+
+  return {
+    preferences,
+    updatePreferences,
+    resetPreferences,
+  }
+}
+
+export default useTablePreferences
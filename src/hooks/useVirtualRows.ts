@@ -0,0 +1,95 @@
+/**
+ * useVirtualRows Hook
+ *
+ * Windowed rendering for long tables: only the rows inside the scroll
+ * container's viewport (plus an overscan margin) are mounted, and spacer
+ * heights stand in for the rest. Row height starts from an estimate and is
+ * corrected from the rows actually rendered, so variable-height rows settle
+ * after the first paint.
+ *
+ * @example
+ * ```tsx
+ * const { scrollRef, start, end, paddingTop, paddingBottom, measureRows } = useVirtualRows({ count: rows.length })
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+
+interface VirtualRowsOptions {
+  count: number
+  /** Initial row height in pixels, before any rows are measured */
+  estimatedRowHeight?: number
+  /** Rows rendered above and below the viewport */
+  overscan?: number
+  /** When false every row is rendered */
+  enabled?: boolean
+}
+
+export function useVirtualRows<T extends HTMLElement = HTMLDivElement>({
+  count,
+  estimatedRowHeight = 49,
+  overscan = 10,
+  enabled = true,
+}: VirtualRowsOptions) {
+  const scrollRef = useRef<T>(null)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(600)
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight)
+
+  useEffect(() => {
+    const element = scrollRef.current
+    if (!element || !enabled) return
+
+    // Coalesce scroll events into one state update per frame
+    let frame = 0
+    const onScroll = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() => setScrollTop(element.scrollTop))
+    }
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight))
+
+    setViewportHeight(element.clientHeight)
+    setScrollTop(element.scrollTop)
+    element.addEventListener('scroll', onScroll, { passive: true })
+    observer.observe(element)
+    return () => {
+      cancelAnimationFrame(frame)
+      element.removeEventListener('scroll', onScroll)
+      observer.disconnect()
+    }
+  }, [enabled])
+
+  /**
+   * Correct the row height from what was actually rendered; call after each
+   * render with the rendered rows' combined height and count
+   */
+  const measureRows = useCallback((renderedHeight: number, renderedCount: number) => {
+    if (renderedCount === 0 || renderedHeight <= 0) return
+    const measured = renderedHeight / renderedCount
+    setRowHeight(prev => (Math.abs(prev - measured) > 1 ? measured : prev))
+  }, [])
+
+  const scrollToIndex = useCallback((index: number) => {
+    const element = scrollRef.current
+    if (!element) return
+    element.scrollTop = Math.max(0, index * rowHeight - element.clientHeight / 2)
+  }, [rowHeight])
+
+  if (!enabled) {
+    return { scrollRef, start: 0, end: count, paddingTop: 0, paddingBottom: 0, measureRows, scrollToIndex }
+  }
+
+  const start = Math.max(0, Math.min(count, Math.floor(scrollTop / rowHeight) - overscan))
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan)
+  return {
+    scrollRef,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, (count - end) * rowHeight),
+    measureRows,
+    scrollToIndex,
+  }
+}
+
+export default useVirtualRows
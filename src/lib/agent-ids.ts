@@ -0,0 +1,12 @@
+/**
+ * Agent IDs for the expense validation workflow (see workflow.json)
+ */
+
+export const AGENT_IDS = {
+  RECEIPT_EXTRACTION: '696a2d3ea5272eccb326c62f',
+  FRAUD_DETECTION: '696a2d57a5272eccb326c639',
+  POLICY_COMPLIANCE: '696a2d6d9ea90559bbf3e8e7',
+  EMPLOYEE_ELIGIBILITY: '696a2d85a5272eccb326c648',
+  EXPENSE_VALIDATION_COORDINATOR: '696a2da7a5272eccb326c65d',
+  MANAGER_APPROVAL: '696a2dc7a5272eccb326c66b'
+}
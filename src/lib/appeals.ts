@@ -0,0 +1,149 @@
+/**
+ * Appeals
+ *
+ * An employee can appeal a rejection, whether it came from the validation
+ * agent or from a reviewer, once per expense version. The appeal goes one
+ * level up the approval order from the step that rejected it (an agent
+ * rejection goes to the submitter's manager) and may not be decided by
+ * anyone who signed the original rejection.
+ *
+ * @example
+ * ```tsx
+ * if (canAppeal(expense)) {
+ *   const appeal = createAppeal(expense, justification)
+ * }
+ * ```
+ */
+
+import { DEFAULT_USERS } from '@/lib/users'
+import { APPROVAL_STEP_ORDER, canSignRole } from '@/lib/approval-chain'
+import { checkSegregationOfDuties, getSubmitter } from '@/lib/approval-rules'
+import { getVersionNumber } from '@/lib/expense-versions'
+import type { User } from '@/types'
+import type { AppealedDecision, ApprovalStepRole, ExpenseAppeal, ExpenseRecord } from '@/types/expense'
+
+// =============================================================================
+// Original Decision
+// =============================================================================
+
+/**
+ * The rejection standing on the expense: the last reviewer rejection in its
+ * chain, otherwise the validation agent's recommendation
+ */
+export function getAppealedDecision(expense: ExpenseRecord): AppealedDecision {
+  const rejection = [...(expense.approvalChain?.signatures ?? [])].reverse().find(s => s.decision === 'reject')
+  if (rejection) {
+    return {
+      source: 'reviewer',
+      deciderId: rejection.userId,
+      deciderName: rejection.userName,
+      onBehalfOfId: rejection.onBehalfOfId,
+      role: rejection.role,
+      rationale: rejection.rationale,
+      decidedAt: rejection.signedAt,
+    }
+  }
+  return {
+    source: 'agent',
+    rationale: expense.validationResult?.recommendation_reasoning ?? 'Rejected by automated validation',
+    decidedAt: expense.submittedAt ?? expense.createdAt,
+  }
+}
+
+/**
+ * The step one level above the rejecting one; finance rejections stay with finance
+ */
+export function getAppealReviewerRole(decision: AppealedDecision): ApprovalStepRole {
+  if (!decision.role) return 'manager'
+  const next = APPROVAL_STEP_ORDER[APPROVAL_STEP_ORDER.indexOf(decision.role) + 1]
+  return next ?? decision.role
+}
+
+// =============================================================================
+// Appealing
+// =============================================================================
+
+export function getOpenAppeal(expense: ExpenseRecord): ExpenseAppeal | null {
+  return expense.appeals?.find(a => !a.outcome) ?? null
+}
+
+export function getLatestAppeal(expense: ExpenseRecord): ExpenseAppeal | null {
+  return expense.appeals?.[expense.appeals.length - 1] ?? null
+}
+
+export function canAppeal(expense: ExpenseRecord): boolean {
+  if (expense.status !== 'rejected') return false
+  const version = getVersionNumber(expense)
+  return !expense.appeals?.some(a => a.version === version)
+}
+
+export function createAppeal(
+  expense: ExpenseRecord,
+  justification: string,
+  submittedAt: string = new Date().toISOString()
+): ExpenseAppeal {
+  const originalDecision = getAppealedDecision(expense)
+  return {
+    id: `APL-${crypto.randomUUID()}`,
+    version: getVersionNumber(expense),
+    justification,
+    submittedAt,
+    originalDecision,
+    reviewerRole: getAppealReviewerRole(originalDecision),
+  }
+}
+
+// =============================================================================
+// Reviewing
+// =============================================================================
+
+/**
+ * Why the user may not decide the open appeal, or null if they may
+ */
+export function getAppealReviewBlocker(user: User, expense: ExpenseRecord): string | null {
+  const appeal = getOpenAppeal(expense)
+  if (expense.status !== 'appealed' || !appeal) return 'This expense has no open appeal.'
+
+  const { deciderId, onBehalfOfId } = appeal.originalDecision
+  if (user.id === deciderId || user.id === onBehalfOfId) {
+    return 'You made the original decision and cannot review the appeal.'
+  }
+  const violation = checkSegregationOfDuties(user, expense)[0]
+  if (violation) return violation.message
+  if (!canSignRole(user, appeal.reviewerRole, expense)) {
+    return 'The appeal is routed to a higher-level reviewer.'
+  }
+  return null
+}
+
+export function canReviewAppeal(user: User, expense: ExpenseRecord): boolean {
+  return getAppealReviewBlocker(user, expense) === null
+}
+
+/**
+ * Everyone who may decide the open appeal. Admins are only listed when nobody
+ * else can.
+ */
+export function getAppealReviewers(expense: ExpenseRecord, users: User[] = DEFAULT_USERS): User[] {
+  const submitter = getSubmitter(expense)
+  const candidates = users.filter(u => u.id !== submitter?.id && canReviewAppeal(u, expense))
+  const specific = candidates.filter(u => u.role !== 'admin')
+  return specific.length > 0 ? specific : candidates
+}
+
+export function decideAppeal(
+  appeal: ExpenseAppeal,
+  reviewer: User,
+  outcome: 'upheld' | 'overturned',
+  rationale: string,
+  decidedAt: string = new Date().toISOString()
+): ExpenseAppeal {
+  return {
+    ...appeal,
+    outcome,
+    reviewerId: reviewer.id,
+    reviewerName: reviewer.name,
+    outcomeRationale: rationale,
+    decidedAt,
+  }
+}
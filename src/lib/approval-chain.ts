@@ -0,0 +1,255 @@
+/**
+ * Approval Chains
+ *
+ * Expenses that need manual approval move through an ordered chain of
+ * sign-off steps (manager, then director, then finance). The chain length is
+ * the longer of what the amount thresholds require and what the coordinator
+ * asked for in `approval_workflow.required_approval_level`. A rejection at
+ * any step ends the chain. Each step needs a different person: nobody who has
+ * signed a step, directly or through a delegate, may sign another. Active
+ * delegations let a substitute sign on behalf of an approver who is away.
+ *
+ * @example
+ * ```tsx
+ * const chain = buildApprovalChain(expense.amount, validationResult)
+ * if (canSignStep(currentUser, expense)) { ... }
+ * ```
+ */
+
+import { DEFAULT_USERS, getUserById } from '@/lib/users'
+import { getSubmitter } from '@/lib/approval-rules'
+import { localToday } from '@/lib/calendar-date'
+import { delegationCovers } from '@/lib/delegations'
+import type { User } from '@/types'
+import type {
+  ApprovalChain,
+  ApprovalDelegation,
+  ApprovalSignature,
+  ApprovalStepRole,
+  ExpenseRecord,
+  ExpenseStatus,
+  ValidationResult
+} from '@/types/expense'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const APPROVAL_STEP_ORDER: ApprovalStepRole[] = ['manager', 'director', 'finance']
+
+export const APPROVAL_STEP_LABELS: Record<ApprovalStepRole, string> = {
+  manager: 'Manager',
+  director: 'Director',
+  finance: 'Finance',
+}
+
+/**
+ * Amount thresholds (USD, inclusive) and the chain each one requires.
+ * The highest matching threshold wins.
+ */
+export const APPROVAL_THRESHOLDS: Array<{ minAmount: number; steps: ApprovalStepRole[] }> = [
+  { minAmount: 0, steps: ['manager'] },
+  { minAmount: 1000, steps: ['manager', 'director'] },
+  { minAmount: 5000, steps: ['manager', 'director', 'finance'] },
+]
+
+/** Minimum job grade for director sign-off */
+const DIRECTOR_LEVEL = 3
+
+// =============================================================================
+// Building Chains
+// =============================================================================
+
+/**
+ * Map the coordinator's free-text approval level onto a chain step
+ */
+export function parseApprovalLevel(level: string | undefined): ApprovalStepRole | null {
+  const normalized = (level || '').toLowerCase()
+  if (normalized.includes('finance') || normalized.includes('cfo') || normalized.includes('executive')) return 'finance'
+  if (normalized.includes('director') || normalized.includes('senior')) return 'director'
+  if (normalized.includes('manager') || normalized.includes('supervisor')) return 'manager'
+  return null
+}
+
+export function buildApprovalChain(
+  amount: number,
+  validation?: ValidationResult | null,
+  startedAt: string = new Date().toISOString()
+): ApprovalChain {
+  const byAmount = APPROVAL_THRESHOLDS
+    .filter(t => amount >= t.minAmount)
+    .reduce<ApprovalStepRole[]>((steps, t) => (t.steps.length > steps.length ? t.steps : steps), ['manager'])
+
+  const requested = parseApprovalLevel(validation?.approval_workflow?.required_approval_level)
+  const byAgent = requested ? APPROVAL_STEP_ORDER.slice(0, APPROVAL_STEP_ORDER.indexOf(requested) + 1) : []
+
+  return {
+    steps: byAgent.length > byAmount.length ? byAgent : byAmount,
+    currentStep: 0,
+    signatures: [],
+    stepStartedAt: startedAt,
+  }
+}
+
+/**
+ * The expense's chain, or one derived on the fly for records saved before chains existed
+ */
+export function getApprovalChain(expense: ExpenseRecord): ApprovalChain {
+  return expense.approvalChain ?? buildApprovalChain(expense.amount, expense.validationResult, expense.createdAt)
+}
+
+export function getCurrentStepRole(chain: ApprovalChain): ApprovalStepRole | null {
+  return chain.steps[chain.currentStep] ?? null
+}
+
+// =============================================================================
+// Who Signs
+// =============================================================================
+
+/**
+ * Whether the user holds the step role for this expense in their own right
+ */
+export function canSignRole(user: User, role: ApprovalStepRole, expense: ExpenseRecord): boolean {
+  if (user.role === 'admin') return true
+
+  switch (role) {
+    case 'manager': {
+      // The submitter's direct manager; any manager when the submitter is unknown
+      const submitter = getSubmitter(expense)
+      if (submitter?.managerId) return user.id === submitter.managerId
+      return user.role === 'manager'
+    }
+    case 'director':
+      return user.role === 'manager' && user.level >= DIRECTOR_LEVEL
+    case 'finance':
+      return user.role === 'finance'
+  }
+}
+
+/**
+ * A user entitled to sign the current step, directly or as someone's delegate
+ */
+export interface SigningAuthority {
+  user: User
+  /** Approver the user stands in for; null when signing in their own right */
+  onBehalfOf: User | null
+}
+
+/**
+ * Ids of everyone who has signed a step of the chain, both the signer and
+ * the approver a delegate signed for
+ */
+export function getChainSignerIds(chain: ApprovalChain): Set<string> {
+  return new Set(chain.signatures.flatMap(s => (s.onBehalfOfId ? [s.userId, s.onBehalfOfId] : [s.userId])))
+}
+
+/**
+ * How the user may sign the step the expense is currently waiting on, or null
+ * if they may not. Direct authority takes precedence over delegated authority.
+ * Nobody signs twice in one chain, in their own right or for someone else.
+ */
+export function getSigningAuthority(
+  user: User,
+  expense: ExpenseRecord,
+  delegations: ApprovalDelegation[] = [],
+  onDate: string = localToday()
+): SigningAuthority | null {
+  if (expense.status !== 'reviewing' && expense.status !== 'pending') return null
+  const chain = getApprovalChain(expense)
+  const role = getCurrentStepRole(chain)
+  if (!role) return null
+  const signerIds = getChainSignerIds(chain)
+  if (signerIds.has(user.id)) return null
+  if (canSignRole(user, role, expense)) return { user, onBehalfOf: null }
+
+  for (const delegation of delegations) {
+    if (delegation.delegateId !== user.id || !delegationCovers(delegation, expense, onDate)) continue
+    const delegator = getUserById(delegation.delegatorId)
+    if (delegator && !signerIds.has(delegator.id) && canSignRole(delegator, role, expense)) {
+      return { user, onBehalfOf: delegator }
+    }
+  }
+  return null
+}
+
+export function canSignStep(user: User, expense: ExpenseRecord, delegations: ApprovalDelegation[] = []): boolean {
+  return getSigningAuthority(user, expense, delegations) !== null
+}
+
+/**
+ * Everyone who can sign the current step, excluding the submitter and anyone
+ * who already signed an earlier step. Delegates are listed alongside the
+ * approvers they stand in for.
+ */
+export function getNextApprovers(
+  expense: ExpenseRecord,
+  delegations: ApprovalDelegation[] = [],
+  users: User[] = DEFAULT_USERS
+): SigningAuthority[] {
+  const submitter = getSubmitter(expense)
+  const signerIds = getChainSignerIds(getApprovalChain(expense))
+  const candidates = users
+    .filter(u => u.id !== submitter?.id && !signerIds.has(u.id))
+    .map(u => getSigningAuthority(u, expense, delegations))
+    .filter((authority): authority is SigningAuthority => authority !== null)
+  // Admins can sign anything but are only listed when nobody else can
+  const specific = candidates.filter(a => a.user.role !== 'admin')
+  return specific.length > 0 ? specific : candidates
+}
+
+export function describeApprover(authority: SigningAuthority): string {
+  return authority.onBehalfOf ? `${authority.user.name} (for ${authority.onBehalfOf.name})` : authority.user.name
+}
+
+// =============================================================================
+// Signing
+// =============================================================================
+
+/**
+ * Record a signature on the current step and work out the expense's new status.
+ * `complete` is true once the chain has ended (final approval or any rejection).
+ */
+export function signApprovalStep(
+  chain: ApprovalChain,
+  authority: SigningAuthority,
+  decision: 'approve' | 'reject',
+  rationale: string,
+  signedAt: string = new Date().toISOString()
+): { chain: ApprovalChain; status: ExpenseStatus; complete: boolean } {
+  const role = getCurrentStepRole(chain)
+  if (!role) {
+    throw new Error('Approval chain is already complete')
+  }
+  const signerIds = getChainSignerIds(chain)
+  const repeat = [authority.user, authority.onBehalfOf].find(u => u && signerIds.has(u.id))
+  if (repeat) {
+    throw new Error(`${repeat.name} has already signed a step of this approval chain`)
+  }
+
+  const signature: ApprovalSignature = {
+    step: chain.currentStep,
+    role,
+    userId: authority.user.id,
+    userName: authority.user.name,
+    decision,
+    rationale,
+    signedAt,
+    ...(authority.onBehalfOf && {
+      onBehalfOfId: authority.onBehalfOf.id,
+      onBehalfOfName: authority.onBehalfOf.name,
+    }),
+  }
+  const signatures = [...chain.signatures, signature]
+
+  if (decision === 'reject') {
+    return { chain: { ...chain, signatures }, status: 'rejected', complete: true }
+  }
+
+  const currentStep = chain.currentStep + 1
+  const complete = currentStep >= chain.steps.length
+  return {
+    chain: { ...chain, currentStep, signatures, stepStartedAt: signedAt },
+    status: complete ? 'approved' : 'reviewing',
+    complete,
+  }
+}
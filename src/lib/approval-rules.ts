@@ -0,0 +1,97 @@
+/**
+ * Approval Rules
+ *
+ * Segregation-of-duties checks run before any approval decision. A decision
+ * is blocked when the approver submitted the expense, edited it, or does not
+ * outrank the submitter.
+ *
+ * @example
+ * ```tsx
+ * const violations = checkSegregationOfDuties(currentUser, expense)
+ * if (violations.length > 0) { ...block and record... }
+ * ```
+ */
+
+import { getUserById, DEFAULT_USERS } from '@/lib/users'
+import { isOwnExpense } from '@/lib/permissions'
+import type { User } from '@/types'
+import type { ExpenseRecord } from '@/types/expense'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ApprovalViolationCode = 'self_approval' | 'insufficient_rank' | 'edited_by_approver'
+
+export interface ApprovalViolation {
+  code: ApprovalViolationCode
+  message: string
+}
+
+/** Fields whose change makes the user who changed them an editor of the expense */
+export const EDITOR_TRACKED_FIELDS = [
+  'vendor', 'amount', 'currency', 'originalAmount', 'category', 'date', 'transactionTime', 'timeZone', 'receipt'
+] as const satisfies readonly (keyof ExpenseRecord)[]
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Look up the user who submitted an expense. Records from before user
+ * accounts only carry a name, so fall back to matching on it.
+ */
+export function getSubmitter(expense: Pick<ExpenseRecord, 'employeeId' | 'employee'>): User | null {
+  return getUserById(expense.employeeId) ?? DEFAULT_USERS.find(u => u.name === expense.employee) ?? null
+}
+
+/** Whether `next` changes any of the expense's tracked fields */
+export function changesTrackedFields(previous: ExpenseRecord, next: Partial<ExpenseRecord>): boolean {
+  return EDITOR_TRACKED_FIELDS.some(field =>
+    field in next && JSON.stringify(next[field]) !== JSON.stringify(previous[field])
+  )
+}
+
+/**
+ * The expense's editors after `editorId` applies `next`; unchanged when no
+ * tracked field changes
+ */
+export function recordEditor(previous: ExpenseRecord, next: Partial<ExpenseRecord>, editorId: string): string[] {
+  const editorIds = previous.editorIds ?? []
+  if (!changesTrackedFields(previous, next) || editorIds.includes(editorId)) return editorIds
+  return [...editorIds, editorId]
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+export function checkSegregationOfDuties(approver: User, expense: ExpenseRecord): ApprovalViolation[] {
+  const violations: ApprovalViolation[] = []
+
+  if (isOwnExpense(approver, expense)) {
+    violations.push({
+      code: 'self_approval',
+      message: 'You submitted this expense and cannot decide on it.',
+    })
+  }
+
+  if (expense.editorIds?.includes(approver.id)) {
+    violations.push({
+      code: 'edited_by_approver',
+      message: 'You edited this expense and cannot decide on it.',
+    })
+  }
+
+  // Unknown submitters are treated as individual contributors (level 1)
+  const submitter = getSubmitter(expense)
+  const submitterLevel = submitter?.level ?? 1
+  if (!isOwnExpense(approver, expense) && approver.level <= submitterLevel) {
+    violations.push({
+      code: 'insufficient_rank',
+      message: `Approver must outrank the submitter (${submitter?.title ?? expense.employee}, level ${submitterLevel}); you are level ${approver.level}.`,
+    })
+  }
+
+  return violations
+}
@@ -0,0 +1,219 @@
+/**
+ * Audit Log Filters
+ *
+ * Filters for the audit event log and the columns it exports to CSV. Applied
+ * filters live in the query string so a filtered view can be shared. Status,
+ * risk and amount match the expense as the event left it, falling back to
+ * the expense's current state for events that carry no after-state.
+ *
+ * @example
+ * ```tsx
+ * const rows = filterAuditEvents(auditEvents, expenses, parseAuditFilters(searchParams))
+ * downloadCsv('audit-log.csv', toCsv(rows, getAuditColumns(selectedIds)))
+ * ```
+ */
+
+import { describeStateChanges, getStateHomeMoney, getStateOriginalMoney } from '@/lib/audit-log'
+import { calendarDateOf } from '@/lib/calendar-date'
+import { getExpenseCurrency, getHomeMoney, getOriginalMoney, HOME_CURRENCY } from '@/lib/currency'
+import { compareMoney, parseMoney, toDecimalString, type Money } from '@/lib/money'
+import type { CsvColumn } from '@/lib/csv'
+import type { AuditEvent, ExpenseRecord } from '@/types/expense'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Raw input values; empty strings and 'all' mean no filter */
+export interface AuditFilters {
+  dateFrom: string
+  dateTo: string
+  employee: string
+  status: string
+  risk: string
+  minAmount: string
+  maxAmount: string
+}
+
+export interface AuditRow {
+  event: AuditEvent
+  /** Null for events not tied to an expense, or whose expense no longer exists */
+  expense: ExpenseRecord | null
+}
+
+export type AuditColumnId =
+  | 'sequence'
+  | 'timestamp'
+  | 'expenseId'
+  | 'employee'
+  | 'event'
+  | 'actor'
+  | 'status'
+  | 'risk'
+  | 'amount'
+  | 'currency'
+  | 'originalAmount'
+  | 'vendor'
+  | 'category'
+  | 'change'
+  | 'message'
+  | 'hash'
+  | 'previousHash'
+
+export interface AuditColumn extends CsvColumn<AuditRow> {
+  id: AuditColumnId
+  /** Included in exports unless the user deselects it */
+  defaultSelected: boolean
+}
+
+// =============================================================================
+// Query String
+// =============================================================================
+
+export const EMPTY_AUDIT_FILTERS: AuditFilters = {
+  dateFrom: '',
+  dateTo: '',
+  employee: '',
+  status: 'all',
+  risk: 'all',
+  minAmount: '',
+  maxAmount: '',
+}
+
+const PARAM_KEYS: Record<keyof AuditFilters, string> = {
+  dateFrom: 'from',
+  dateTo: 'to',
+  employee: 'employee',
+  status: 'status',
+  risk: 'risk',
+  minAmount: 'min',
+  maxAmount: 'max',
+}
+
+export function parseAuditFilters(params: URLSearchParams): AuditFilters {
+  const filters = { ...EMPTY_AUDIT_FILTERS }
+  for (const field of Object.keys(PARAM_KEYS) as Array<keyof AuditFilters>) {
+    filters[field] = params.get(PARAM_KEYS[field]) || EMPTY_AUDIT_FILTERS[field]
+  }
+  return filters
+}
+
+/**
+ * Query-string changes for the filters; empty values remove their parameter
+ */
+export function auditFiltersToParams(filters: AuditFilters): Record<string, string> {
+  return Object.fromEntries(
+    (Object.keys(PARAM_KEYS) as Array<keyof AuditFilters>).map(field => [PARAM_KEYS[field], filters[field]])
+  )
+}
+
+export function countActiveAuditFilters(filters: AuditFilters): number {
+  return (Object.keys(filters) as Array<keyof AuditFilters>)
+    .filter(field => filters[field] !== EMPTY_AUDIT_FILTERS[field])
+    .length
+}
+
+// =============================================================================
+// Filtering
+// =============================================================================
+
+function parseAmount(value: string): Money | null {
+  return value.trim() ? parseMoney(value, HOME_CURRENCY) : null
+}
+
+/**
+ * Events matching every filter, newest first, each paired with its expense
+ */
+export function filterAuditEvents(
+  events: AuditEvent[],
+  expenses: ExpenseRecord[],
+  filters: AuditFilters
+): AuditRow[] {
+  const expensesById = new Map(expenses.map(expense => [expense.id, expense]))
+  const employee = filters.employee.trim().toLowerCase()
+  const minAmount = parseAmount(filters.minAmount)
+  const maxAmount = parseAmount(filters.maxAmount)
+
+  return [...events]
+    .reverse()
+    .map(event => ({ event, expense: event.expenseId ? expensesById.get(event.expenseId) ?? null : null }))
+    .filter(({ event, expense }) => {
+      // Compared as the calendar day the event happened on in the browser's zone
+      const date = calendarDateOf(event.timestamp)
+      if (filters.dateFrom && date < filters.dateFrom) return false
+      if (filters.dateTo && date > filters.dateTo) return false
+
+      if (employee && !expense?.employee.toLowerCase().includes(employee)) return false
+
+      const status = event.after?.status ?? expense?.status
+      if (filters.status !== 'all' && status !== filters.status) return false
+
+      const risk = event.after?.riskScore ?? expense?.riskScore
+      if (filters.risk !== 'all' && risk !== filters.risk) return false
+
+      const amount = getRowHomeMoney({ event, expense })
+      if (minAmount !== null && (amount === null || compareMoney(amount, minAmount) < 0)) return false
+      if (maxAmount !== null && (amount === null || compareMoney(amount, maxAmount) > 0)) return false
+
+      return true
+    })
+}
+
+function getRowHomeMoney({ event, expense }: AuditRow): Money | null {
+  if (event.after) return getStateHomeMoney(event.after)
+  return expense ? getHomeMoney(expense) : null
+}
+
+function getRowOriginalMoney({ event, expense }: AuditRow): Money | null {
+  if (event.after) return getStateOriginalMoney(event.after)
+  return expense ? getOriginalMoney(expense) : null
+}
+
+// =============================================================================
+// Export Columns
+// =============================================================================
+
+export const AUDIT_COLUMNS: AuditColumn[] = [
+  { id: 'sequence', label: 'Sequence', defaultSelected: true, value: row => row.event.id },
+  { id: 'timestamp', label: 'Timestamp', defaultSelected: true, value: row => row.event.timestamp },
+  { id: 'expenseId', label: 'Expense ID', defaultSelected: true, value: row => row.event.expenseId },
+  { id: 'employee', label: 'Employee', defaultSelected: true, value: row => row.expense?.employee },
+  { id: 'event', label: 'Event', defaultSelected: true, value: row => row.event.type },
+  { id: 'actor', label: 'Actor', defaultSelected: true, value: row => row.event.actorName },
+  { id: 'status', label: 'Status', defaultSelected: true, value: row => row.event.after?.status ?? row.expense?.status },
+  { id: 'risk', label: 'Risk Level', defaultSelected: true, value: row => row.event.after?.riskScore ?? row.expense?.riskScore },
+  {
+    id: 'amount',
+    label: `Amount (${HOME_CURRENCY})`,
+    defaultSelected: true,
+    value: row => {
+      const amount = getRowHomeMoney(row)
+      return amount ? toDecimalString(amount) : undefined
+    }
+  },
+  { id: 'currency', label: 'Currency', defaultSelected: false, value: row => getExpenseCurrency(row.event.after ?? row.expense ?? {}) },
+  {
+    id: 'originalAmount',
+    label: 'Original Amount',
+    defaultSelected: false,
+    value: row => {
+      const amount = getRowOriginalMoney(row)
+      return amount ? toDecimalString(amount) : undefined
+    }
+  },
+  { id: 'vendor', label: 'Vendor', defaultSelected: false, value: row => row.event.after?.vendor ?? row.expense?.vendor },
+  { id: 'category', label: 'Category', defaultSelected: false, value: row => row.event.after?.category ?? row.expense?.category },
+  { id: 'change', label: 'Change', defaultSelected: true, value: row => describeStateChanges(row.event.before, row.event.after).join('; ') },
+  { id: 'message', label: 'Details', defaultSelected: true, value: row => row.event.message },
+  { id: 'hash', label: 'Hash', defaultSelected: false, value: row => row.event.hash },
+  { id: 'previousHash', label: 'Previous Hash', defaultSelected: false, value: row => row.event.previousHash },
+]
+
+export const DEFAULT_AUDIT_COLUMN_IDS: AuditColumnId[] = AUDIT_COLUMNS.filter(c => c.defaultSelected).map(c => c.id)
+
+/**
+ * The selected columns, in table order
+ */
+export function getAuditColumns(ids: AuditColumnId[]): AuditColumn[] {
+  return AUDIT_COLUMNS.filter(column => ids.includes(column.id))
+}
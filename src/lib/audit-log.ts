@@ -0,0 +1,239 @@
+/**
+ * Audit Log
+ *
+ * Audit events form an append-only, hash-chained log. The repository seals
+ * each event on append: it takes the next sequence number, links to the
+ * previous event's hash and stores a SHA-256 hash over the event's canonical
+ * JSON. Editing, reordering or removing a stored event breaks the chain,
+ * which `verifyAuditChain` reports link by link.
+ *
+ * @example
+ * ```tsx
+ * const report = await verifyAuditChain(await repository.listAuditEvents())
+ * if (!report.valid) console.warn(report.breaks)
+ * ```
+ */
+
+import { getApprovalChain, getCurrentStepRole } from '@/lib/approval-chain'
+import { HOME_CURRENCY } from '@/lib/currency'
+import { money, toDecimalString, toMoney, type Money } from '@/lib/money'
+import type { AuditEvent, ExpenseAuditState, ExpenseRecord } from '@/types/expense'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** `previousHash` of the first sealed event */
+export const GENESIS_HASH = '0'.repeat(64)
+
+/** Actors recorded for steps the system performs rather than a person */
+export const VALIDATION_ACTOR = { id: 'system:validation', name: 'Expense Validation' }
+export const REIMBURSEMENT_ACTOR = { id: 'system:reimbursement', name: 'Reimbursement' }
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AuditChainBreakReason =
+  | 'hash_mismatch'
+  | 'previous_hash_mismatch'
+  | 'sequence_gap'
+  | 'unsealed_event'
+
+export interface AuditChainBreak {
+  /** Sequence number (event id) where the chain breaks */
+  sequence: number | null
+  reason: AuditChainBreakReason
+  message: string
+}
+
+export interface AuditChainReport {
+  valid: boolean
+  /** Sealed events checked */
+  checked: number
+  /** Events written before sealing existed; they precede the chain and are not covered by it */
+  legacy: number
+  breaks: AuditChainBreak[]
+  /** Hash of the newest event, to compare against a copy kept elsewhere */
+  headHash: string | null
+  verifiedAt: string
+}
+
+// =============================================================================
+// Expense State
+// =============================================================================
+
+/**
+ * The parts of an expense an audit event records as before/after state
+ */
+export function captureExpenseState(expense: ExpenseRecord): ExpenseAuditState {
+  const chain = expense.approvalChain ?? (expense.status === 'reviewing' ? getApprovalChain(expense) : undefined)
+  return {
+    status: expense.status,
+    vendor: expense.vendor,
+    amountMinor: toMoney(expense.amount, HOME_CURRENCY).minor,
+    currency: expense.currency,
+    originalAmountMinor: expense.originalAmount === undefined
+      ? undefined
+      : toMoney(expense.originalAmount, expense.currency ?? HOME_CURRENCY).minor,
+    date: expense.date,
+    transactionTime: expense.transactionTime,
+    category: expense.category,
+    riskScore: expense.riskScore,
+    version: expense.version ?? 1,
+    approvalStep: chain ? getCurrentStepRole(chain) : null,
+  }
+}
+
+/** Home-currency amount a state records, from minor units or an older event's decimal */
+export function getStateHomeMoney(state: ExpenseAuditState): Money {
+  return state.amountMinor !== undefined
+    ? money(state.amountMinor, HOME_CURRENCY)
+    : toMoney(state.amount ?? 0, HOME_CURRENCY)
+}
+
+/** Amount as paid a state records, in its own currency */
+export function getStateOriginalMoney(state: ExpenseAuditState): Money {
+  const currency = state.currency ?? HOME_CURRENCY
+  if (state.originalAmountMinor !== undefined) return money(state.originalAmountMinor, currency)
+  if (state.originalAmount !== undefined) return toMoney(state.originalAmount, currency)
+  return getStateHomeMoney(state)
+}
+
+/** A state value for display; minor-unit amounts read as decimals */
+function formatStateValue(state: ExpenseAuditState, key: keyof ExpenseAuditState): string {
+  const value = state[key]
+  if (value === undefined || value === null) return '—'
+  if (key === 'amountMinor') return toDecimalString(money(value as number, HOME_CURRENCY))
+  if (key === 'originalAmountMinor') return toDecimalString(money(value as number, state.currency ?? HOME_CURRENCY))
+  return String(value)
+}
+
+/**
+ * One "field: before → after" line per field that changed
+ */
+export function describeStateChanges(before?: ExpenseAuditState, after?: ExpenseAuditState): string[] {
+  if (!after) return []
+  const keys = Object.keys(after) as Array<keyof ExpenseAuditState>
+  if (!before) return [`created as ${after.status}`]
+  return keys
+    .filter(key => before[key] !== after[key])
+    .map(key => `${key.replace(/Minor$/, '')}: ${formatStateValue(before, key)} → ${formatStateValue(after, key)}`)
+}
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+/**
+ * JSON with object keys sorted at every level, so equal events hash equally
+ * regardless of property order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+export async function hashAuditEvent(event: AuditEvent): Promise<string> {
+  const { hash: _hash, ...content } = event
+  const bytes = new TextEncoder().encode(canonicalJson(content))
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Give the event the next sequence number, link it to `previous` and hash it
+ */
+export async function sealAuditEvent(event: AuditEvent, previous: AuditEvent | null): Promise<AuditEvent> {
+  const { id: _id, hash: _hash, previousHash: _previousHash, ...content } = event
+  const linked: AuditEvent = {
+    ...content,
+    id: (previous?.id ?? 0) + 1,
+    previousHash: previous?.hash ?? GENESIS_HASH,
+  }
+  return { ...linked, hash: await hashAuditEvent(linked) }
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Walk the whole log oldest first and report every broken link
+ */
+export async function verifyAuditChain(events: AuditEvent[]): Promise<AuditChainReport> {
+  const ordered = [...events].sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+  const breaks: AuditChainBreak[] = []
+  let previous: AuditEvent | null = null
+  let sealedSeen = false
+  let checked = 0
+  let legacy = 0
+
+  for (const event of ordered) {
+    const sequence = event.id ?? null
+
+    if (previous?.id !== undefined && sequence !== previous.id + 1) {
+      breaks.push({
+        sequence,
+        reason: 'sequence_gap',
+        message: `Expected event #${previous.id + 1} but found #${sequence ?? '?'}; events are missing or reordered.`,
+      })
+    }
+
+    if (!event.hash) {
+      if (sealedSeen) {
+        breaks.push({
+          sequence,
+          reason: 'unsealed_event',
+          message: `Event #${sequence ?? '?'} has no hash but follows sealed events.`,
+        })
+      } else {
+        legacy++
+      }
+      previous = event
+      continue
+    }
+
+    // The first sealed event links to the genesis hash, even after legacy events
+    const expectedPrevious = (sealedSeen && previous?.hash) || GENESIS_HASH
+    if (event.previousHash !== expectedPrevious) {
+      breaks.push({
+        sequence,
+        reason: 'previous_hash_mismatch',
+        message: sealedSeen
+          ? `Event #${sequence} does not link to the hash of event #${previous?.id ?? '?'}.`
+          : `Event #${sequence} is the first sealed event but does not link to the genesis hash.`,
+      })
+    }
+
+    if (await hashAuditEvent(event) !== event.hash) {
+      breaks.push({
+        sequence,
+        reason: 'hash_mismatch',
+        message: `Event #${sequence} was modified after it was recorded.`,
+      })
+    }
+
+    sealedSeen = true
+    checked++
+    previous = event
+  }
+
+  return {
+    valid: breaks.length === 0,
+    checked,
+    legacy,
+    breaks,
+    headHash: previous?.hash ?? null,
+    verifiedAt: new Date().toISOString(),
+  }
+}
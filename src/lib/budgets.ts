@@ -0,0 +1,252 @@
+/**
+ * Department Budgets
+ *
+ * Budgets cap what a department may spend over a month, quarter or year,
+ * either in total or for one category. Approved spend and spend still in
+ * review both count against a budget; rejected expenses do not. Expenses are
+ * assigned to a period by their transaction date. Totals are summed in exact
+ * home-currency minor units.
+ *
+ * @example
+ * ```tsx
+ * const usage = getBudgetUsage(budget, expenses)
+ * const warnings = getBudgetWarnings({ department, category, date, amount }, budgets, expenses)
+ * ```
+ */
+
+import { addDays, toCalendarDate } from '@/lib/calendar-date'
+import { getHomeMoney, HOME_CURRENCY } from '@/lib/currency'
+import {
+  addMoney,
+  moneyRatio,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toAmount,
+  toMoney,
+  zeroMoney,
+  type Money
+} from '@/lib/money'
+import { getExpenseDepartment } from '@/lib/spend-analytics'
+import type { Budget, BudgetPeriod, CalendarDate, ExpenseRecord, ExpenseStatus } from '@/types/expense'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BudgetDraft = Omit<Budget, 'id' | 'createdBy' | 'createdAt'>
+
+export type BudgetHealth = 'ok' | 'warning' | 'over'
+
+export interface BudgetUsage {
+  budget: Budget
+  approved: number
+  /** Submitted but not yet decided */
+  pending: number
+  /** Budget left after approved and pending spend; negative when over */
+  remaining: number
+  /** (approved + pending) / budget amount */
+  ratio: number
+  health: BudgetHealth
+}
+
+export interface BurnDownPoint {
+  date: string
+  /** Straight-line burn from the full budget to zero over the period */
+  ideal: number
+  /** Budget left after approved spend; absent for days still to come */
+  remaining?: number
+  /** Budget left after approved and pending spend */
+  remainingWithPending?: number
+}
+
+/**
+ * The expense being submitted or approved, as budgets see it
+ */
+export interface BudgetTarget {
+  /** Set for an expense already on record, so it is not counted twice */
+  id?: string
+  department: string
+  category: string
+  date: string
+  amount: number
+}
+
+export interface BudgetWarning {
+  budget: Budget
+  health: Exclude<BudgetHealth, 'ok'>
+  /** Committed spend including the target expense */
+  projected: number
+  /** projected / budget amount */
+  ratio: number
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  month: 'Monthly',
+  quarter: 'Quarterly',
+  year: 'Yearly',
+}
+
+export const DEFAULT_WARNING_THRESHOLD = 0.8
+
+const PENDING_STATUSES: ExpenseStatus[] = ['pending', 'reviewing', 'needs_info', 'appealed']
+
+const PERIOD_MONTHS: Record<BudgetPeriod, number> = { month: 1, quarter: 3, year: 12 }
+
+// =============================================================================
+// Periods
+// =============================================================================
+
+/**
+ * First day of the period containing `date`
+ */
+export function getPeriodStart(period: BudgetPeriod, date: CalendarDate): CalendarDate {
+  const [year, month] = date.split('-').map(Number)
+  const monthIndex = month - 1
+  if (period === 'year') return toCalendarDate(year, 0)
+  if (period === 'quarter') return toCalendarDate(year, monthIndex - (monthIndex % 3))
+  return toCalendarDate(year, monthIndex)
+}
+
+/** Day after the budget's period ends */
+export function getPeriodEnd(budget: Pick<Budget, 'period' | 'periodStart'>): CalendarDate {
+  const [year, month] = budget.periodStart.split('-').map(Number)
+  return toCalendarDate(year, month - 1 + PERIOD_MONTHS[budget.period])
+}
+
+export function formatBudgetPeriod(budget: Pick<Budget, 'period' | 'periodStart'>): string {
+  const [year, month] = budget.periodStart.split('-').map(Number)
+  if (budget.period === 'year') return String(year)
+  if (budget.period === 'quarter') return `Q${Math.floor((month - 1) / 3) + 1} ${year}`
+  return new Date(year, month - 1, 1).toLocaleDateString('en-US', { year: 'numeric', month: 'short' })
+}
+
+/**
+ * Describe a budget's scope, e.g. "Engineering · Travel · Q1 2026"
+ */
+export function describeBudget(budget: Budget): string {
+  return [budget.department, budget.category ?? 'All categories', formatBudgetPeriod(budget)].join(' · ')
+}
+
+// =============================================================================
+// Usage
+// =============================================================================
+
+function budgetCovers(budget: Budget, target: Pick<BudgetTarget, 'department' | 'category' | 'date'>): boolean {
+  if (target.department !== budget.department) return false
+  if (budget.category && target.category !== budget.category) return false
+  return target.date >= budget.periodStart && target.date < getPeriodEnd(budget)
+}
+
+function getHealth(ratio: number, budget: Budget): BudgetHealth {
+  if (ratio > 1) return 'over'
+  return ratio >= budget.warningThreshold ? 'warning' : 'ok'
+}
+
+/** Approved and pending expenses that count against the budget */
+function getBudgetExpenses(budget: Budget, expenses: ExpenseRecord[]): ExpenseRecord[] {
+  return expenses.filter(expense =>
+    (expense.status === 'approved' || PENDING_STATUSES.includes(expense.status)) &&
+    budgetCovers(budget, { department: getExpenseDepartment(expense), category: expense.category, date: expense.date })
+  )
+}
+
+function getBudgetMoney(budget: Budget): Money {
+  return toMoney(budget.amount, HOME_CURRENCY)
+}
+
+export function getBudgetUsage(budget: Budget, expenses: ExpenseRecord[]): BudgetUsage {
+  const counted = getBudgetExpenses(budget, expenses)
+  const approved = sumMoney(counted.filter(e => e.status === 'approved').map(getHomeMoney), HOME_CURRENCY)
+  const pending = sumMoney(counted.filter(e => e.status !== 'approved').map(getHomeMoney), HOME_CURRENCY)
+  const committed = addMoney(approved, pending)
+  const ratio = moneyRatio(committed, getBudgetMoney(budget))
+  return {
+    budget,
+    approved: toAmount(approved),
+    pending: toAmount(pending),
+    remaining: toAmount(subtractMoney(getBudgetMoney(budget), committed)),
+    ratio,
+    health: getHealth(ratio, budget)
+  }
+}
+
+/**
+ * Daily budget remaining across the period, actuals up to `today`
+ */
+export function getBurnDown(budget: Budget, expenses: ExpenseRecord[], today: CalendarDate): BurnDownPoint[] {
+  const approvedByDay = new Map<string, Money>()
+  const pendingByDay = new Map<string, Money>()
+  for (const expense of getBudgetExpenses(budget, expenses)) {
+    const byDay = expense.status === 'approved' ? approvedByDay : pendingByDay
+    byDay.set(expense.date, addMoney(byDay.get(expense.date) ?? zeroMoney(HOME_CURRENCY), getHomeMoney(expense)))
+  }
+
+  const end = getPeriodEnd(budget)
+  const dates: CalendarDate[] = []
+  for (let date = budget.periodStart; date < end; date = addDays(date, 1)) dates.push(date)
+
+  const total = getBudgetMoney(budget)
+  let approved = zeroMoney(HOME_CURRENCY)
+  let pending = zeroMoney(HOME_CURRENCY)
+  return dates.map((date, index) => {
+    approved = addMoney(approved, approvedByDay.get(date) ?? zeroMoney(HOME_CURRENCY))
+    pending = addMoney(pending, pendingByDay.get(date) ?? zeroMoney(HOME_CURRENCY))
+    const point: BurnDownPoint = { date, ideal: toAmount(multiplyMoney(total, 1 - (index + 1) / dates.length)) }
+    if (date <= today) {
+      point.remaining = toAmount(subtractMoney(total, approved))
+      point.remainingWithPending = toAmount(subtractMoney(total, addMoney(approved, pending)))
+    }
+    return point
+  })
+}
+
+/**
+ * Budgets the target expense would push past their warning threshold or
+ * over their amount, worst first
+ */
+export function getBudgetWarnings(target: BudgetTarget, budgets: Budget[], expenses: ExpenseRecord[]): BudgetWarning[] {
+  if (!Number.isFinite(target.amount) || target.amount <= 0 || !target.date) return []
+  const others = target.id ? expenses.filter(e => e.id !== target.id) : expenses
+  const amount = toMoney(target.amount, HOME_CURRENCY)
+
+  return budgets
+    .filter(budget => budgetCovers(budget, target))
+    .flatMap(budget => {
+      const usage = getBudgetUsage(budget, others)
+      const projected = sumMoney([toMoney(usage.approved, HOME_CURRENCY), toMoney(usage.pending, HOME_CURRENCY), amount], HOME_CURRENCY)
+      const ratio = budget.amount > 0 ? moneyRatio(projected, getBudgetMoney(budget)) : Infinity
+      const health = getHealth(ratio, budget)
+      return health === 'ok' ? [] : [{ budget, health, projected: toAmount(projected), ratio }]
+    })
+    .sort((a, b) => b.ratio - a.ratio)
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Problems with a new budget, empty when it can be saved
+ */
+export function validateBudget(draft: BudgetDraft, existing: Budget[]): string[] {
+  const errors: string[] = []
+  if (!draft.department) errors.push('Choose a department.')
+  if (!draft.periodStart) errors.push('Choose the period.')
+  if (Number.isNaN(draft.amount) || draft.amount <= 0) errors.push('Budget amount must be a positive number.')
+  if (Number.isNaN(draft.warningThreshold) || draft.warningThreshold <= 0 || draft.warningThreshold > 1) {
+    errors.push('Warning threshold must be between 1% and 100%.')
+  }
+  const duplicate = existing.some(budget =>
+    budget.department === draft.department &&
+    (budget.category ?? '') === (draft.category ?? '') &&
+    budget.period === draft.period &&
+    budget.periodStart === draft.periodStart
+  )
+  if (duplicate) errors.push('A budget for this department, category and period already exists.')
+  return errors
+}
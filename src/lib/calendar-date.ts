@@ -0,0 +1,187 @@
+/**
+ * Calendar Dates and Transaction Times
+ *
+ * Expense, budget and delegation dates are calendar days (YYYY-MM-DD), not
+ * instants: "2026-03-05" is the 5th wherever it is read. `new Date()` parses
+ * such a string as UTC midnight, which shows as the 4th west of UTC, so
+ * calendar dates stay strings and any `Date` built from one is read back in
+ * UTC. Receipt times are wall-clock times where the purchase happened;
+ * `TransactionTimestamp` keeps the date, time and zone together so weekday
+ * and time-of-day checks read what the receipt says.
+ *
+ * @example
+ * ```tsx
+ * const when = getTransactionTimestamp(expense)
+ * isWeekend(when.date)
+ * formatTransactionTimestamp(when) // "Mar 7, 2026, 11:40 PM PST"
+ * ```
+ */
+
+import type { CalendarDate, ExpenseRecord } from '@/types/expense'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TransactionTimestamp {
+  date: CalendarDate
+  /** 24-hour HH:MM as on the receipt; null when it shows no time */
+  time: string | null
+  /** IANA zone the date and time are in, e.g. "America/New_York" */
+  timeZone: string
+}
+
+const CALENDAR_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const TIME_PATTERN = /^(\d{1,2})[:.](\d{2})(?::\d{2}(?:\.\d+)?)?\s*([ap])?\.?\s*m?\.?$/i
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+// =============================================================================
+// Calendar Dates
+// =============================================================================
+
+/** UTC midnight of the date; read it back only with UTC getters or `timeZone: 'UTC'` */
+function toUtcDate(date: CalendarDate): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+/**
+ * The date for a year, zero-based month and day; out-of-range values roll
+ * over, so month 12 is January of the next year
+ */
+export function toCalendarDate(year: number, monthIndex: number, day = 1): CalendarDate {
+  const date = new Date(Date.UTC(year, monthIndex, day))
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+}
+
+/** A well-formed YYYY-MM-DD naming a real day (not 2026-02-30) */
+export function isCalendarDate(value: string | null | undefined): value is CalendarDate {
+  const match = CALENDAR_DATE_PATTERN.exec(value ?? '')
+  return !!match && toCalendarDate(Number(match[1]), Number(match[2]) - 1, Number(match[3])) === value
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  const [year, month, day] = date.split('-').map(Number)
+  return toCalendarDate(year, month - 1, day + days)
+}
+
+/** The date an instant falls on in a time zone, the browser's by default */
+export function calendarDateOf(instant: Date | string, timeZone?: string): CalendarDate {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .formatToParts(new Date(instant))
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value
+  return `${part('year')}-${part('month')}-${part('day')}`
+}
+
+/** Today in the browser's time zone */
+export function localToday(): CalendarDate {
+  return calendarDateOf(new Date())
+}
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/** 0 for Sunday through 6 for Saturday */
+export function getDayOfWeek(date: CalendarDate): number {
+  return toUtcDate(date).getUTCDay()
+}
+
+export function isWeekend(date: CalendarDate): boolean {
+  const day = getDayOfWeek(date)
+  return day === 0 || day === 6
+}
+
+export function formatCalendarDate(
+  date: CalendarDate,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' }
+): string {
+  return toUtcDate(date).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' })
+}
+
+// =============================================================================
+// Transaction Times
+// =============================================================================
+
+/**
+ * A receipt time such as "9:05 PM", "21:05:30" or "9.05pm" as 24-hour
+ * HH:MM; null when it cannot be read
+ */
+export function parseTimeOfDay(value: string | null | undefined): string | null {
+  const match = TIME_PATTERN.exec(value?.trim() ?? '')
+  if (!match) return null
+  let hours = Number(match[1])
+  const minutes = Number(match[2])
+  const meridiem = match[3]?.toLowerCase()
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0)
+  }
+  if (hours > 23 || minutes > 59) return null
+  return `${pad(hours)}:${pad(minutes)}`
+}
+
+/**
+ * Records saved before time zones were kept are read in the browser's zone
+ */
+export function getTransactionTimestamp(
+  expense: Pick<ExpenseRecord, 'date' | 'transactionTime' | 'timeZone'>
+): TransactionTimestamp {
+  return { date: expense.date, time: expense.transactionTime ?? null, timeZone: expense.timeZone ?? getLocalTimeZone() }
+}
+
+/** Minutes the zone is ahead of UTC at the instant */
+function getZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(new Date(instant))
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value)
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'))
+  return Math.round((wallClock - instant) / 60_000)
+}
+
+/**
+ * The instant the transaction happened; null when the time is unknown. A
+ * time skipped by a daylight-saving change moves forward by the gap.
+ */
+export function toInstant(timestamp: TransactionTimestamp): Date | null {
+  if (!timestamp.time) return null
+  const [year, month, day] = timestamp.date.split('-').map(Number)
+  const [hours, minutes] = timestamp.time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes)
+  // The offset at the first guess can differ near a DST change; a second pass settles it
+  const first = wallClock - getZoneOffset(wallClock, timestamp.timeZone) * 60_000
+  const offset = getZoneOffset(first, timestamp.timeZone)
+  const second = wallClock - offset * 60_000
+  if (getZoneOffset(second, timestamp.timeZone) === offset) return new Date(second)
+  // Inside a spring-forward gap no offset reproduces the time; of the two guesses the later lands just past it
+  return new Date(Math.max(first, second))
+}
+
+/**
+ * The date and time as they were where the purchase happened, with that
+ * zone's abbreviation, e.g. "Mar 7, 2026, 11:40 PM PST"; the date alone
+ * when the time is unknown
+ */
+export function formatTransactionTimestamp(timestamp: TransactionTimestamp): string {
+  const instant = toInstant(timestamp)
+  if (!instant) return formatCalendarDate(timestamp.date)
+  return instant.toLocaleString('en-US', {
+    timeZone: timestamp.timeZone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  })
+}
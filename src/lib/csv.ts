@@ -0,0 +1,69 @@
+/**
+ * CSV Export
+ *
+ * RFC 4180 CSV: fields containing a delimiter, quote or line break are
+ * quoted, quotes are doubled and rows end in CRLF. Text that a spreadsheet
+ * would run as a formula is prefixed with an apostrophe. The optional UTF-8
+ * byte order mark makes Excel read non-ASCII text correctly.
+ *
+ * @example
+ * ```tsx
+ * const csv = toCsv(rows, [{ label: 'Vendor', value: row => row.vendor }])
+ * downloadCsv('expenses.csv', csv, { excelBom: true })
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CsvColumn<T> {
+  label: string
+  value: (row: T) => string | number | boolean | null | undefined
+}
+
+export interface CsvDownloadOptions {
+  /** Prepend a UTF-8 byte order mark so Excel detects the encoding */
+  excelBom?: boolean
+}
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+const UTF8_BOM = '\uFEFF'
+
+/** Leading characters that make spreadsheets evaluate a cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+export function escapeCsvValue(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value !== 'string') return String(value)
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [
+    columns.map(column => escapeCsvValue(column.label)).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(column.value(row))).join(',')),
+  ]
+  return `${lines.join('\r\n')}\r\n`
+}
+
+// =============================================================================
+// Download
+// =============================================================================
+
+export function downloadCsv(fileName: string, csv: string, options: CsvDownloadOptions = {}): void {
+  const blob = new Blob([options.excelBom ? UTF8_BOM + csv : csv], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
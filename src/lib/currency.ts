@@ -0,0 +1,187 @@
+/**
+ * Currencies and Exchange Rates
+ *
+ * Expenses keep the amount as paid in its original currency and the amount
+ * converted to the home currency, which approval thresholds, budgets and
+ * analytics use. Conversion reads a dated FX table kept in the browser: a
+ * rate applies from its effective date until the next rate for the same
+ * currency. Admins replace or extend the table by importing a CSV file.
+ * Conversions work in exact minor units (see `money.ts`).
+ *
+ * @example
+ * ```tsx
+ * const converted = convertToHome(parseMoney('120', 'EUR'), '2026-03-05', rates)
+ * describeAmount(expense) // "€120.00 ($140.40)"
+ * ```
+ */
+
+import { isCalendarDate } from '@/lib/calendar-date'
+import { convertMoney, formatMoney, toMoney, type Money } from '@/lib/money'
+import type { ExpenseRecord, FxRate } from '@/types/expense'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Amount fields shared by expenses, their versions and audit snapshots */
+export type AmountFields = Pick<ExpenseRecord, 'amount' | 'currency' | 'originalAmount'>
+
+export interface ConvertedAmount {
+  home: Money
+  /** Home-currency units per unit of the original currency */
+  rate: number
+  /** Effective date of the rate used */
+  rateDate: string
+}
+
+export interface FxImportResult {
+  rates: FxRate[]
+  /** One message per rejected line */
+  errors: string[]
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const HOME_CURRENCY = 'USD'
+
+export const SUPPORTED_CURRENCIES: Array<{ code: string; label: string }> = [
+  { code: 'USD', label: 'US Dollar' },
+  { code: 'EUR', label: 'Euro' },
+  { code: 'GBP', label: 'British Pound' },
+  { code: 'INR', label: 'Indian Rupee' },
+  { code: 'JPY', label: 'Japanese Yen' },
+]
+
+/** Bundled starting rates, used until an admin imports newer ones */
+export const DEFAULT_FX_RATES: FxRate[] = [
+  { currency: 'EUR', effectiveDate: '2026-01-01', rate: 1.17, source: 'default' },
+  { currency: 'GBP', effectiveDate: '2026-01-01', rate: 1.34, source: 'default' },
+  { currency: 'INR', effectiveDate: '2026-01-01', rate: 0.0114, source: 'default' },
+  { currency: 'JPY', effectiveDate: '2026-01-01', rate: 0.0067, source: 'default' },
+]
+
+// =============================================================================
+// Currencies
+// =============================================================================
+
+export function isSupportedCurrency(code: string | null | undefined): boolean {
+  return !!code && SUPPORTED_CURRENCIES.some(c => c.code === code)
+}
+
+export function getExpenseCurrency(fields: Pick<AmountFields, 'currency'>): string {
+  return fields.currency ?? HOME_CURRENCY
+}
+
+/** Amount as paid, in the expense's own currency */
+export function getOriginalAmount(fields: AmountFields): number {
+  return fields.originalAmount ?? fields.amount
+}
+
+/** Amount as paid, as exact money in its own currency */
+export function getOriginalMoney(fields: AmountFields): Money {
+  return toMoney(getOriginalAmount(fields), getExpenseCurrency(fields))
+}
+
+/** The converted amount used for limits, budgets and analytics */
+export function getHomeMoney(fields: Pick<AmountFields, 'amount'>): Money {
+  return toMoney(fields.amount, HOME_CURRENCY)
+}
+
+export function isForeignCurrency(fields: Pick<AmountFields, 'currency'>): boolean {
+  return getExpenseCurrency(fields) !== HOME_CURRENCY
+}
+
+/**
+ * Original amount with the home-currency amount alongside when they differ,
+ * e.g. "€120.00 ($140.40)"
+ */
+export function describeAmount(fields: AmountFields): string {
+  const original = formatMoney(getOriginalMoney(fields))
+  return isForeignCurrency(fields) ? `${original} (${formatMoney(getHomeMoney(fields))})` : original
+}
+
+// =============================================================================
+// Exchange Rates
+// =============================================================================
+
+function rateKey(rate: Pick<FxRate, 'currency' | 'effectiveDate'>): string {
+  return `${rate.currency}:${rate.effectiveDate}`
+}
+
+/**
+ * Imported rates layered over the bundled ones; an import wins for the same
+ * currency and date. Sorted by currency, then newest first.
+ */
+export function mergeFxRates(imported: FxRate[], defaults: FxRate[] = DEFAULT_FX_RATES): FxRate[] {
+  const byKey = new Map(defaults.map(rate => [rateKey(rate), rate]))
+  for (const rate of imported) byKey.set(rateKey(rate), rate)
+  return [...byKey.values()].sort((a, b) =>
+    a.currency.localeCompare(b.currency) || b.effectiveDate.localeCompare(a.effectiveDate)
+  )
+}
+
+/**
+ * The rate in effect for the currency on the date: the newest one taking
+ * effect on or before it. Null when the table has none that early.
+ */
+export function findFxRate(currency: string, date: string, rates: FxRate[]): FxRate | null {
+  let match: FxRate | null = null
+  for (const rate of rates) {
+    if (rate.currency !== currency || rate.effectiveDate > date) continue
+    if (!match || rate.effectiveDate > match.effectiveDate) match = rate
+  }
+  return match
+}
+
+/**
+ * Convert an amount paid on `date` into the home currency, rounded once to
+ * its minor unit. Null when no rate covers the date.
+ */
+export function convertToHome(amount: Money, date: string, rates: FxRate[]): ConvertedAmount | null {
+  if (amount.currency === HOME_CURRENCY) return { home: amount, rate: 1, rateDate: date }
+  const rate = findFxRate(amount.currency, date, rates)
+  if (!rate) return null
+  return { home: convertMoney(amount, rate.rate, HOME_CURRENCY), rate: rate.rate, rateDate: rate.effectiveDate }
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Parse an FX table export with `currency,date,rate` columns (in any order,
+ * header required). `rate` is home-currency units per unit of `currency`.
+ */
+export function parseFxRateCsv(text: string, source: string, importedAt: string = new Date().toISOString()): FxImportResult {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+  if (lines.length === 0) return { rates: [], errors: ['The file is empty.'] }
+
+  const header = lines[0].split(',').map(cell => cell.trim().toLowerCase())
+  const columns = {
+    currency: header.indexOf('currency'),
+    date: header.findIndex(cell => cell === 'date' || cell === 'effective_date'),
+    rate: header.indexOf('rate'),
+  }
+  if (columns.currency < 0 || columns.date < 0 || columns.rate < 0) {
+    return { rates: [], errors: ['The header must name currency, date and rate columns.'] }
+  }
+
+  const rates: FxRate[] = []
+  const errors: string[] = []
+  lines.slice(1).forEach((line, index) => {
+    const cells = line.split(',').map(cell => cell.trim())
+    const currency = cells[columns.currency]?.toUpperCase()
+    const effectiveDate = cells[columns.date]
+    const rate = Number(cells[columns.rate])
+    const lineNumber = index + 2
+
+    if (!/^[A-Z]{3}$/.test(currency ?? '')) errors.push(`Line ${lineNumber}: "${cells[columns.currency] ?? ''}" is not a currency code.`)
+    else if (currency === HOME_CURRENCY) errors.push(`Line ${lineNumber}: ${HOME_CURRENCY} is the home currency.`)
+    else if (!isCalendarDate(effectiveDate)) errors.push(`Line ${lineNumber}: dates must be YYYY-MM-DD.`)
+    else if (!Number.isFinite(rate) || rate <= 0) errors.push(`Line ${lineNumber}: rate must be a positive number.`)
+    else rates.push({ currency, effectiveDate, rate, source, importedAt })
+  })
+  return { rates, errors }
+}
@@ -0,0 +1,67 @@
+/**
+ * Approval Delegation
+ *
+ * Approvers on leave can hand their signing authority to a substitute for a
+ * date range, optionally limited to amounts up to a cap or to certain
+ * categories. Delegations only widen who may sign; the original approver
+ * keeps their authority.
+ */
+
+import { localToday } from '@/lib/calendar-date'
+import { getHomeMoney, HOME_CURRENCY } from '@/lib/currency'
+import { compareMoney, toMoney } from '@/lib/money'
+import type { ApprovalDelegation, CalendarDate, ExpenseRecord } from '@/types/expense'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export function isDelegationActive(delegation: ApprovalDelegation, onDate: CalendarDate = localToday()): boolean {
+  return !delegation.revokedAt && delegation.startDate <= onDate && onDate <= delegation.endDate
+}
+
+/**
+ * Whether an active delegation extends to this expense's amount and category
+ */
+export function delegationCovers(
+  delegation: ApprovalDelegation,
+  expense: Pick<ExpenseRecord, 'amount' | 'category'>,
+  onDate: CalendarDate = localToday()
+): boolean {
+  if (!isDelegationActive(delegation, onDate)) return false
+  if (
+    delegation.maxAmount !== undefined &&
+    compareMoney(getHomeMoney(expense), toMoney(delegation.maxAmount, HOME_CURRENCY)) > 0
+  ) return false
+  if (delegation.categories?.length && !delegation.categories.includes(expense.category)) return false
+  return true
+}
+
+/**
+ * Describe a delegation's limits, e.g. "up to $500 · Travel, Business Meal"
+ */
+export function describeDelegationLimits(delegation: ApprovalDelegation, formatAmount: (amount: number) => string): string {
+  const limits: string[] = []
+  if (delegation.maxAmount !== undefined) limits.push(`up to ${formatAmount(delegation.maxAmount)}`)
+  if (delegation.categories?.length) limits.push(delegation.categories.join(', '))
+  return limits.length > 0 ? limits.join(' · ') : 'all expenses'
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Problems with a new delegation, empty when it can be saved
+ */
+export function validateDelegation(delegation: Omit<ApprovalDelegation, 'id' | 'createdAt'>): string[] {
+  const errors: string[] = []
+  if (!delegation.delegateId) errors.push('Choose a substitute.')
+  if (delegation.delegateId === delegation.delegatorId) errors.push('You cannot delegate to yourself.')
+  if (!delegation.startDate || !delegation.endDate) errors.push('Choose a start and end date.')
+  else if (delegation.endDate < delegation.startDate) errors.push('End date must not be before the start date.')
+  if (delegation.maxAmount !== undefined && (Number.isNaN(delegation.maxAmount) || delegation.maxAmount <= 0)) {
+    errors.push('Amount cap must be a positive number.')
+  }
+  return errors
+}
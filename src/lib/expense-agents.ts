@@ -0,0 +1,386 @@
+/**
+ * Expense Agents
+ *
+ * Helpers for reading the expense agents' responses, and the two validation
+ * modes:
+ *
+ * - `coordinator`: one call to the Expense Validation Coordinator, which runs
+ *   the sub-agents server-side and returns a summarized `ValidationResult`.
+ * - `orchestrated`: the client calls Receipt Extraction first, then Fraud
+ *   Detection, Policy Compliance and Employee Eligibility concurrently, and
+ *   aggregates their full payloads into the same `ValidationResult` shape.
+ *
+ * @example
+ * ```tsx
+ * const report = await runValidation('orchestrated', submission, {
+ *   onProgress: setValidationStages
+ * })
+ * ```
+ */
+
+import parseLLMJson from '@/utils/jsonParser'
+import { AGENT_IDS } from '@/lib/agent-ids'
+import { HOME_CURRENCY } from '@/lib/currency'
+import { getMealTimingFlags, getWeekdayName } from '@/lib/meal-timing'
+import { compareMoney, toAmount, toDecimalString, toMoney, type Money } from '@/lib/money'
+import { callAIAgent, streamAIAgent, type NormalizedAgentResponse } from '@/utils/aiAgent'
+import {
+  applyValidationEvent,
+  failValidationStage,
+  finishValidationStage,
+  startValidationStage,
+  type ValidationStage,
+  type ValidationStageId
+} from '@/lib/validation-progress'
+import {
+  EXPENSE_CATEGORIES,
+  type CalendarDate,
+  type EmployeeEligibility,
+  type FraudAnalysis,
+  type PolicyCompliance,
+  type ReceiptData,
+  type ValidationDetails,
+  type ValidationMode,
+  type ValidationResult,
+  type ValidationRunMeta
+} from '@/types/expense'
+
+export { AGENT_IDS }
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * What the employee submitted, as sent to the agents
+ */
+export interface ExpenseSubmission {
+  vendor: string
+  /** As entered, in the currency it was paid in */
+  amount: Money
+  /** Converted amount when `amount` is not in the home currency */
+  homeAmount?: Money
+  /** Calendar day of the transaction where it happened */
+  date: CalendarDate
+  /** 24-hour HH:MM in `timeZone`, when known */
+  transactionTime?: string
+  /** IANA zone the date and time are in */
+  timeZone: string
+  category: string
+  employee: string
+  /** Uploaded receipt asset; undefined means the receipt is missing */
+  receiptAssetId?: string
+  /** Extraction already run for form auto-fill, reused instead of extracting again */
+  receipt?: ReceiptData
+}
+
+export interface ValidationReport {
+  result: ValidationResult
+  details: ValidationDetails
+  meta: ValidationRunMeta
+}
+
+type StageUpdate = (stages: ValidationStage[]) => ValidationStage[]
+
+export interface ValidationOptions {
+  /** Receives stage updates as work starts, finishes or fails */
+  onProgress?: (update: StageUpdate) => void
+}
+
+// =============================================================================
+// Response Helpers
+// =============================================================================
+
+/**
+ * Pull the agent's payload out of a normalized response.
+ * Some agents wrap their JSON in a `response` string instead of returning it directly.
+ */
+export function getAgentResult<T>(response: NormalizedAgentResponse): T {
+  const result = response.result
+  if (result && typeof result.response === 'string') {
+    const parsed = parseLLMJson(result.response)
+    return (parsed?.result ?? parsed) as T
+  }
+  if (!result || Object.keys(result).length === 0) {
+    throw new Error('Invalid response structure')
+  }
+  return result as T
+}
+
+function describeSubmission(submission: ExpenseSubmission): string {
+  const receiptNote = submission.receiptAssetId
+    ? 'Receipt: attached'
+    : 'Receipt: MISSING - no receipt was provided, flag as missing documentation'
+  const entered = `${toDecimalString(submission.amount)} ${submission.amount.currency}`
+  const amount = submission.amount.currency === HOME_CURRENCY || submission.homeAmount === undefined
+    ? entered
+    : `${entered} (${toDecimalString(submission.homeAmount)} ${HOME_CURRENCY} converted; apply policy limits to the ${HOME_CURRENCY} amount)`
+  // Weekday and time are spelled out so the agents do not re-derive them from the date in another zone
+  const when = `${submission.date} (${getWeekdayName(submission.date)})` +
+    (submission.transactionTime ? `, Time: ${submission.transactionTime} ${submission.timeZone} local time` : '')
+  const timing = getMealTimingFlags(submission).map(flag => flag.label.toLowerCase())
+  const timingNote = timing.length > 0 ? `, Timing: ${timing.join(', ')}` : ''
+  return `Vendor: ${submission.vendor}, Amount: ${amount}, Date: ${when}${timingNote}, Category: ${submission.category}, Employee: ${submission.employee}, ${receiptNote}`
+}
+
+/**
+ * Call one sub-agent, reporting its stage, and return its parsed payload
+ */
+async function callSubAgent<T>(
+  stage: ValidationStageId,
+  agentId: string,
+  message: string,
+  options: ValidationOptions & { assets?: string[] }
+): Promise<T> {
+  options.onProgress?.(stages => startValidationStage(stages, stage))
+  try {
+    const result = await callAIAgent(message, agentId, { assets: options.assets })
+    if (!result.success) {
+      throw new Error(result.error || 'Agent call failed')
+    }
+    const data = getAgentResult<T>(result.response)
+    options.onProgress?.(stages => finishValidationStage(stages, stage))
+    return data
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Agent call failed'
+    options.onProgress?.(stages => failValidationStage(stages, stage, message))
+    throw error
+  }
+}
+
+// =============================================================================
+// Receipt Extraction
+// =============================================================================
+
+/**
+ * Run the Receipt Extraction agent on an uploaded receipt, ahead of submission
+ */
+export async function extractReceipt(assetId: string): Promise<ReceiptData> {
+  const message = `Extract receipt data from the attached receipt. Also include suggested_category, one of: ${EXPENSE_CATEGORIES.join(', ')}.`
+  const result = await callAIAgent(message, AGENT_IDS.RECEIPT_EXTRACTION, { assets: [assetId] })
+  if (!result.success) {
+    throw new Error(result.error || 'Receipt extraction failed')
+  }
+  return getAgentResult<ReceiptData>(result.response)
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * Re-derive `within_limit` by comparing the limit and the actual amount in
+ * exact cents instead of trusting the agent's float comparison. A limit of
+ * zero means the category has none.
+ */
+export function checkCategoryLimit(policy: PolicyCompliance): PolicyCompliance {
+  const { limit, actual } = policy.category_limit ?? {}
+  if (typeof limit !== 'number' || typeof actual !== 'number' || limit <= 0) return policy
+  const withinLimit = compareMoney(toMoney(actual, HOME_CURRENCY), toMoney(limit, HOME_CURRENCY)) <= 0
+  return { ...policy, category_limit: { limit, actual, within_limit: withinLimit } }
+}
+
+/**
+ * Combine the full sub-agent payloads into the coordinator's summary shape.
+ * A sub-agent that failed is treated conservatively and forces manager review.
+ */
+export function aggregateValidationResult(
+  submission: ExpenseSubmission,
+  details: ValidationDetails,
+  failures: string[] = []
+): ValidationResult {
+  const { receipt, fraud, policy, eligibility } = details
+
+  const flagsCount = fraud?.flags.length ?? 0
+  const violationsCount = policy?.violations.length ?? 0
+  const criticalViolations = policy?.violations.some(v => v.severity === 'critical') ?? false
+  const restrictions = eligibility?.ineligibility_reasons.length ?? 0
+  const fraudDetected = fraud ? fraud.fraud_risk_level === 'high' || fraud.recommendation === 'reject' : false
+
+  let riskLevel: ValidationResult['validation_summary']['risk_level'] = 'low'
+  if (fraudDetected && criticalViolations) {
+    riskLevel = 'critical'
+  } else if (fraudDetected || criticalViolations || (eligibility && !eligibility.eligible)) {
+    riskLevel = 'high'
+  } else if (fraud?.fraud_risk_level === 'medium' || violationsCount > 0 || flagsCount > 0 || failures.length > 0) {
+    riskLevel = 'medium'
+  }
+
+  const rejected =
+    fraudDetected ||
+    policy?.recommendation === 'reject' ||
+    eligibility?.recommendation === 'reject' ||
+    (eligibility !== undefined && !eligibility.eligible)
+
+  const autoApprovable =
+    !rejected &&
+    failures.length === 0 &&
+    !!submission.receiptAssetId &&
+    !!receipt &&
+    fraud?.recommendation === 'approve' &&
+    policy?.compliant === true &&
+    eligibility?.eligible === true
+
+  const finalRecommendation: ValidationResult['final_recommendation'] =
+    rejected ? 'reject' : autoApprovable ? 'AUTO_APPROVE' : 'MANAGER_REVIEW'
+
+  const reasoning = [
+    fraud?.reasoning,
+    policy?.reasoning,
+    eligibility?.reasoning,
+    ...failures.map(f => `Not checked: ${f}.`)
+  ].filter(Boolean).join(' ')
+
+  const requiredActions = [
+    ...(policy?.missing_documents.map(doc => `Provide missing document: ${doc}`) ?? []),
+    ...(eligibility?.ineligibility_reasons ?? []),
+    ...(receipt?.missing_fields.length ? [`Confirm receipt fields: ${receipt.missing_fields.join(', ')}`] : []),
+    ...(!submission.receiptAssetId ? ['Attach a receipt'] : [])
+  ]
+
+  const completedChecks = 4 - failures.length
+  const confidence = (receipt?.extraction_confidence ?? 0.5) * (completedChecks / 4)
+
+  return {
+    validation_summary: {
+      overall_status: rejected ? 'rejected' : autoApprovable ? 'approved' : 'reviewing',
+      confidence_score: Math.round(confidence * 100) / 100,
+      risk_level: riskLevel
+    },
+    receipt_data: {
+      vendor: receipt?.vendor_name || submission.vendor,
+      amount: receipt?.total_amount ?? toAmount(submission.amount),
+      date: receipt?.transaction_date || submission.date,
+      extracted_successfully: !!receipt
+    },
+    fraud_analysis: {
+      fraud_detected: fraudDetected,
+      fraud_score: fraud?.fraud_score ?? 0,
+      flags_count: flagsCount
+    },
+    policy_compliance: {
+      compliant: policy?.compliant ?? false,
+      violations_count: violationsCount,
+      critical_violations: criticalViolations
+    },
+    employee_eligibility: {
+      eligible: eligibility?.eligible ?? false,
+      restrictions
+    },
+    final_recommendation: finalRecommendation,
+    recommendation_reasoning: reasoning,
+    required_actions: requiredActions,
+    approval_workflow: {
+      requires_manager_approval: finalRecommendation === 'MANAGER_REVIEW',
+      required_approval_level: policy?.required_approvals[0] || (finalRecommendation === 'MANAGER_REVIEW' ? 'manager' : 'none'),
+      auto_approvable: autoApprovable
+    }
+  }
+}
+
+// =============================================================================
+// Validation Modes
+// =============================================================================
+
+/**
+ * Coordinator mode: one streamed call, progress driven by the coordinator's SSE events
+ */
+export async function validateWithCoordinator(
+  submission: ExpenseSubmission,
+  options: ValidationOptions = {}
+): Promise<ValidationReport> {
+  const startedAt = Date.now()
+  options.onProgress?.(stages => startValidationStage(stages, 'final'))
+
+  const result = await streamAIAgent(`Validate expense: ${describeSubmission(submission)}`, AGENT_IDS.EXPENSE_VALIDATION_COORDINATOR, {
+    assets: submission.receiptAssetId ? [submission.receiptAssetId] : undefined,
+    onEvent: (event) => options.onProgress?.(stages => applyValidationEvent(stages, event))
+  })
+
+  if (!result.success) {
+    throw new Error(result.error || 'Validation failed')
+  }
+
+  return {
+    result: getAgentResult<ValidationResult>(result.response),
+    details: {},
+    meta: { mode: 'coordinator', durationMs: Date.now() - startedAt, completedAt: new Date().toISOString() }
+  }
+}
+
+/**
+ * Orchestrated mode: extraction first, then fraud, policy and eligibility in parallel
+ */
+export async function validateWithSubAgents(
+  submission: ExpenseSubmission,
+  options: ValidationOptions = {}
+): Promise<ValidationReport> {
+  const startedAt = Date.now()
+  const summary = describeSubmission(submission)
+  const assets = submission.receiptAssetId ? [submission.receiptAssetId] : undefined
+  const failures: string[] = []
+
+  // Extraction feeds the other checks, so it runs on its own first
+  let receipt: ReceiptData | undefined = submission.receipt
+  if (receipt) {
+    options.onProgress?.(stages => finishValidationStage(startValidationStage(stages, 'extraction'), 'extraction'))
+  } else if (submission.receiptAssetId) {
+    try {
+      receipt = await callSubAgent<ReceiptData>('extraction', AGENT_IDS.RECEIPT_EXTRACTION, `Extract receipt data. Submitted details: ${summary}`, {
+        ...options,
+        assets
+      })
+    } catch {
+      failures.push('receipt extraction failed')
+    }
+  } else {
+    options.onProgress?.(stages => failValidationStage(stages, 'extraction', 'No receipt attached'))
+    failures.push('no receipt to extract')
+  }
+
+  const context = receipt
+    ? `${summary}. Extracted receipt data: ${JSON.stringify(receipt)}`
+    : summary
+
+  const [fraud, policy, eligibility] = await Promise.allSettled([
+    callSubAgent<FraudAnalysis>('fraud', AGENT_IDS.FRAUD_DETECTION, `Analyze expense for fraud: ${context}`, { ...options, assets }),
+    callSubAgent<PolicyCompliance>('policy', AGENT_IDS.POLICY_COMPLIANCE, `Validate expense against policy: ${context}`, options),
+    callSubAgent<EmployeeEligibility>('eligibility', AGENT_IDS.EMPLOYEE_ELIGIBILITY, `Check employee eligibility for expense: ${context}`, options)
+  ])
+
+  if (fraud.status === 'rejected') failures.push('fraud detection failed')
+  if (policy.status === 'rejected') failures.push('policy compliance check failed')
+  if (eligibility.status === 'rejected') failures.push('eligibility check failed')
+
+  const details: ValidationDetails = {
+    receipt,
+    fraud: fraud.status === 'fulfilled' ? fraud.value : undefined,
+    policy: policy.status === 'fulfilled' ? checkCategoryLimit(policy.value) : undefined,
+    eligibility: eligibility.status === 'fulfilled' ? eligibility.value : undefined
+  }
+
+  if (!details.fraud && !details.policy && !details.eligibility) {
+    throw new Error('All validation agents failed')
+  }
+
+  // Aggregation stands in for the coordinator's final review
+  options.onProgress?.(stages => startValidationStage(stages, 'final'))
+  const result = aggregateValidationResult(submission, details, failures)
+  options.onProgress?.(stages => finishValidationStage(stages, 'final'))
+
+  return {
+    result,
+    details,
+    meta: { mode: 'orchestrated', durationMs: Date.now() - startedAt, completedAt: new Date().toISOString() }
+  }
+}
+
+export function runValidation(
+  mode: ValidationMode,
+  submission: ExpenseSubmission,
+  options: ValidationOptions = {}
+): Promise<ValidationReport> {
+  return mode === 'orchestrated'
+    ? validateWithSubAgents(submission, options)
+    : validateWithCoordinator(submission, options)
+}
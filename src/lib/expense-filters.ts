@@ -0,0 +1,112 @@
+/**
+ * Expense List Filters
+ *
+ * Filters for the expense list, kept in the query string so analytics charts
+ * can drill through to the expenses behind a bar or slice and the filtered
+ * list can be shared. Department, month and fraud band use the same keys as
+ * the spend analytics buckets.
+ *
+ * @example
+ * ```tsx
+ * const rows = filterExpenses(expenses, parseExpenseFilters(searchParams))
+ * navigate({ pathname: '/expenses', search: `?${new URLSearchParams({ category: 'Travel' })}` })
+ * ```
+ */
+
+import {
+  formatFraudBandLabel,
+  formatMonthLabel,
+  getExpenseDepartment,
+  getExpenseMonth,
+  getFraudBand,
+  RECOMMENDATION_LABELS
+} from '@/lib/spend-analytics'
+import type { ExpenseRecord, ValidationResult } from '@/types/expense'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Raw query values; empty strings and 'all' mean no filter */
+export interface ExpenseFilters {
+  status: string
+  category: string
+  department: string
+  vendor: string
+  /** Transaction month, YYYY-MM */
+  month: string
+  /** Fraud score band key, e.g. '20-40' */
+  fraud: string
+  recommendation: string
+}
+
+/** Filters other than status, which has its own selector */
+export type ExpenseDrillField = Exclude<keyof ExpenseFilters, 'status'>
+
+// =============================================================================
+// Query String
+// =============================================================================
+
+export const EMPTY_EXPENSE_FILTERS: ExpenseFilters = {
+  status: 'all',
+  category: '',
+  department: '',
+  vendor: '',
+  month: '',
+  fraud: '',
+  recommendation: '',
+}
+
+export const EXPENSE_DRILL_FIELDS: Array<{ field: ExpenseDrillField; label: string; format?: (value: string) => string }> = [
+  { field: 'category', label: 'Category' },
+  { field: 'department', label: 'Department' },
+  { field: 'vendor', label: 'Vendor' },
+  { field: 'month', label: 'Month', format: formatMonthLabel },
+  { field: 'fraud', label: 'Fraud score', format: formatFraudBandLabel },
+  {
+    field: 'recommendation',
+    label: 'Recommendation',
+    format: value => RECOMMENDATION_LABELS[value as ValidationResult['final_recommendation']] ?? value,
+  },
+]
+
+export function parseExpenseFilters(params: URLSearchParams): ExpenseFilters {
+  const filters = { ...EMPTY_EXPENSE_FILTERS }
+  for (const field of Object.keys(EMPTY_EXPENSE_FILTERS) as Array<keyof ExpenseFilters>) {
+    filters[field] = params.get(field) || EMPTY_EXPENSE_FILTERS[field]
+  }
+  return filters
+}
+
+/**
+ * Query string for an expense list showing only the given filters
+ */
+export function expenseFiltersToSearch(filters: Partial<ExpenseFilters>): string {
+  const params = new URLSearchParams()
+  for (const [field, value] of Object.entries(filters)) {
+    if (value && value !== 'all') params.set(field, value)
+  }
+  const search = params.toString()
+  return search ? `?${search}` : ''
+}
+
+// =============================================================================
+// Filtering
+// =============================================================================
+
+export function filterExpenses(expenses: ExpenseRecord[], filters: ExpenseFilters): ExpenseRecord[] {
+  const active = (Object.keys(filters) as Array<keyof ExpenseFilters>)
+    .filter(field => filters[field] !== EMPTY_EXPENSE_FILTERS[field])
+  if (active.length === 0) return expenses
+
+  return expenses.filter(expense => {
+    if (filters.status !== 'all' && expense.status !== filters.status) return false
+    if (filters.category && expense.category !== filters.category) return false
+    if (filters.department && getExpenseDepartment(expense) !== filters.department) return false
+    if (filters.vendor && expense.vendor !== filters.vendor) return false
+    if (filters.month && getExpenseMonth(expense) !== filters.month) return false
+    if (filters.fraud && getFraudBand(expense) !== filters.fraud) return false
+    if (filters.recommendation && expense.validationResult?.final_recommendation !== filters.recommendation) return false
+    return true
+  })
+}
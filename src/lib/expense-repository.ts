@@ -0,0 +1,922 @@
+/**
+ * Expense Repository
+ *
+ * Persistence layer for expenses, their validation and approval results and
+ * the uploaded receipt files. The UI talks to the `ExpenseRepository`
+ * interface; `IndexedDBExpenseRepository` is the browser implementation and
+ * `InMemoryExpenseRepository` is used where IndexedDB is unavailable.
+ *
+ * ## Schema versioning
+ *
+ * `DB_VERSION` is the IndexedDB schema version. Every schema change appends
+ * an entry to `MIGRATIONS`; on open, all migrations newer than the stored
+ * version run in order inside the upgrade transaction.
+ *
+ * ## Stored amounts
+ *
+ * Expense, version, budget and delegation amounts are stored as integer
+ * minor units (`amountMinor`, `maxAmountMinor`) so nothing at rest is a
+ * float. Both implementations convert at the store boundary; callers see
+ * the decimal `amount` fields on the record types.
+ *
+ * @example
+ * ```tsx
+ * import { expenseRepository } from '@/lib/expense-repository'
+ *
+ * await expenseRepository.saveExpense(expense, receiptFile)
+ * const expenses = await expenseRepository.listExpenses()
+ * ```
+ */
+
+import { sealAuditEvent } from '@/lib/audit-log'
+import { HOME_CURRENCY } from '@/lib/currency'
+import { money, toAmount, toMoney } from '@/lib/money'
+import type {
+  ApprovalDelegation,
+  ApprovalResult,
+  AuditEvent,
+  Budget,
+  ExpenseRecord,
+  ExpenseVersion,
+  FxRate,
+  UserNotification,
+  ValidationDetails,
+  ValidationResult
+} from '@/types/expense'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DB_NAME = 'expense-guard'
+export const DB_VERSION = 8
+
+/** Retries when another tab appends an audit event at the same time */
+const MAX_AUDIT_APPEND_ATTEMPTS = 3
+
+const STORES = {
+  EXPENSES: 'expenses',
+  VALIDATION_RESULTS: 'validation_results',
+  APPROVAL_RESULTS: 'approval_results',
+  RECEIPTS: 'receipts',
+  AUDIT_EVENTS: 'audit_events',
+  DELEGATIONS: 'delegations',
+  NOTIFICATIONS: 'notifications',
+  ATTACHMENTS: 'attachments',
+  BUDGETS: 'budgets',
+  FX_RATES: 'fx_rates',
+} as const
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Approval result as stored, linked back to its expense
+ */
+export interface StoredApprovalResult {
+  id?: number
+  expenseId: string
+  result: ApprovalResult
+  recordedAt: string
+}
+
+/**
+ * Validation output as stored; `details` holds the full sub-agent payloads when available
+ */
+export interface StoredValidation {
+  expenseId: string
+  result: ValidationResult
+  details?: ValidationDetails
+}
+
+/**
+ * Receipt file as stored
+ */
+export interface StoredReceipt {
+  expenseId: string
+  blob: Blob
+  fileName: string
+  mimeType: string
+  storedAt: string
+}
+
+/**
+ * Comment attachment file as stored
+ */
+export interface StoredAttachment {
+  id: string
+  expenseId: string
+  blob: Blob
+  fileName: string
+  mimeType: string
+  storedAt: string
+}
+
+/**
+ * Expense version as stored, amounts in minor units of the home currency
+ * and of `currency`
+ */
+interface StoredExpenseVersion extends Omit<ExpenseVersion, 'amount' | 'originalAmount'> {
+  amountMinor: number
+  originalAmountMinor?: number
+}
+
+/**
+ * Expense as stored: amounts in minor units, validation kept in its own store
+ */
+interface StoredExpense
+  extends Omit<ExpenseRecord, 'amount' | 'originalAmount' | 'versions' | 'validationResult' | 'validationDetails'> {
+  amountMinor: number
+  originalAmountMinor?: number
+  versions?: StoredExpenseVersion[]
+}
+
+interface StoredBudget extends Omit<Budget, 'amount'> {
+  amountMinor: number
+}
+
+interface StoredDelegation extends Omit<ApprovalDelegation, 'maxAmount'> {
+  maxAmountMinor?: number
+}
+
+/**
+ * Storage-agnostic access to persisted expense data.
+ * `listExpenses` and `getExpense` return records with `validationResult` and
+ * `validationDetails` attached.
+ */
+export interface ExpenseRepository {
+  listExpenses(): Promise<ExpenseRecord[]>
+  getExpense(id: string): Promise<ExpenseRecord | null>
+  /** Insert a new expense; rejects if its id is taken. The optional file is stored as its receipt */
+  createExpense(expense: ExpenseRecord, receipt?: File | Blob | null): Promise<void>
+  /** Insert or replace an expense; the optional file is stored as its receipt */
+  saveExpense(expense: ExpenseRecord, receipt?: File | Blob | null): Promise<void>
+  /**
+   * Re-read an expense and write `modify`'s changes in the same transaction,
+   * so no other tab writes in between. `modify` must be synchronous and
+   * returns null to leave the record alone; if it throws, nothing is written
+   * and the call rejects. Resolves with the saved record, or null when the
+   * expense is missing or unchanged.
+   */
+  modifyExpense(
+    id: string,
+    modify: (current: ExpenseRecord) => Partial<ExpenseRecord> | null
+  ): Promise<ExpenseRecord | null>
+  deleteExpense(id: string): Promise<void>
+  saveValidationResult(expenseId: string, result: ValidationResult, details?: ValidationDetails): Promise<void>
+  getValidationResult(expenseId: string): Promise<ValidationResult | null>
+  saveApprovalResult(expenseId: string, result: ApprovalResult): Promise<void>
+  listApprovalResults(expenseId: string): Promise<StoredApprovalResult[]>
+  getReceipt(expenseId: string): Promise<StoredReceipt | null>
+  /**
+   * Seal the event into the hash chain and append it; events are never
+   * updated or deleted. Resolves with the sealed event.
+   */
+  appendAuditEvent(event: AuditEvent): Promise<AuditEvent>
+  /** Audit events oldest first, optionally for one expense */
+  listAuditEvents(expenseId?: string): Promise<AuditEvent[]>
+  /** Insert a new delegation; rejects if its id is taken */
+  createDelegation(delegation: ApprovalDelegation): Promise<void>
+  /** Insert or replace a delegation; revoked delegations are kept for the record */
+  saveDelegation(delegation: ApprovalDelegation): Promise<void>
+  listDelegations(): Promise<ApprovalDelegation[]>
+  addNotification(notification: UserNotification): Promise<UserNotification>
+  /** A user's notifications, newest first */
+  listNotifications(userId: string): Promise<UserNotification[]>
+  markNotificationRead(id: number): Promise<void>
+  saveAttachment(attachment: StoredAttachment): Promise<void>
+  getAttachment(id: string): Promise<StoredAttachment | null>
+  /** Insert a new budget; rejects if its id is taken */
+  createBudget(budget: Budget): Promise<void>
+  /** Insert or replace a budget */
+  saveBudget(budget: Budget): Promise<void>
+  deleteBudget(id: string): Promise<void>
+  listBudgets(): Promise<Budget[]>
+  /** Insert or replace FX table rows, keyed by currency and effective date */
+  saveFxRates(rates: FxRate[]): Promise<void>
+  listFxRates(): Promise<FxRate[]>
+}
+
+/**
+ * A single schema migration. `migrate` runs inside the versionchange
+ * transaction, so it may create stores and rewrite existing records.
+ */
+interface Migration {
+  version: number
+  migrate: (db: IDBDatabase, tx: IDBTransaction) => void
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    migrate: (db) => {
+      const expenses = db.createObjectStore(STORES.EXPENSES, { keyPath: 'id' })
+      expenses.createIndex('status', 'status')
+      expenses.createIndex('employee', 'employee')
+      expenses.createIndex('date', 'date')
+
+      db.createObjectStore(STORES.VALIDATION_RESULTS, { keyPath: 'expenseId' })
+
+      const approvals = db.createObjectStore(STORES.APPROVAL_RESULTS, { keyPath: 'id', autoIncrement: true })
+      approvals.createIndex('expenseId', 'expenseId')
+
+      db.createObjectStore(STORES.RECEIPTS, { keyPath: 'expenseId' })
+    },
+  },
+  {
+    version: 2,
+    migrate: (db) => {
+      const events = db.createObjectStore(STORES.AUDIT_EVENTS, { keyPath: 'id', autoIncrement: true })
+      events.createIndex('expenseId', 'expenseId')
+    },
+  },
+  {
+    version: 3,
+    migrate: (db) => {
+      db.createObjectStore(STORES.DELEGATIONS, { keyPath: 'id' })
+    },
+  },
+  {
+    version: 4,
+    migrate: (db) => {
+      const notifications = db.createObjectStore(STORES.NOTIFICATIONS, { keyPath: 'id', autoIncrement: true })
+      notifications.createIndex('userId', 'userId')
+    },
+  },
+  {
+    version: 5,
+    migrate: (db) => {
+      const attachments = db.createObjectStore(STORES.ATTACHMENTS, { keyPath: 'id' })
+      attachments.createIndex('expenseId', 'expenseId')
+    },
+  },
+  {
+    version: 6,
+    migrate: (db) => {
+      db.createObjectStore(STORES.BUDGETS, { keyPath: 'id' })
+    },
+  },
+  {
+    version: 7,
+    migrate: (db) => {
+      db.createObjectStore(STORES.FX_RATES, { keyPath: ['currency', 'effectiveDate'] })
+    },
+  },
+  {
+    // Decimal amounts become integer minor units
+    version: 8,
+    migrate: (_db, tx) => {
+      rewriteRecords<ExpenseRecord>(tx.objectStore(STORES.EXPENSES), toStoredExpense)
+      rewriteRecords<Budget>(tx.objectStore(STORES.BUDGETS), toStoredBudget)
+      rewriteRecords<ApprovalDelegation>(tx.objectStore(STORES.DELEGATIONS), toStoredDelegation)
+    },
+  },
+]
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'))
+  })
+}
+
+/** Replace every record in a store with its converted form; for use inside a migration */
+function rewriteRecords<T>(store: IDBObjectStore, convert: (record: T) => unknown): void {
+  store.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result
+    if (!cursor) return
+    cursor.update(convert(cursor.value as T))
+    cursor.continue()
+  }
+}
+
+function toMinor(amount: number, currency = HOME_CURRENCY): number {
+  return toMoney(amount, currency).minor
+}
+
+function fromMinor(minor: number, currency = HOME_CURRENCY): number {
+  return toAmount(money(minor, currency))
+}
+
+function toStoredVersion(version: ExpenseVersion): StoredExpenseVersion {
+  const { amount, originalAmount, ...rest } = version
+  return {
+    ...rest,
+    amountMinor: toMinor(amount),
+    originalAmountMinor: originalAmount === undefined ? undefined : toMinor(originalAmount, version.currency)
+  }
+}
+
+function fromStoredVersion(version: StoredExpenseVersion): ExpenseVersion {
+  const { amountMinor, originalAmountMinor, ...rest } = version
+  return {
+    ...rest,
+    amount: fromMinor(amountMinor),
+    originalAmount: originalAmountMinor === undefined ? undefined : fromMinor(originalAmountMinor, version.currency)
+  }
+}
+
+/**
+ * Split the denormalized record into what goes in the expenses store
+ */
+function toStoredExpense(expense: ExpenseRecord): StoredExpense {
+  const { validationResult, validationDetails, amount, originalAmount, versions, ...rest } = expense
+  return {
+    ...rest,
+    amountMinor: toMinor(amount),
+    originalAmountMinor: originalAmount === undefined ? undefined : toMinor(originalAmount, expense.currency),
+    versions: versions?.map(toStoredVersion)
+  }
+}
+
+function withValidation(expense: StoredExpense, validation: StoredValidation | undefined): ExpenseRecord {
+  const { amountMinor, originalAmountMinor, versions, ...rest } = expense
+  return {
+    ...rest,
+    amount: fromMinor(amountMinor),
+    originalAmount: originalAmountMinor === undefined ? undefined : fromMinor(originalAmountMinor, expense.currency),
+    versions: versions?.map(fromStoredVersion),
+    validationResult: validation?.result,
+    validationDetails: validation?.details
+  }
+}
+
+function toStoredBudget(budget: Budget): StoredBudget {
+  const { amount, ...rest } = budget
+  return { ...rest, amountMinor: toMinor(amount) }
+}
+
+function fromStoredBudget(budget: StoredBudget): Budget {
+  const { amountMinor, ...rest } = budget
+  return { ...rest, amount: fromMinor(amountMinor) }
+}
+
+function toStoredDelegation(delegation: ApprovalDelegation): StoredDelegation {
+  const { maxAmount, ...rest } = delegation
+  return { ...rest, maxAmountMinor: maxAmount === undefined ? undefined : toMinor(maxAmount) }
+}
+
+function fromStoredDelegation(delegation: StoredDelegation): ApprovalDelegation {
+  const { maxAmountMinor, ...rest } = delegation
+  return { ...rest, maxAmount: maxAmountMinor === undefined ? undefined : fromMinor(maxAmountMinor) }
+}
+
+/** Latest period first, then by department and category */
+function compareBudgets(a: Budget, b: Budget): number {
+  return b.periodStart.localeCompare(a.periodStart)
+    || a.department.localeCompare(b.department)
+    || (a.category ?? '').localeCompare(b.category ?? '')
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      const tx = request.transaction
+      const oldVersion = event.oldVersion
+
+      for (const migration of MIGRATIONS) {
+        if (migration.version > oldVersion && migration.version <= DB_VERSION) {
+          migration.migrate(db, tx)
+        }
+      }
+    }
+
+    request.onsuccess = () => {
+      const db = request.result
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => db.close()
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => reject(new Error('Expense database upgrade blocked by another open tab'))
+  })
+}
+
+// =============================================================================
+// IndexedDB Implementation
+// =============================================================================
+
+export class IndexedDBExpenseRepository implements ExpenseRepository {
+  private dbPromise: Promise<IDBDatabase> | null = null
+  private auditAppend: Promise<unknown> = Promise.resolve()
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase().catch((error) => {
+        this.dbPromise = null
+        throw error
+      })
+    }
+    return this.dbPromise
+  }
+
+  async listExpenses(): Promise<ExpenseRecord[]> {
+    const db = await this.db()
+    const tx = db.transaction([STORES.EXPENSES, STORES.VALIDATION_RESULTS], 'readonly')
+    const [expenses, validations] = await Promise.all([
+      requestToPromise<StoredExpense[]>(tx.objectStore(STORES.EXPENSES).getAll()),
+      requestToPromise<StoredValidation[]>(tx.objectStore(STORES.VALIDATION_RESULTS).getAll()),
+    ])
+
+    const validationById = new Map(validations.map(v => [v.expenseId, v]))
+    return expenses
+      .map(exp => withValidation(exp, validationById.get(exp.id)))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  async getExpense(id: string): Promise<ExpenseRecord | null> {
+    const db = await this.db()
+    const tx = db.transaction([STORES.EXPENSES, STORES.VALIDATION_RESULTS], 'readonly')
+    const [expense, validation] = await Promise.all([
+      requestToPromise<StoredExpense | undefined>(tx.objectStore(STORES.EXPENSES).get(id)),
+      requestToPromise<StoredValidation | undefined>(tx.objectStore(STORES.VALIDATION_RESULTS).get(id)),
+    ])
+    if (!expense) return null
+    return withValidation(expense, validation)
+  }
+
+  async createExpense(expense: ExpenseRecord, receipt?: File | Blob | null): Promise<void> {
+    return this.writeExpense(expense, receipt, 'add')
+  }
+
+  async saveExpense(expense: ExpenseRecord, receipt?: File | Blob | null): Promise<void> {
+    return this.writeExpense(expense, receipt, 'put')
+  }
+
+  // `add` fails the transaction with a ConstraintError when the id is taken
+  private async writeExpense(expense: ExpenseRecord, receipt: File | Blob | null | undefined, mode: 'add' | 'put'): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction([STORES.EXPENSES, STORES.VALIDATION_RESULTS, STORES.RECEIPTS], 'readwrite')
+
+    tx.objectStore(STORES.EXPENSES)[mode](toStoredExpense(expense))
+    if (expense.validationResult) {
+      const validation: StoredValidation = {
+        expenseId: expense.id,
+        result: expense.validationResult,
+        details: expense.validationDetails,
+      }
+      tx.objectStore(STORES.VALIDATION_RESULTS).put(validation)
+    }
+    if (receipt) {
+      const stored: StoredReceipt = {
+        expenseId: expense.id,
+        blob: receipt,
+        fileName: receipt instanceof File ? receipt.name : expense.receipt?.fileName || 'receipt',
+        mimeType: receipt.type,
+        storedAt: new Date().toISOString(),
+      }
+      tx.objectStore(STORES.RECEIPTS).put(stored)
+    }
+
+    await transactionDone(tx)
+  }
+
+  async modifyExpense(
+    id: string,
+    modify: (current: ExpenseRecord) => Partial<ExpenseRecord> | null
+  ): Promise<ExpenseRecord | null> {
+    const db = await this.db()
+    const tx = db.transaction([STORES.EXPENSES, STORES.VALIDATION_RESULTS], 'readwrite')
+    const [stored, validation] = await Promise.all([
+      requestToPromise<StoredExpense | undefined>(tx.objectStore(STORES.EXPENSES).get(id)),
+      requestToPromise<StoredValidation | undefined>(tx.objectStore(STORES.VALIDATION_RESULTS).get(id)),
+    ])
+    const current = stored ? withValidation(stored, validation) : null
+    let changes: Partial<ExpenseRecord> | null
+    try {
+      changes = current ? modify(current) : null
+    } catch (error) {
+      tx.abort()
+      throw error
+    }
+    if (!current || !changes) {
+      await transactionDone(tx)
+      return null
+    }
+
+    const updated: ExpenseRecord = { ...current, ...changes, id, updatedAt: new Date().toISOString() }
+    tx.objectStore(STORES.EXPENSES).put(toStoredExpense(updated))
+    await transactionDone(tx)
+    return updated
+  }
+
+  async deleteExpense(id: string): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction(
+      [STORES.EXPENSES, STORES.VALIDATION_RESULTS, STORES.APPROVAL_RESULTS, STORES.RECEIPTS, STORES.ATTACHMENTS],
+      'readwrite'
+    )
+
+    tx.objectStore(STORES.EXPENSES).delete(id)
+    tx.objectStore(STORES.VALIDATION_RESULTS).delete(id)
+    tx.objectStore(STORES.RECEIPTS).delete(id)
+
+    const approvals = tx.objectStore(STORES.APPROVAL_RESULTS)
+    const keys = await requestToPromise(approvals.index('expenseId').getAllKeys(id))
+    keys.forEach(key => approvals.delete(key))
+
+    const attachments = tx.objectStore(STORES.ATTACHMENTS)
+    const attachmentKeys = await requestToPromise(attachments.index('expenseId').getAllKeys(id))
+    attachmentKeys.forEach(key => attachments.delete(key))
+
+    await transactionDone(tx)
+  }
+
+  async saveValidationResult(expenseId: string, result: ValidationResult, details?: ValidationDetails): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.VALIDATION_RESULTS, 'readwrite')
+    const validation: StoredValidation = { expenseId, result, details }
+    tx.objectStore(STORES.VALIDATION_RESULTS).put(validation)
+    await transactionDone(tx)
+  }
+
+  async getValidationResult(expenseId: string): Promise<ValidationResult | null> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.VALIDATION_RESULTS, 'readonly')
+    const stored = await requestToPromise<StoredValidation | undefined>(
+      tx.objectStore(STORES.VALIDATION_RESULTS).get(expenseId)
+    )
+    return stored?.result ?? null
+  }
+
+  async saveApprovalResult(expenseId: string, result: ApprovalResult): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.APPROVAL_RESULTS, 'readwrite')
+    const stored: StoredApprovalResult = { expenseId, result, recordedAt: new Date().toISOString() }
+    tx.objectStore(STORES.APPROVAL_RESULTS).add(stored)
+    await transactionDone(tx)
+  }
+
+  async listApprovalResults(expenseId: string): Promise<StoredApprovalResult[]> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.APPROVAL_RESULTS, 'readonly')
+    return requestToPromise<StoredApprovalResult[]>(
+      tx.objectStore(STORES.APPROVAL_RESULTS).index('expenseId').getAll(expenseId)
+    )
+  }
+
+  async getReceipt(expenseId: string): Promise<StoredReceipt | null> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.RECEIPTS, 'readonly')
+    const stored = await requestToPromise<StoredReceipt | undefined>(tx.objectStore(STORES.RECEIPTS).get(expenseId))
+    return stored ?? null
+  }
+
+  async appendAuditEvent(event: AuditEvent): Promise<AuditEvent> {
+    // Appends from this tab run one at a time so each links to the one before
+    const append = this.auditAppend.then(() => this.sealAndAdd(event))
+    this.auditAppend = append.catch(() => undefined)
+    return append
+  }
+
+  private async sealAndAdd(event: AuditEvent, attempt = 1): Promise<AuditEvent> {
+    const db = await this.db()
+    // Hashing is async, so reading the head and adding happen in separate
+    // transactions. `add` rejects a taken sequence number, which means another
+    // tab appended in between; re-read the head and try again.
+    const readTx = db.transaction(STORES.AUDIT_EVENTS, 'readonly')
+    const cursor = await requestToPromise<IDBCursorWithValue | null>(
+      readTx.objectStore(STORES.AUDIT_EVENTS).openCursor(null, 'prev')
+    )
+    const sealed = await sealAuditEvent(event, (cursor?.value as AuditEvent | undefined) ?? null)
+
+    try {
+      const tx = db.transaction(STORES.AUDIT_EVENTS, 'readwrite')
+      tx.objectStore(STORES.AUDIT_EVENTS).add(sealed)
+      await transactionDone(tx)
+      return sealed
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'ConstraintError' && attempt < MAX_AUDIT_APPEND_ATTEMPTS) {
+        return this.sealAndAdd(event, attempt + 1)
+      }
+      throw error
+    }
+  }
+
+  async listAuditEvents(expenseId?: string): Promise<AuditEvent[]> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.AUDIT_EVENTS, 'readonly')
+    const store = tx.objectStore(STORES.AUDIT_EVENTS)
+    // Auto-increment keys keep events in append order
+    return requestToPromise<AuditEvent[]>(
+      expenseId ? store.index('expenseId').getAll(expenseId) : store.getAll()
+    )
+  }
+
+  async createDelegation(delegation: ApprovalDelegation): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.DELEGATIONS, 'readwrite')
+    tx.objectStore(STORES.DELEGATIONS).add(toStoredDelegation(delegation))
+    await transactionDone(tx)
+  }
+
+  async saveDelegation(delegation: ApprovalDelegation): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.DELEGATIONS, 'readwrite')
+    tx.objectStore(STORES.DELEGATIONS).put(toStoredDelegation(delegation))
+    await transactionDone(tx)
+  }
+
+  async listDelegations(): Promise<ApprovalDelegation[]> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.DELEGATIONS, 'readonly')
+    const delegations = await requestToPromise<StoredDelegation[]>(tx.objectStore(STORES.DELEGATIONS).getAll())
+    return delegations.map(fromStoredDelegation).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  async addNotification(notification: UserNotification): Promise<UserNotification> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.NOTIFICATIONS, 'readwrite')
+    const { id: _ignored, ...record } = notification
+    const id = await requestToPromise<IDBValidKey>(tx.objectStore(STORES.NOTIFICATIONS).add(record))
+    await transactionDone(tx)
+    return { ...record, id: id as number }
+  }
+
+  async listNotifications(userId: string): Promise<UserNotification[]> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.NOTIFICATIONS, 'readonly')
+    const notifications = await requestToPromise<UserNotification[]>(
+      tx.objectStore(STORES.NOTIFICATIONS).index('userId').getAll(userId)
+    )
+    return notifications.reverse()
+  }
+
+  async markNotificationRead(id: number): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.NOTIFICATIONS, 'readwrite')
+    const store = tx.objectStore(STORES.NOTIFICATIONS)
+    const notification = await requestToPromise<UserNotification | undefined>(store.get(id))
+    if (notification && !notification.readAt) {
+      store.put({ ...notification, readAt: new Date().toISOString() })
+    }
+    await transactionDone(tx)
+  }
+
+  async saveAttachment(attachment: StoredAttachment): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.ATTACHMENTS, 'readwrite')
+    tx.objectStore(STORES.ATTACHMENTS).put(attachment)
+    await transactionDone(tx)
+  }
+
+  async getAttachment(id: string): Promise<StoredAttachment | null> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.ATTACHMENTS, 'readonly')
+    const stored = await requestToPromise<StoredAttachment | undefined>(tx.objectStore(STORES.ATTACHMENTS).get(id))
+    return stored ?? null
+  }
+
+  async createBudget(budget: Budget): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.BUDGETS, 'readwrite')
+    tx.objectStore(STORES.BUDGETS).add(toStoredBudget(budget))
+    await transactionDone(tx)
+  }
+
+  async saveBudget(budget: Budget): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.BUDGETS, 'readwrite')
+    tx.objectStore(STORES.BUDGETS).put(toStoredBudget(budget))
+    await transactionDone(tx)
+  }
+
+  async deleteBudget(id: string): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.BUDGETS, 'readwrite')
+    tx.objectStore(STORES.BUDGETS).delete(id)
+    await transactionDone(tx)
+  }
+
+  async listBudgets(): Promise<Budget[]> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.BUDGETS, 'readonly')
+    const budgets = await requestToPromise<StoredBudget[]>(tx.objectStore(STORES.BUDGETS).getAll())
+    return budgets.map(fromStoredBudget).sort(compareBudgets)
+  }
+
+  async saveFxRates(rates: FxRate[]): Promise<void> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.FX_RATES, 'readwrite')
+    const store = tx.objectStore(STORES.FX_RATES)
+    for (const rate of rates) store.put(rate)
+    await transactionDone(tx)
+  }
+
+  async listFxRates(): Promise<FxRate[]> {
+    const db = await this.db()
+    const tx = db.transaction(STORES.FX_RATES, 'readonly')
+    return requestToPromise<FxRate[]>(tx.objectStore(STORES.FX_RATES).getAll())
+  }
+}
+
+// =============================================================================
+// In-Memory Implementation
+// =============================================================================
+
+/**
+ * Non-persistent fallback (private browsing modes without IndexedDB)
+ */
+export class InMemoryExpenseRepository implements ExpenseRepository {
+  private expenses = new Map<string, StoredExpense>()
+  private validations = new Map<string, StoredValidation>()
+  private approvals: StoredApprovalResult[] = []
+  private receipts = new Map<string, StoredReceipt>()
+  private auditEvents: AuditEvent[] = []
+  private auditAppend: Promise<unknown> = Promise.resolve()
+  private delegations = new Map<string, StoredDelegation>()
+  private notifications: UserNotification[] = []
+  private attachments = new Map<string, StoredAttachment>()
+  private budgets = new Map<string, StoredBudget>()
+  private fxRates = new Map<string, FxRate>()
+
+  async listExpenses(): Promise<ExpenseRecord[]> {
+    return [...this.expenses.values()]
+      .map(exp => withValidation(exp, this.validations.get(exp.id)))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  async getExpense(id: string): Promise<ExpenseRecord | null> {
+    const expense = this.expenses.get(id)
+    return expense ? withValidation(expense, this.validations.get(id)) : null
+  }
+
+  async createExpense(expense: ExpenseRecord, receipt?: File | Blob | null): Promise<void> {
+    if (this.expenses.has(expense.id)) throw new Error(`Expense ${expense.id} already exists`)
+    return this.saveExpense(expense, receipt)
+  }
+
+  async saveExpense(expense: ExpenseRecord, receipt?: File | Blob | null): Promise<void> {
+    this.expenses.set(expense.id, toStoredExpense(expense))
+    if (expense.validationResult) {
+      this.validations.set(expense.id, {
+        expenseId: expense.id,
+        result: expense.validationResult,
+        details: expense.validationDetails,
+      })
+    }
+    if (receipt) {
+      this.receipts.set(expense.id, {
+        expenseId: expense.id,
+        blob: receipt,
+        fileName: receipt instanceof File ? receipt.name : expense.receipt?.fileName || 'receipt',
+        mimeType: receipt.type,
+        storedAt: new Date().toISOString(),
+      })
+    }
+  }
+
+  async modifyExpense(
+    id: string,
+    modify: (current: ExpenseRecord) => Partial<ExpenseRecord> | null
+  ): Promise<ExpenseRecord | null> {
+    const stored = this.expenses.get(id)
+    const current = stored ? withValidation(stored, this.validations.get(id)) : null
+    const changes = current ? modify(current) : null
+    if (!current || !changes) return null
+
+    const updated: ExpenseRecord = { ...current, ...changes, id, updatedAt: new Date().toISOString() }
+    this.expenses.set(id, toStoredExpense(updated))
+    return updated
+  }
+
+  async deleteExpense(id: string): Promise<void> {
+    this.expenses.delete(id)
+    this.validations.delete(id)
+    this.receipts.delete(id)
+    this.approvals = this.approvals.filter(a => a.expenseId !== id)
+    this.attachments.forEach((attachment, key) => {
+      if (attachment.expenseId === id) this.attachments.delete(key)
+    })
+  }
+
+  async saveValidationResult(expenseId: string, result: ValidationResult, details?: ValidationDetails): Promise<void> {
+    this.validations.set(expenseId, { expenseId, result, details })
+  }
+
+  async getValidationResult(expenseId: string): Promise<ValidationResult | null> {
+    return this.validations.get(expenseId)?.result ?? null
+  }
+
+  async saveApprovalResult(expenseId: string, result: ApprovalResult): Promise<void> {
+    this.approvals.push({ id: this.approvals.length + 1, expenseId, result, recordedAt: new Date().toISOString() })
+  }
+
+  async listApprovalResults(expenseId: string): Promise<StoredApprovalResult[]> {
+    return this.approvals.filter(a => a.expenseId === expenseId)
+  }
+
+  async getReceipt(expenseId: string): Promise<StoredReceipt | null> {
+    return this.receipts.get(expenseId) ?? null
+  }
+
+  async appendAuditEvent(event: AuditEvent): Promise<AuditEvent> {
+    const append = this.auditAppend.then(async () => {
+      const stored = await sealAuditEvent(event, this.auditEvents[this.auditEvents.length - 1] ?? null)
+      this.auditEvents.push(stored)
+      return stored
+    })
+    this.auditAppend = append.catch(() => undefined)
+    return append
+  }
+
+  async listAuditEvents(expenseId?: string): Promise<AuditEvent[]> {
+    return expenseId ? this.auditEvents.filter(e => e.expenseId === expenseId) : [...this.auditEvents]
+  }
+
+  async createDelegation(delegation: ApprovalDelegation): Promise<void> {
+    if (this.delegations.has(delegation.id)) throw new Error(`Delegation ${delegation.id} already exists`)
+    return this.saveDelegation(delegation)
+  }
+
+  async saveDelegation(delegation: ApprovalDelegation): Promise<void> {
+    this.delegations.set(delegation.id, toStoredDelegation(delegation))
+  }
+
+  async listDelegations(): Promise<ApprovalDelegation[]> {
+    return [...this.delegations.values()].map(fromStoredDelegation).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  async addNotification(notification: UserNotification): Promise<UserNotification> {
+    const stored = { ...notification, id: this.notifications.length + 1 }
+    this.notifications.push(stored)
+    return stored
+  }
+
+  async listNotifications(userId: string): Promise<UserNotification[]> {
+    return this.notifications.filter(n => n.userId === userId).reverse()
+  }
+
+  async markNotificationRead(id: number): Promise<void> {
+    this.notifications = this.notifications.map(n =>
+      n.id === id && !n.readAt ? { ...n, readAt: new Date().toISOString() } : n
+    )
+  }
+
+  async saveAttachment(attachment: StoredAttachment): Promise<void> {
+    this.attachments.set(attachment.id, attachment)
+  }
+
+  async getAttachment(id: string): Promise<StoredAttachment | null> {
+    return this.attachments.get(id) ?? null
+  }
+
+  async createBudget(budget: Budget): Promise<void> {
+    if (this.budgets.has(budget.id)) throw new Error(`Budget ${budget.id} already exists`)
+    return this.saveBudget(budget)
+  }
+
+  async saveBudget(budget: Budget): Promise<void> {
+    this.budgets.set(budget.id, toStoredBudget(budget))
+  }
+
+  async deleteBudget(id: string): Promise<void> {
+    this.budgets.delete(id)
+  }
+
+  async listBudgets(): Promise<Budget[]> {
+    return [...this.budgets.values()].map(fromStoredBudget).sort(compareBudgets)
+  }
+
+  async saveFxRates(rates: FxRate[]): Promise<void> {
+    for (const rate of rates) this.fxRates.set(`${rate.currency}:${rate.effectiveDate}`, rate)
+  }
+
+  async listFxRates(): Promise<FxRate[]> {
+    return [...this.fxRates.values()]
+  }
+}
+
+// =============================================================================
+// Default Instance
+// =============================================================================
+
+export function createExpenseRepository(): ExpenseRepository {
+  if (typeof indexedDB === 'undefined') {
+    console.warn('[ExpenseRepository] IndexedDB unavailable, expenses will not persist')
+    return new InMemoryExpenseRepository()
+  }
+  return new IndexedDBExpenseRepository()
+}
+
+export const expenseRepository = createExpenseRepository()
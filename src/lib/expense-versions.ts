@@ -0,0 +1,101 @@
+/**
+ * Expense Versions
+ *
+ * Rejected and needs-info expenses can be edited and resubmitted under the
+ * same id. Each resubmission freezes the previous submission, including its
+ * validation and approval results, into `ExpenseRecord.versions`, so
+ * reviewers can compare any two versions field by field.
+ */
+
+import { formatTransactionTimestamp, getTransactionTimestamp } from '@/lib/calendar-date'
+import { describeAmount } from '@/lib/currency'
+import type { ApprovalResult, ExpenseRecord, ExpenseStatus, ExpenseVersion } from '@/types/expense'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type VersionedField = 'vendor' | 'amount' | 'date' | 'category' | 'receipt'
+
+export interface FieldChange {
+  field: VersionedField
+  label: string
+  before: string
+  after: string
+}
+
+/** Fields an employee can change on resubmission, in display order */
+const VERSIONED_FIELDS: Array<{ field: VersionedField; label: string; format: (v: VersionSnapshot) => string }> = [
+  { field: 'vendor', label: 'Vendor', format: v => v.vendor },
+  { field: 'amount', label: 'Amount', format: describeAmount },
+  { field: 'date', label: 'Date', format: v => formatTransactionTimestamp(getTransactionTimestamp(v)) },
+  { field: 'category', label: 'Category', format: v => v.category },
+  { field: 'receipt', label: 'Receipt', format: v => v.receipt?.fileName ?? 'None' },
+]
+
+type VersionSnapshot = Pick<ExpenseVersion, 'vendor' | 'amount' | 'currency' | 'originalAmount' | 'date' | 'transactionTime' | 'timeZone' | 'category' | 'receipt'>
+
+// =============================================================================
+// Versions
+// =============================================================================
+
+const RESUBMITTABLE_STATUSES: ExpenseStatus[] = ['rejected', 'needs_info']
+
+export function canResubmit(expense: ExpenseRecord): boolean {
+  return RESUBMITTABLE_STATUSES.includes(expense.status)
+}
+
+export function getVersionNumber(expense: ExpenseRecord): number {
+  return expense.version ?? 1
+}
+
+/**
+ * Freeze the expense as it stands, ready to be pushed onto `versions`
+ */
+export function snapshotVersion(
+  expense: ExpenseRecord,
+  approvalResults: ApprovalResult[],
+  supersededAt: string = new Date().toISOString()
+): ExpenseVersion {
+  return {
+    version: getVersionNumber(expense),
+    vendor: expense.vendor,
+    amount: expense.amount,
+    currency: expense.currency,
+    originalAmount: expense.originalAmount,
+    fxRate: expense.fxRate,
+    fxRateDate: expense.fxRateDate,
+    date: expense.date,
+    transactionTime: expense.transactionTime,
+    timeZone: expense.timeZone,
+    category: expense.category,
+    status: expense.status,
+    riskScore: expense.riskScore,
+    receipt: expense.receipt,
+    validationResult: expense.validationResult,
+    validationMeta: expense.validationMeta,
+    validationDetails: expense.validationDetails,
+    approvalChain: expense.approvalChain,
+    approvalResults: approvalResults.length > 0 ? approvalResults : undefined,
+    submittedAt: expense.submittedAt ?? expense.createdAt,
+    supersededAt,
+  }
+}
+
+/**
+ * Every version of the expense, oldest first, with the current one last
+ */
+export function listVersions(expense: ExpenseRecord): ExpenseVersion[] {
+  const { supersededAt: _current, ...current } = snapshotVersion(expense, [])
+  return [...(expense.versions ?? []), current]
+}
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+export function diffVersions(before: VersionSnapshot, after: VersionSnapshot): FieldChange[] {
+  return VERSIONED_FIELDS
+    .map(({ field, label, format }) => ({ field, label, before: format(before), after: format(after) }))
+    .filter(change => change.before !== change.after)
+}
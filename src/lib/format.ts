@@ -0,0 +1,31 @@
+/**
+ * Display formatting for amounts, dates and durations
+ */
+
+import { calendarDateOf, formatCalendarDate, isCalendarDate } from '@/lib/calendar-date'
+import { HOME_CURRENCY } from '@/lib/currency'
+import { formatMoney, toMoney } from '@/lib/money'
+
+/** A stored decimal amount, rounded to the currency's minor unit */
+export function formatCurrency(amount: number, currency = HOME_CURRENCY): string {
+  return formatMoney(toMoney(amount, currency))
+}
+
+/** A calendar date (YYYY-MM-DD) as written, or the local date of a timestamp */
+export function formatDate(dateStr: string): string {
+  return formatCalendarDate(isCalendarDate(dateStr) ? dateStr : calendarDateOf(dateStr))
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+/** Turnaround times: hours under a day, days beyond */
+export function formatElapsed(ms: number): string {
+  const hours = ms / (60 * 60 * 1000)
+  return hours < 24 ? `${hours.toFixed(1)}h` : `${(hours / 24).toFixed(1)}d`
+}
+
+export function formatPercent(ratio: number): string {
+  return `${(ratio * 100).toFixed(0)}%`
+}
@@ -0,0 +1,74 @@
+/**
+ * Meal Timing
+ *
+ * Business meals bought on a weekend or late at night need a closer look.
+ * Both checks read the receipt's own date and wall-clock time in the zone
+ * the meal was bought in, never the reviewer's, so a Friday 11 PM dinner in
+ * Los Angeles is not mistaken for a Saturday one. The flags are passed to
+ * the validation agents as context and shown to reviewers; neither rejects
+ * an expense on its own.
+ *
+ * @example
+ * ```tsx
+ * const flags = getMealTimingFlags(expense)
+ * flags.map(flag => flag.label) // ["Weekend meal", "Late-night meal"]
+ * ```
+ */
+
+import { getDayOfWeek, getTransactionTimestamp, isCalendarDate, isWeekend } from '@/lib/calendar-date'
+import type { ExpenseRecord } from '@/types/expense'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type MealTimingFlagId = 'weekend' | 'late_night'
+
+export interface MealTimingFlag {
+  id: MealTimingFlagId
+  label: string
+  description: string
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Categories the timing checks apply to */
+export const MEAL_CATEGORIES = ['Business Meal']
+
+/** Late night runs from LATE_NIGHT_START to LATE_NIGHT_END, wrapping past midnight */
+export const LATE_NIGHT_START = '22:00'
+export const LATE_NIGHT_END = '05:00'
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+export function isLateNight(time: string): boolean {
+  return time >= LATE_NIGHT_START || time < LATE_NIGHT_END
+}
+
+export function getWeekdayName(date: string): string {
+  return WEEKDAY_NAMES[getDayOfWeek(date)]
+}
+
+/**
+ * Timing flags for a meal expense, empty for other categories
+ */
+export function getMealTimingFlags(
+  expense: Pick<ExpenseRecord, 'category' | 'date' | 'transactionTime' | 'timeZone'>
+): MealTimingFlag[] {
+  if (!MEAL_CATEGORIES.includes(expense.category) || !isCalendarDate(expense.date)) return []
+  const { date, time, timeZone } = getTransactionTimestamp(expense)
+  const flags: MealTimingFlag[] = []
+  if (isWeekend(date)) {
+    flags.push({ id: 'weekend', label: 'Weekend meal', description: `Bought on a ${getWeekdayName(date)}` })
+  }
+  if (time && isLateNight(time)) {
+    flags.push({ id: 'late_night', label: 'Late-night meal', description: `Bought at ${time} (${timeZone})` })
+  }
+  return flags
+}
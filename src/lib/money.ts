@@ -0,0 +1,188 @@
+/**
+ * Money
+ *
+ * Exact amounts held as an integer count of the currency's minor unit
+ * (cents, pence, fils) so that parsing, sums and conversions never pick up
+ * floating-point drift. Each currency's number of decimal places follows
+ * ISO 4217: JPY has none, KWD has three, most have two. The repository
+ * stores amounts as minor units and hands records out with decimal amounts;
+ * convert at the edges with `toMoney` and `toAmount`, and do all arithmetic
+ * on `Money`.
+ *
+ * @example
+ * ```tsx
+ * const total = sumMoney([parseMoney('19.99', 'USD'), toMoney(0.01, 'USD')], 'USD')
+ * formatMoney(total)      // "$20.00"
+ * toDecimalString(total)  // "20.00"
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface Money {
+  /** Whole number of the currency's minor unit, e.g. 1999 for $19.99 */
+  minor: number
+  /** ISO 4217 code */
+  currency: string
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** ISO 4217 decimal places for the currencies that do not use two */
+const MINOR_UNIT_EXCEPTIONS: Record<string, number> = {
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0,
+  PYG: 0, RWF: 0, UGX: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+}
+
+const MONEY_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/
+
+/** Decimal places the currency's amounts are kept to */
+export function getMinorUnits(currency: string): number {
+  return MINOR_UNIT_EXCEPTIONS[currency] ?? 2
+}
+
+// =============================================================================
+// Rounding
+// =============================================================================
+
+/**
+ * Round to a whole number with halves going away from zero (2.5 → 3,
+ * -2.5 → -3). The value is first cut to 15 significant digits so float
+ * products such as 1.005 * 100 = 100.49999999999999 round as written.
+ */
+export function roundHalfAwayFromZero(value: number): number {
+  const trimmed = Number(value.toPrecision(15))
+  const rounded = Math.round(Math.abs(trimmed))
+  return trimmed < 0 && rounded !== 0 ? -rounded : rounded
+}
+
+// =============================================================================
+// Construction
+// =============================================================================
+
+export function money(minor: number, currency: string): Money {
+  if (!Number.isSafeInteger(minor)) {
+    throw new RangeError(`${minor} is not a whole number of ${currency} minor units`)
+  }
+  return { minor, currency }
+}
+
+export function zeroMoney(currency: string): Money {
+  return money(0, currency)
+}
+
+/** A decimal amount, rounded to the currency's minor unit */
+export function toMoney(amount: number, currency: string): Money {
+  return money(roundHalfAwayFromZero(amount * 10 ** getMinorUnits(currency)), currency)
+}
+
+/** Back to a decimal amount, for storage and charts */
+export function toAmount(value: Money): number {
+  return value.minor / 10 ** getMinorUnits(value.currency)
+}
+
+/**
+ * Parse a typed or exported amount such as "1,234.5" without going through
+ * a float. Digits past the currency's minor unit round half away from zero.
+ * Null when the text is not a number.
+ */
+export function parseMoney(input: string, currency: string): Money | null {
+  const match = MONEY_PATTERN.exec(input.trim().replace(/,/g, ''))
+  if (!match || (!match[2] && !match[3])) return null
+
+  const [, sign, whole, fraction = ''] = match
+  const digits = getMinorUnits(currency)
+  let minor = Number(whole) * 10 ** digits + Number(fraction.slice(0, digits).padEnd(digits, '0'))
+  if (fraction.length > digits && fraction[digits] >= '5') minor += 1
+  if (!Number.isSafeInteger(minor)) return null
+  return money(sign === '-' && minor !== 0 ? -minor : minor, currency)
+}
+
+// =============================================================================
+// Arithmetic
+// =============================================================================
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`)
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b)
+  return money(a.minor + b.minor, a.currency)
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b)
+  return money(a.minor - b.minor, a.currency)
+}
+
+export function sumMoney(values: Money[], currency: string): Money {
+  return values.reduce(addMoney, zeroMoney(currency))
+}
+
+/** Scale by a factor such as a share or a multiplier, rounding once */
+export function multiplyMoney(value: Money, factor: number): Money {
+  return money(roundHalfAwayFromZero(value.minor * factor), value.currency)
+}
+
+/**
+ * Convert at `rate` units of `currency` per unit of the value's currency,
+ * rounding once to the target currency's minor unit
+ */
+export function convertMoney(value: Money, rate: number, currency: string): Money {
+  const shift = 10 ** (getMinorUnits(currency) - getMinorUnits(value.currency))
+  return money(roundHalfAwayFromZero(value.minor * rate * shift), currency)
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+/** Negative, zero or positive as `a` is less than, equal to or greater than `b` */
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b)
+  return Math.sign(a.minor - b.minor)
+}
+
+/** a / b as a plain ratio, e.g. the share of a budget spent; 0 when b is zero */
+export function moneyRatio(a: Money, b: Money): number {
+  assertSameCurrency(a, b)
+  return b.minor === 0 ? 0 : a.minor / b.minor
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Plain decimal with exactly the currency's decimal places and no grouping,
+ * e.g. "1234.50" or "5000", for CSV exports, form fields and prompts
+ */
+export function toDecimalString(value: Money): string {
+  const digits = getMinorUnits(value.currency)
+  const sign = value.minor < 0 ? '-' : ''
+  const abs = String(Math.abs(value.minor)).padStart(digits + 1, '0')
+  return digits === 0 ? `${sign}${abs}` : `${sign}${abs.slice(0, -digits)}.${abs.slice(-digits)}`
+}
+
+export function formatMoney(value: Money): string {
+  const digits = getMinorUnits(value.currency)
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: value.currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits
+    }).format(toAmount(value))
+  } catch {
+    // Unknown code, e.g. one misread off a receipt
+    return `${value.currency} ${toDecimalString(value)}`
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Role Permissions
+ *
+ * What each role may see and do. Views, actions and route guards all check
+ * `hasPermission` rather than comparing roles directly.
+ */
+
+import type { User, UserRole } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type Permission =
+  | 'expense:submit'      // Submit expenses of one's own
+  | 'expense:view_own'    // See one's own expenses
+  | 'expense:view_all'    // See everyone's expenses
+  | 'review:view'         // Open the review queue
+  | 'review:decide'       // Approve or reject expenses
+  | 'audit:view'          // Open the audit log
+  | 'analytics:view'      // Open the spend analytics dashboard
+  | 'budgets:manage'      // Create and delete department budgets
+  | 'users:manage'        // Administer users and settings
+
+// =============================================================================
+// Role Mapping
+// =============================================================================
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  employee: ['expense:submit', 'expense:view_own'],
+  manager: ['expense:submit', 'expense:view_own', 'review:view', 'review:decide'],
+  finance: [
+    'expense:submit',
+    'expense:view_own',
+    'expense:view_all',
+    'review:view',
+    'review:decide',
+    'audit:view',
+    'analytics:view',
+    'budgets:manage'
+  ],
+  auditor: ['expense:view_own', 'expense:view_all', 'review:view', 'audit:view', 'analytics:view'],
+  admin: [
+    'expense:submit',
+    'expense:view_own',
+    'expense:view_all',
+    'review:view',
+    'review:decide',
+    'audit:view',
+    'analytics:view',
+    'budgets:manage',
+    'users:manage'
+  ],
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  employee: 'Employee',
+  manager: 'Manager',
+  finance: 'Finance',
+  auditor: 'Auditor',
+  admin: 'Admin',
+}
+
+// =============================================================================
+// Checks
+// =============================================================================
+
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+  if (!user) return false
+  return ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false
+}
+
+/**
+ * Whether an expense belongs to the user. Records created before user accounts
+ * only carry the employee's name.
+ */
+export function isOwnExpense(user: User | null | undefined, expense: { employeeId?: string; employee: string }): boolean {
+  if (!user) return false
+  return expense.employeeId ? expense.employeeId === user.id : expense.employee === user.name
+}
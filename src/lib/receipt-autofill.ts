@@ -0,0 +1,122 @@
+/**
+ * Receipt Auto-fill
+ *
+ * Maps a Receipt Extraction result onto the expense submission form: the
+ * values to pre-fill, how confident the agent was, and which fields it could
+ * not find on the receipt.
+ */
+
+import { isCalendarDate, parseTimeOfDay } from '@/lib/calendar-date'
+import { HOME_CURRENCY, isSupportedCurrency } from '@/lib/currency'
+import { toDecimalString, toMoney } from '@/lib/money'
+import { EXPENSE_CATEGORIES, type ExpenseCategory, type ReceiptData } from '@/types/expense'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AutofillField = 'vendor' | 'amount' | 'currency' | 'date' | 'time' | 'category'
+
+export interface AutofillFieldState {
+  /** Agent's extraction_confidence for the receipt, 0-1 */
+  confidence: number
+  /** The agent listed this field in missing_fields */
+  missing: boolean
+  /** Category is inferred rather than read off the receipt */
+  suggested?: boolean
+}
+
+export interface ReceiptAutofill {
+  values: Partial<Record<AutofillField, string>>
+  fields: Partial<Record<AutofillField, AutofillFieldState>>
+}
+
+// =============================================================================
+// Category Suggestion
+// =============================================================================
+
+const CATEGORY_KEYWORDS: Array<{ category: ExpenseCategory; keywords: string[] }> = [
+  { category: 'Travel', keywords: ['airline', 'airways', 'flight', 'hotel', 'inn', 'uber', 'lyft', 'taxi', 'rail', 'train', 'parking', 'fuel', 'rental'] },
+  { category: 'Office Supplies', keywords: ['staples', 'office depot', 'paper', 'toner', 'ink', 'pens', 'stationery'] },
+  { category: 'Home Office Equipment', keywords: ['monitor', 'keyboard', 'mouse', 'chair', 'desk', 'webcam', 'headset', 'laptop', 'best buy'] },
+  { category: 'Client Entertainment', keywords: ['theater', 'theatre', 'tickets', 'golf', 'concert', 'bar', 'lounge'] },
+  { category: 'Business Meal', keywords: ['restaurant', 'cafe', 'coffee', 'bistro', 'grill', 'kitchen', 'pizza', 'lunch', 'dinner', 'breakfast', 'starbucks'] },
+]
+
+function isExpenseCategory(value: string | undefined): value is ExpenseCategory {
+  return !!value && (EXPENSE_CATEGORIES as readonly string[]).includes(value)
+}
+
+/**
+ * Category for a receipt: the agent's suggestion if it gave a valid one,
+ * otherwise the first keyword match on vendor and line items.
+ */
+export function suggestCategory(receipt: ReceiptData): ExpenseCategory | null {
+  if (isExpenseCategory(receipt.suggested_category)) {
+    return receipt.suggested_category
+  }
+
+  const haystack = [receipt.vendor_name, ...receipt.line_items.map(item => item.item_name)]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+
+  const match = CATEGORY_KEYWORDS.find(({ keywords }) => keywords.some(k => haystack.includes(k)))
+  return match?.category ?? null
+}
+
+// =============================================================================
+// Form Mapping
+// =============================================================================
+
+const RECEIPT_FIELD_NAMES: Record<Exclude<AutofillField, 'category'>, string> = {
+  vendor: 'vendor_name',
+  amount: 'total_amount',
+  currency: 'currency',
+  date: 'transaction_date',
+  time: 'transaction_time',
+}
+
+/**
+ * Build form values and per-field highlight state from an extraction result
+ */
+export function buildReceiptAutofill(receipt: ReceiptData): ReceiptAutofill {
+  const confidence = receipt.extraction_confidence ?? 0
+  const missing = new Set(receipt.missing_fields ?? [])
+  const values: ReceiptAutofill['values'] = {}
+  const fields: ReceiptAutofill['fields'] = {}
+  // The total is written to the currency's decimal places; unknown codes get the home currency's
+  const receiptCurrency = isSupportedCurrency(receipt.currency?.toUpperCase()) ? receipt.currency.toUpperCase() : HOME_CURRENCY
+  const transactionTime = parseTimeOfDay(receipt.transaction_time)
+
+  for (const [field, receiptField] of Object.entries(RECEIPT_FIELD_NAMES) as Array<[AutofillField, string]>) {
+    const isMissing = missing.has(receiptField)
+    fields[field] = { confidence, missing: isMissing }
+    if (isMissing) continue
+
+    if (field === 'vendor' && receipt.vendor_name) values.vendor = receipt.vendor_name
+    if (field === 'amount' && typeof receipt.total_amount === 'number') {
+      values.amount = toDecimalString(toMoney(receipt.total_amount, receiptCurrency))
+    }
+    if (field === 'currency' && isSupportedCurrency(receipt.currency?.toUpperCase())) values.currency = receiptCurrency
+    if (field === 'date' && isCalendarDate(receipt.transaction_date)) values.date = receipt.transaction_date
+    if (field === 'time' && transactionTime) values.time = transactionTime
+  }
+
+  const category = suggestCategory(receipt)
+  if (category) {
+    values.category = category
+    fields.category = { confidence, missing: false, suggested: true }
+  }
+
+  return { values, fields }
+}
+
+/**
+ * Confidence band used for field highlighting
+ */
+export function getConfidenceLevel(confidence: number): 'high' | 'medium' | 'low' {
+  if (confidence >= 0.85) return 'high'
+  if (confidence >= 0.6) return 'medium'
+  return 'low'
+}
@@ -0,0 +1,199 @@
+/**
+ * Review SLA
+ *
+ * Each approval step has a service level measured in business days
+ * (Monday–Friday). Steps that run past it are overdue and escalate to the
+ * next approval level: automatically when `escalation` is 'automatic', or
+ * when an approver escalates them by hand when it is 'manual'.
+ *
+ * @example
+ * ```tsx
+ * const sla = getReviewSla(expense)
+ * if (sla.state === 'overdue') { ... }
+ * ```
+ */
+
+import { APPROVAL_STEP_ORDER, getApprovalChain, getCurrentStepRole } from '@/lib/approval-chain'
+import type { ApprovalChain, ApprovalEscalation, ApprovalStepRole, ExpenseRecord } from '@/types/expense'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export interface ReviewSlaPolicy {
+  /** Business days allowed for each approval step */
+  businessDaysPerStep: number
+  /** Fraction of the SLA after which an item counts as due soon */
+  dueSoonRatio: number
+  escalation: 'automatic' | 'manual'
+}
+
+export const REVIEW_SLA_POLICY: ReviewSlaPolicy = {
+  businessDaysPerStep: 3,
+  dueSoonRatio: 2 / 3,
+  escalation: 'automatic',
+}
+
+/** Actor recorded for escalations made by the SLA monitor rather than a person */
+export const SLA_MONITOR_ACTOR = { id: 'system:sla-monitor', name: 'SLA Monitor' }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// =============================================================================
+// Business Days
+// =============================================================================
+
+function isWeekend(date: Date): boolean {
+  const day = date.getDay()
+  return day === 0 || day === 6
+}
+
+/**
+ * Elapsed time between two instants counting weekdays only, in (fractional) days
+ */
+export function businessDaysBetween(start: Date, end: Date): number {
+  if (end <= start) return 0
+
+  let total = 0
+  let cursor = new Date(start)
+  while (cursor < end) {
+    const nextMidnight = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1)
+    const segmentEnd = nextMidnight < end ? nextMidnight : end
+    if (!isWeekend(cursor)) {
+      total += (segmentEnd.getTime() - cursor.getTime()) / DAY_MS
+    }
+    cursor = segmentEnd
+  }
+  return total
+}
+
+/**
+ * The instant a number of business days after `start`
+ */
+export function addBusinessDays(start: Date, days: number): Date {
+  let remaining = days * DAY_MS
+  let cursor = new Date(start)
+  while (remaining > 0) {
+    const nextMidnight = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1)
+    if (isWeekend(cursor)) {
+      cursor = nextMidnight
+      continue
+    }
+    const available = nextMidnight.getTime() - cursor.getTime()
+    if (remaining <= available) {
+      return new Date(cursor.getTime() + remaining)
+    }
+    remaining -= available
+    cursor = nextMidnight
+  }
+  return cursor
+}
+
+// =============================================================================
+// SLA Status
+// =============================================================================
+
+export type ReviewSlaState = 'on_track' | 'due_soon' | 'overdue'
+
+export interface ReviewSla {
+  state: ReviewSlaState
+  /** Business days the current step has been waiting */
+  ageBusinessDays: number
+  dueAt: Date
+}
+
+function getStepStartedAt(expense: ExpenseRecord, chain: ApprovalChain): Date {
+  const lastSignature = chain.signatures[chain.signatures.length - 1]
+  return new Date(chain.stepStartedAt ?? lastSignature?.signedAt ?? expense.createdAt)
+}
+
+/**
+ * SLA status of the step an open expense is waiting on, or null when nothing is pending
+ */
+export function getReviewSla(
+  expense: ExpenseRecord,
+  now: Date = new Date(),
+  policy: ReviewSlaPolicy = REVIEW_SLA_POLICY
+): ReviewSla | null {
+  if (expense.status !== 'reviewing' && expense.status !== 'pending') return null
+  const chain = getApprovalChain(expense)
+  if (!getCurrentStepRole(chain)) return null
+
+  const startedAt = getStepStartedAt(expense, chain)
+  const ageBusinessDays = businessDaysBetween(startedAt, now)
+  const state: ReviewSlaState =
+    ageBusinessDays >= policy.businessDaysPerStep ? 'overdue' :
+    ageBusinessDays >= policy.businessDaysPerStep * policy.dueSoonRatio ? 'due_soon' : 'on_track'
+
+  return { state, ageBusinessDays, dueAt: addBusinessDays(startedAt, policy.businessDaysPerStep) }
+}
+
+// =============================================================================
+// Escalation
+// =============================================================================
+
+/**
+ * The approval level above a role, or null at the top of the hierarchy
+ */
+export function getEscalationTarget(role: ApprovalStepRole): ApprovalStepRole | null {
+  return APPROVAL_STEP_ORDER[APPROVAL_STEP_ORDER.indexOf(role) + 1] ?? null
+}
+
+export function canEscalate(expense: ExpenseRecord): boolean {
+  const role = getCurrentStepRole(getApprovalChain(expense))
+  return role !== null && getEscalationTarget(role) !== null && getReviewSla(expense) !== null
+}
+
+/**
+ * Whether two reads of an expense wait on the same step, started at the same
+ * time; a later read that differs was decided or escalated in between
+ */
+export function isSameReviewStep(a: ExpenseRecord, b: ExpenseRecord): boolean {
+  const chainA = getApprovalChain(a)
+  const chainB = getApprovalChain(b)
+  return a.status === b.status
+    && chainA.currentStep === chainB.currentStep
+    && getCurrentStepRole(chainA) === getCurrentStepRole(chainB)
+    && chainA.stepStartedAt === chainB.stepStartedAt
+}
+
+/**
+ * Hand the current step to the next approval level. If that level already
+ * follows in the chain the two steps merge, so no one signs twice. The SLA
+ * clock restarts for the escalated step.
+ */
+export function escalateApprovalChain(
+  chain: ApprovalChain,
+  reason: ApprovalEscalation['reason'],
+  escalatedAt: string = new Date().toISOString(),
+  escalatedBy?: string
+): { chain: ApprovalChain; escalation: ApprovalEscalation } | null {
+  const fromRole = getCurrentStepRole(chain)
+  const toRole = fromRole ? getEscalationTarget(fromRole) : null
+  if (!fromRole || !toRole) return null
+
+  const steps = [...chain.steps]
+  steps[chain.currentStep] = toRole
+  if (steps[chain.currentStep + 1] === toRole) {
+    steps.splice(chain.currentStep + 1, 1)
+  }
+
+  const escalation: ApprovalEscalation = {
+    step: chain.currentStep,
+    fromRole,
+    toRole,
+    escalatedAt,
+    reason,
+    ...(escalatedBy && { escalatedBy }),
+  }
+
+  return {
+    chain: {
+      ...chain,
+      steps,
+      stepStartedAt: escalatedAt,
+      escalations: [...(chain.escalations ?? []), escalation],
+    },
+    escalation,
+  }
+}
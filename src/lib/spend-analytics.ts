@@ -0,0 +1,239 @@
+/**
+ * Spend Analytics
+ *
+ * Aggregates expenses for the finance analytics view: claimed spend by
+ * category, department, vendor and month, decision rates and turnaround, and
+ * the validation agent's fraud scores and recommendations. Every bucket
+ * carries the key its drill-through filter matches on.
+ *
+ * @example
+ * ```tsx
+ * const analytics = buildSpendAnalytics(expenses)
+ * analytics.byCategory.map(bucket => bucket.amount)
+ * ```
+ */
+
+import { getHomeMoney, HOME_CURRENCY } from '@/lib/currency'
+import { addMoney, sumMoney, toAmount, zeroMoney, type Money } from '@/lib/money'
+import { getUserById } from '@/lib/users'
+import type { ExpenseRecord, ValidationResult } from '@/types/expense'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SpendBucket {
+  /** Value the drill-through filter matches */
+  key: string
+  label: string
+  amount: number
+  count: number
+}
+
+export interface CountBucket {
+  key: string
+  label: string
+  count: number
+}
+
+export interface DecisionTimeBucket {
+  /** Expense month (YYYY-MM) */
+  key: string
+  label: string
+  averageDays: number
+  count: number
+}
+
+export interface SpendAnalytics {
+  totalSpend: number
+  expenseCount: number
+  byCategory: SpendBucket[]
+  byDepartment: SpendBucket[]
+  /** Largest vendors only; see TOP_VENDOR_COUNT */
+  byVendor: SpendBucket[]
+  /** Chronological */
+  byMonth: SpendBucket[]
+  approvedCount: number
+  rejectedCount: number
+  /** Share of decided expenses; null before any decision */
+  approvalRate: number | null
+  rejectionRate: number | null
+  averageDecisionMs: number | null
+  decisionTimeByMonth: DecisionTimeBucket[]
+  /** Validated expenses per fraud score band, lowest band first */
+  fraudDistribution: CountBucket[]
+  recommendations: CountBucket[]
+  /** Share of validated expenses the agent recommended auto-approving */
+  autoApproveRate: number | null
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const TOP_VENDOR_COUNT = 10
+
+export const UNASSIGNED_DEPARTMENT = 'Unassigned'
+
+/** Fraud score bands in percent; keys are `${min}-${max}` */
+export const FRAUD_SCORE_BANDS = [
+  { min: 0, max: 20 },
+  { min: 20, max: 40 },
+  { min: 40, max: 60 },
+  { min: 60, max: 80 },
+  { min: 80, max: 100 },
+]
+
+export const RECOMMENDATION_LABELS: Record<ValidationResult['final_recommendation'], string> = {
+  AUTO_APPROVE: 'Auto-approve',
+  MANAGER_REVIEW: 'Manager review',
+  reject: 'Reject',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// =============================================================================
+// Dimensions
+// =============================================================================
+
+/**
+ * Submitting employee's department, from the user directory or, for records
+ * without a user id, the eligibility agent's employee context
+ */
+export function getExpenseDepartment(expense: ExpenseRecord): string {
+  return getUserById(expense.employeeId)?.department
+    ?? expense.validationDetails?.eligibility?.employee_context.department
+    ?? UNASSIGNED_DEPARTMENT
+}
+
+/** Month (YYYY-MM) of the expense's transaction date */
+export function getExpenseMonth(expense: ExpenseRecord): string {
+  return expense.date.slice(0, 7)
+}
+
+export function formatMonthLabel(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number)
+  if (!year || !monthIndex) return month
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { year: 'numeric', month: 'short' })
+}
+
+/** Band key for the validation agent's fraud score; null when never validated */
+export function getFraudBand(expense: ExpenseRecord): string | null {
+  const score = expense.validationResult?.fraud_analysis?.fraud_score
+  if (typeof score !== 'number' || !Number.isFinite(score)) return null
+  const percent = Math.min(Math.max(score * 100, 0), 100)
+  const band = FRAUD_SCORE_BANDS.find(b => percent < b.max) ?? FRAUD_SCORE_BANDS[FRAUD_SCORE_BANDS.length - 1]
+  return `${band.min}-${band.max}`
+}
+
+export function formatFraudBandLabel(key: string): string {
+  return `${key.replace('-', '–')}%`
+}
+
+/**
+ * When the expense reached its final decision: the last reviewer signature
+ * or appeal outcome, else the validation run that auto-decided it. Null while
+ * undecided.
+ */
+export function getDecidedAt(expense: ExpenseRecord): string | null {
+  if (expense.status !== 'approved' && expense.status !== 'rejected') return null
+  const times = [
+    ...(expense.approvalChain?.signatures ?? []).map(s => s.signedAt),
+    ...(expense.appeals ?? []).flatMap(a => (a.decidedAt ? [a.decidedAt] : [])),
+  ]
+  if (times.length > 0) return times.reduce((latest, time) => (time > latest ? time : latest))
+  return expense.validationMeta?.completedAt ?? expense.updatedAt
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+function groupSpend(
+  expenses: ExpenseRecord[],
+  keyOf: (expense: ExpenseRecord) => string,
+  labelOf: (key: string) => string = key => key
+): SpendBucket[] {
+  // Summed in exact minor units, converted back once per bucket
+  const buckets = new Map<string, { key: string; total: Money; count: number }>()
+  for (const expense of expenses) {
+    const key = keyOf(expense)
+    const bucket = buckets.get(key) ?? { key, total: zeroMoney(HOME_CURRENCY), count: 0 }
+    bucket.total = addMoney(bucket.total, getHomeMoney(expense))
+    bucket.count += 1
+    buckets.set(key, bucket)
+  }
+  return [...buckets.values()].map(({ key, total, count }) => ({ key, label: labelOf(key), amount: toAmount(total), count }))
+}
+
+function byAmountDescending(a: SpendBucket, b: SpendBucket): number {
+  return b.amount - a.amount
+}
+
+function rate(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null
+}
+
+export function buildSpendAnalytics(expenses: ExpenseRecord[]): SpendAnalytics {
+  const decided = expenses.filter(e => e.status === 'approved' || e.status === 'rejected')
+  const approvedCount = decided.filter(e => e.status === 'approved').length
+  const rejectedCount = decided.length - approvedCount
+
+  // Turnaround from the current version's submission to its decision
+  const decisionTimes = new Map<string, { totalMs: number; count: number }>()
+  let totalDecisionMs = 0
+  let timedCount = 0
+  for (const expense of decided) {
+    const decidedAt = getDecidedAt(expense)
+    if (!decidedAt) continue
+    const elapsed = new Date(decidedAt).getTime() - new Date(expense.submittedAt ?? expense.createdAt).getTime()
+    if (!Number.isFinite(elapsed) || elapsed < 0) continue
+    totalDecisionMs += elapsed
+    timedCount += 1
+    const month = getExpenseMonth(expense)
+    const entry = decisionTimes.get(month) ?? { totalMs: 0, count: 0 }
+    entry.totalMs += elapsed
+    entry.count += 1
+    decisionTimes.set(month, entry)
+  }
+
+  const validated = expenses.filter(e => e.validationResult)
+  const fraudCounts = new Map<string, number>()
+  const recommendationCounts = new Map<string, number>()
+  for (const expense of validated) {
+    const band = getFraudBand(expense)
+    if (band) fraudCounts.set(band, (fraudCounts.get(band) ?? 0) + 1)
+    const recommendation = expense.validationResult?.final_recommendation
+    if (recommendation) recommendationCounts.set(recommendation, (recommendationCounts.get(recommendation) ?? 0) + 1)
+  }
+
+  return {
+    totalSpend: toAmount(sumMoney(expenses.map(getHomeMoney), HOME_CURRENCY)),
+    expenseCount: expenses.length,
+    byCategory: groupSpend(expenses, e => e.category).sort(byAmountDescending),
+    byDepartment: groupSpend(expenses, getExpenseDepartment).sort(byAmountDescending),
+    byVendor: groupSpend(expenses, e => e.vendor).sort(byAmountDescending).slice(0, TOP_VENDOR_COUNT),
+    byMonth: groupSpend(expenses, getExpenseMonth, formatMonthLabel).sort((a, b) => a.key.localeCompare(b.key)),
+    approvedCount,
+    rejectedCount,
+    approvalRate: rate(approvedCount, decided.length),
+    rejectionRate: rate(rejectedCount, decided.length),
+    averageDecisionMs: timedCount > 0 ? totalDecisionMs / timedCount : null,
+    decisionTimeByMonth: [...decisionTimes.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, { totalMs, count }]) => ({
+        key: month,
+        label: formatMonthLabel(month),
+        averageDays: totalMs / count / DAY_MS,
+        count,
+      })),
+    fraudDistribution: FRAUD_SCORE_BANDS.map(({ min, max }) => {
+      const key = `${min}-${max}`
+      return { key, label: formatFraudBandLabel(key), count: fraudCounts.get(key) ?? 0 }
+    }),
+    recommendations: (Object.keys(RECOMMENDATION_LABELS) as Array<ValidationResult['final_recommendation']>)
+      .map(key => ({ key, label: RECOMMENDATION_LABELS[key], count: recommendationCounts.get(key) ?? 0 }))
+      .filter(bucket => bucket.count > 0),
+    autoApproveRate: rate(recommendationCounts.get('AUTO_APPROVE') ?? 0, validated.length),
+  }
+}
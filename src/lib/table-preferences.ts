@@ -0,0 +1,88 @@
+/**
+ * Table Preferences
+ *
+ * Sorting, page size, column visibility and column order for each data
+ * table, saved per signed-in user in localStorage so a table looks the same
+ * the next time that user opens it.
+ */
+
+import type { ColumnOrderState, SortingState, VisibilityState } from '@tanstack/react-table'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TablePreferences {
+  sorting: SortingState
+  columnVisibility: VisibilityState
+  /** Column ids in display order; empty means the table's default order */
+  columnOrder: ColumnOrderState
+  pageSize: number
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const STORAGE_PREFIX = 'expense-guard:table-prefs'
+
+/** Page size meaning "everything on one page"; large pages are virtualized */
+export const ALL_ROWS_PAGE_SIZE = 1_000_000
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100, 500, ALL_ROWS_PAGE_SIZE]
+
+export const DEFAULT_TABLE_PREFERENCES: TablePreferences = {
+  sorting: [],
+  columnVisibility: {},
+  columnOrder: [],
+  pageSize: 25,
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+function storageKey(userId: string, tableId: string): string {
+  return `${STORAGE_PREFIX}:${userId}:${tableId}`
+}
+
+/**
+ * Saved preferences merged over `defaults`; malformed entries are ignored
+ */
+export function loadTablePreferences(
+  userId: string,
+  tableId: string,
+  defaults: TablePreferences = DEFAULT_TABLE_PREFERENCES
+): TablePreferences {
+  try {
+    const raw = localStorage.getItem(storageKey(userId, tableId))
+    if (!raw) return defaults
+    const saved = JSON.parse(raw) as Partial<TablePreferences>
+    return {
+      sorting: Array.isArray(saved.sorting) ? saved.sorting : defaults.sorting,
+      columnVisibility: saved.columnVisibility && typeof saved.columnVisibility === 'object'
+        ? saved.columnVisibility
+        : defaults.columnVisibility,
+      columnOrder: Array.isArray(saved.columnOrder) ? saved.columnOrder : defaults.columnOrder,
+      pageSize: typeof saved.pageSize === 'number' && saved.pageSize > 0 ? saved.pageSize : defaults.pageSize,
+    }
+  } catch {
+    return defaults
+  }
+}
+
+export function saveTablePreferences(userId: string, tableId: string, preferences: TablePreferences): void {
+  try {
+    localStorage.setItem(storageKey(userId, tableId), JSON.stringify(preferences))
+  } catch {
+    // Storage unavailable (private mode); preferences just won't survive a reload
+  }
+}
+
+export function clearTablePreferences(userId: string, tableId: string): void {
+  try {
+    localStorage.removeItem(storageKey(userId, tableId))
+  } catch {
+    // Nothing saved to clear
+  }
+}
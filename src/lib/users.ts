@@ -0,0 +1,54 @@
+/**
+ * Local User Directory
+ *
+ * Seeded accounts used for local sign-in and the user switcher, and the
+ * signed-in session kept in localStorage.
+ */
+
+import type { User } from '@/types'
+
+// =============================================================================
+// Directory
+// =============================================================================
+
+export const DEFAULT_USERS: User[] = [
+  { id: 'u-sarah-chen', name: 'Sarah Chen', email: 'sarah.chen@example.com', role: 'employee', department: 'Marketing', title: 'Marketing Specialist', level: 1, managerId: 'u-maria-lopez' },
+  { id: 'u-james-patel', name: 'James Patel', email: 'james.patel@example.com', role: 'employee', department: 'Engineering', title: 'Software Engineer', level: 1, managerId: 'u-david-kim' },
+  { id: 'u-maria-lopez', name: 'Maria Lopez', email: 'maria.lopez@example.com', role: 'manager', department: 'Marketing', title: 'Marketing Manager', level: 2, managerId: 'u-rachel-green' },
+  { id: 'u-david-kim', name: 'David Kim', email: 'david.kim@example.com', role: 'manager', department: 'Engineering', title: 'Engineering Manager', level: 2, managerId: 'u-rachel-green' },
+  { id: 'u-rachel-green', name: 'Rachel Green', email: 'rachel.green@example.com', role: 'manager', department: 'Operations', title: 'Director of Operations', level: 3 },
+  { id: 'u-priya-shah', name: 'Priya Shah', email: 'priya.shah@example.com', role: 'finance', department: 'Finance', title: 'Finance Controller', level: 3 },
+  { id: 'u-tom-becker', name: 'Tom Becker', email: 'tom.becker@example.com', role: 'auditor', department: 'Internal Audit', title: 'Internal Auditor', level: 2 },
+  { id: 'u-alex-morgan', name: 'Alex Morgan', email: 'alex.morgan@example.com', role: 'admin', department: 'IT', title: 'System Administrator', level: 4 },
+]
+
+export function getUserById(id: string | null | undefined): User | null {
+  if (!id) return null
+  return DEFAULT_USERS.find(u => u.id === id) ?? null
+}
+
+// =============================================================================
+// Session
+// =============================================================================
+
+const SESSION_KEY = 'expense-guard:session-user'
+
+export function loadSessionUserId(): string | null {
+  try {
+    return localStorage.getItem(SESSION_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function saveSessionUserId(id: string | null): void {
+  try {
+    if (id) {
+      localStorage.setItem(SESSION_KEY, id)
+    } else {
+      localStorage.removeItem(SESSION_KEY)
+    }
+  } catch {
+    // Storage unavailable (private mode); the session just won't survive a reload
+  }
+}
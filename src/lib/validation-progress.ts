@@ -0,0 +1,227 @@
+/**
+ * Validation Progress Tracking
+ *
+ * Turns the coordinator's SSE events into per-stage validation progress.
+ * A stage starts when its sub-agent becomes active (subagent_switch or a
+ * tool_use attributed to it) and finishes when control moves elsewhere or
+ * the run completes. Tool failures mark the owning stage as failed.
+ *
+ * @example
+ * ```tsx
+ * let stages = createValidationStages()
+ * stages = applyValidationEvent(stages, event)
+ * ```
+ */
+
+import { AGENT_IDS } from '@/lib/agent-ids'
+import type { SSEEvent, ChatFailedEvent, SubagentSwitchEvent, ToolUseEvent, ToolResultEvent, ToolErrorEvent, WorkflowUpdateEvent } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ValidationStageId = 'extraction' | 'fraud' | 'policy' | 'eligibility' | 'final'
+
+export type ValidationStageStatus = 'pending' | 'active' | 'complete' | 'failed' | 'skipped'
+
+export interface ValidationStage {
+  id: ValidationStageId
+  name: string
+  /** Agent that performs this stage */
+  agentId: string
+  /** Lower-case fragments of the agent's display name, used to match events */
+  matchNames: string[]
+  status: ValidationStageStatus
+  startedAt?: number
+  finishedAt?: number
+  error?: string
+}
+
+// =============================================================================
+// Stage Definitions
+// =============================================================================
+
+const STAGE_DEFINITIONS: Array<Pick<ValidationStage, 'id' | 'name' | 'agentId' | 'matchNames'>> = [
+  { id: 'extraction', name: 'Receipt Extraction', agentId: AGENT_IDS.RECEIPT_EXTRACTION, matchNames: ['receipt', 'extraction'] },
+  { id: 'fraud', name: 'Fraud Detection', agentId: AGENT_IDS.FRAUD_DETECTION, matchNames: ['fraud'] },
+  { id: 'policy', name: 'Policy Check', agentId: AGENT_IDS.POLICY_COMPLIANCE, matchNames: ['policy', 'compliance'] },
+  { id: 'eligibility', name: 'Eligibility', agentId: AGENT_IDS.EMPLOYEE_ELIGIBILITY, matchNames: ['eligibility'] },
+  { id: 'final', name: 'Final Review', agentId: AGENT_IDS.EXPENSE_VALIDATION_COORDINATOR, matchNames: ['coordinator', 'validation coordinator'] },
+]
+
+export function createValidationStages(): ValidationStage[] {
+  return STAGE_DEFINITIONS.map(def => ({ ...def, status: 'pending' }))
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Resolve an agent reference from an event (id or display name) to its stage
+ */
+export function findStageForAgent(stages: ValidationStage[], agent: string | null | undefined): ValidationStage | undefined {
+  if (!agent) return undefined
+  const needle = agent.toLowerCase()
+  return stages.find(stage =>
+    stage.agentId === agent || stage.matchNames.some(name => needle.includes(name))
+  )
+}
+
+function updateStage(
+  stages: ValidationStage[],
+  id: ValidationStageId | undefined,
+  update: (stage: ValidationStage) => ValidationStage
+): ValidationStage[] {
+  if (!id) return stages
+  return stages.map(stage => (stage.id === id ? update(stage) : stage))
+}
+
+function startStage(stage: ValidationStage, at: number): ValidationStage {
+  if (stage.status !== 'pending') return stage
+  return { ...stage, status: 'active', startedAt: at }
+}
+
+function finishStage(stage: ValidationStage, at: number): ValidationStage {
+  if (stage.status !== 'active') return stage
+  return { ...stage, status: 'complete', finishedAt: at }
+}
+
+function failStage(stage: ValidationStage, at: number, error: string): ValidationStage {
+  if (stage.status === 'complete' || stage.status === 'failed') return stage
+  return { ...stage, status: 'failed', startedAt: stage.startedAt ?? at, finishedAt: at, error }
+}
+
+function eventTime(event: SSEEvent): number {
+  const parsed = Date.parse(event.timestamp)
+  return Number.isNaN(parsed) ? Date.now() : parsed
+}
+
+// =============================================================================
+// Direct Stage Updates
+// =============================================================================
+
+/**
+ * Mark a stage started, for work driven by the client rather than by events
+ */
+export function startValidationStage(stages: ValidationStage[], id: ValidationStageId, at: number = Date.now()): ValidationStage[] {
+  return updateStage(stages, id, stage => startStage(stage, at))
+}
+
+export function finishValidationStage(stages: ValidationStage[], id: ValidationStageId, at: number = Date.now()): ValidationStage[] {
+  return updateStage(stages, id, stage => finishStage(stage, at))
+}
+
+export function failValidationStage(
+  stages: ValidationStage[],
+  id: ValidationStageId,
+  error: string,
+  at: number = Date.now()
+): ValidationStage[] {
+  return updateStage(stages, id, stage => failStage(stage, at, error))
+}
+
+// =============================================================================
+// Event Reducer
+// =============================================================================
+
+/**
+ * Apply one SSE event to the stage list, returning a new list
+ */
+export function applyValidationEvent(stages: ValidationStage[], event: SSEEvent): ValidationStage[] {
+  const at = eventTime(event)
+
+  switch (event.type) {
+    case 'chat_started':
+      return updateStage(stages, 'final', stage => startStage(stage, at))
+
+    case 'subagent_switch': {
+      const { active_subagent, previous_subagent } = event as SubagentSwitchEvent
+      const previous = findStageForAgent(stages, previous_subagent)
+      const next = findStageForAgent(stages, active_subagent)
+      let updated = stages
+      // The coordinator stays active around its sub-agents; only sub-agent stages finish on switch
+      if (previous && previous.id !== 'final') {
+        updated = updateStage(updated, previous.id, stage => finishStage(stage, at))
+      }
+      return updateStage(updated, next?.id, stage => startStage(stage, at))
+    }
+
+    case 'tool_use': {
+      const stage = findStageForAgent(stages, (event as ToolUseEvent).active_subagent)
+      return updateStage(stages, stage?.id, s => startStage(s, at))
+    }
+
+    case 'tool_result': {
+      const result = event as ToolResultEvent
+      if (!result.is_error) return stages
+      const stage = findStageForAgent(stages, result.active_subagent)
+      return updateStage(stages, stage?.id, s => failStage(s, at, `${result.tool_name} failed`))
+    }
+
+    case 'tool_error': {
+      const error = event as ToolErrorEvent
+      const active = stages.find(s => s.status === 'active' && s.id !== 'final')
+      return updateStage(stages, active?.id, s => failStage(s, at, error.error))
+    }
+
+    case 'workflow_update': {
+      // Agents reported with a terminal status mark their stage done
+      const agents = (event as WorkflowUpdateEvent).workflow_state?.agents || []
+      return agents.reduce<ValidationStage[]>((acc, agent) => {
+        const stage = findStageForAgent(acc, agent?.agent_id || agent?.name)
+        if (!stage) return acc
+        if (agent?.status === 'failed' || agent?.status === 'error') {
+          return updateStage(acc, stage.id, s => failStage(s, at, agent.error || 'Agent failed'))
+        }
+        if (agent?.status === 'completed' || agent?.status === 'complete') {
+          return updateStage(acc, stage.id, s => finishStage(startStage(s, at), at))
+        }
+        return acc
+      }, stages)
+    }
+
+    case 'chat_completed':
+    case 'workflow_completed':
+      return stages.map(stage => finishStage(stage, at))
+
+    case 'chat_failed':
+    case 'error': {
+      const failed = event as ChatFailedEvent
+      const message = failed.error || failed.message || 'Validation failed'
+      return stages.map(stage => (stage.status === 'active' ? failStage(stage, at, message) : stage))
+    }
+
+    default:
+      return stages
+  }
+}
+
+/**
+ * Close out the run once the final response is in. Stages never reported by
+ * the stream are marked skipped rather than complete, so the UI does not claim
+ * work it cannot confirm.
+ */
+export function completeValidationStages(
+  stages: ValidationStage[],
+  outcome: { success: boolean; error?: string },
+  at: number = Date.now()
+): ValidationStage[] {
+  return stages.map(stage => {
+    if (stage.status === 'active') {
+      return outcome.success ? finishStage(stage, at) : failStage(stage, at, outcome.error || 'Validation failed')
+    }
+    if (stage.status === 'pending') {
+      return { ...stage, status: 'skipped' }
+    }
+    return stage
+  })
+}
+
+/**
+ * Elapsed milliseconds for a stage, or null if it never started
+ */
+export function getStageDuration(stage: ValidationStage, now: number = Date.now()): number | null {
+  if (stage.startedAt === undefined) return null
+  return (stage.finishedAt ?? now) - stage.startedAt
+}
@@ -2,12 +2,17 @@
  * Expense Management Automation Platform
  *
  * Complete UI with:
- * - Employee Dashboard (default route)
- * - Manager Review Queue
- * - Audit Log
+ * - Employee Dashboard (/expenses, /expenses/:id)
+ * - Manager Review Queue (/review, /review/:id)
+ * - Audit Log (/audit)
+ *
+ * The view, the selected expense and list filters all live in the URL, so any
+ * screen can be linked to directly and the back button works. Tabs, views and
+ * actions are limited by the signed-in user's role permissions.
  */
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useLayoutEffect, useMemo, useRef } from 'react'
+import { useLocation, useMatch, useNavigate, useSearchParams } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -15,12 +20,22 @@ import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { ScrollArea } from '@/components/ui/scroll-area'
 import { Separator } from '@/components/ui/separator'
 import { Progress } from '@/components/ui/progress'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Kbd, KbdGroup } from '@/components/ui/kbd'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
 import {
   Upload,
   FileText,
@@ -31,7 +46,6 @@ import {
   XCircle,
   AlertCircle,
   ChevronDown,
-  ChevronRight,
   Clock,
   TrendingUp,
   Shield,
@@ -44,262 +58,152 @@ import {
   FileCheck,
   Loader2,
   AlertTriangle,
-  ChevronLeft
+  ChevronLeft,
+  Pencil,
+  LogOut,
+  Lock,
+  Bell,
+  ArrowUpCircle,
+  MessageSquare,
+  HelpCircle,
+  Gavel,
+  Columns3,
+  BarChart3,
+  X
 } from 'lucide-react'
-import { callAIAgent } from '@/utils/aiAgent'
-import type { NormalizedAgentResponse } from '@/utils/aiAgent'
+import { callAIAgent, uploadFiles } from '@/utils/aiAgent'
+import { AGENT_IDS, extractReceipt, getAgentResult, runValidation, type ExpenseSubmission } from '@/lib/expense-agents'
+import {
+  buildReceiptAutofill,
+  getConfidenceLevel,
+  type AutofillField,
+  type AutofillFieldState
+} from '@/lib/receipt-autofill'
+import {
+  completeValidationStages,
+  createValidationStages,
+  getStageDuration,
+  type ValidationStage,
+  type ValidationStageId
+} from '@/lib/validation-progress'
 import { cn } from '@/lib/utils'
-
-// ============================================================================
-// TYPE DEFINITIONS - Based on ACTUAL test responses
-// ============================================================================
-
-// Receipt Extraction Agent Response
-interface ReceiptData {
-  vendor_name: string
-  transaction_date: string
-  transaction_time: string | null
-  location: string
-  total_amount: number
-  currency: string
-  tax_amount: number | null
-  line_items: Array<{
-    item_name: string
-    quantity: number
-    unit_price: number
-    total_price: number
-  }>
-  payment_method: string | null
-  receipt_number: string | null
-  extraction_confidence: number
-  missing_fields: string[]
-}
-
-// Fraud Detection Response
-interface FraudAnalysis {
-  fraud_risk_level: 'low' | 'medium' | 'high'
-  fraud_score: number
-  flags: Array<{
-    category: string
-    severity: 'low' | 'medium' | 'high'
-    description: string
-    evidence: string
-  }>
-  duplicate_detected: boolean
-  vendor_verified: boolean
-  location_plausible: boolean
-  recommendation: 'approve' | 'reject' | 'review'
-  reasoning: string
-}
-
-// Policy Compliance Response
-interface PolicyCompliance {
-  compliant: boolean
-  violations: Array<{
-    policy_rule: string
-    violation_type: string
-    severity: 'low' | 'medium' | 'critical'
-    description: string
-    policy_reference: string
-  }>
-  category_limit: {
-    limit: number
-    actual: number
-    within_limit: boolean
-  }
-  required_approvals: string[]
-  missing_documents: string[]
-  recommendation: 'approve' | 'reject'
-  reasoning: string
-}
-
-// Employee Eligibility Response
-interface EmployeeEligibility {
-  eligible: boolean
-  ineligibility_reasons: string[]
-  employee_context: {
-    department: string
-    location: string
-    travel_status: string
-    meal_plan_enrolled: boolean
-    per_diem_active: boolean
-    job_level: string
-  }
-  recommendation: 'approve' | 'reject'
-  reasoning: string
-}
-
-// Expense Validation Coordinator Response
-interface ValidationResult {
-  validation_summary: {
-    overall_status: string
-    confidence_score: number
-    risk_level: 'low' | 'medium' | 'high' | 'critical'
-  }
-  receipt_data: {
-    vendor: string
-    amount: number
-    date: string
-    extracted_successfully: boolean
-  }
-  fraud_analysis: {
-    fraud_detected: boolean
-    fraud_score: number
-    flags_count: number
-  }
-  policy_compliance: {
-    compliant: boolean
-    violations_count: number
-    critical_violations: boolean
-  }
-  employee_eligibility: {
-    eligible: boolean
-    restrictions: number
-  }
-  final_recommendation: 'AUTO_APPROVE' | 'MANAGER_REVIEW' | 'reject'
-  recommendation_reasoning: string
-  required_actions: string[]
-  approval_workflow: {
-    requires_manager_approval: boolean
-    required_approval_level: string
-    auto_approvable: boolean
-  }
-}
-
-// Manager Approval Response
-interface ApprovalResult {
-  decision_processed: boolean
-  expense_status: 'approved' | 'rejected'
-  decision_details: {
-    manager_id: string
-    decision: string
-    rationale: string
-    decision_timestamp: string
-  }
-  workflow_actions: {
-    reimbursement_triggered: boolean
-    employee_notified: boolean
-    audit_record_created: boolean
-    finance_team_notified: boolean
-  }
-  reimbursement_details?: {
-    amount: number
-    currency: string
-    payment_method: string
-    expected_processing_days: number
-    reference_number: string
-  }
-  next_steps: string[]
-  audit_trail: {
-    record_id: string
-    timestamp: string
-    action: string
-  }
-}
-
-// Expense Record
-interface ExpenseRecord {
-  id: string
-  employee: string
-  vendor: string
-  amount: number
-  date: string
-  category: string
-  status: 'pending' | 'approved' | 'rejected' | 'reviewing'
-  riskScore: 'low' | 'medium' | 'high'
-  validationResult?: ValidationResult
-  receiptImage?: string
-}
-
-// ============================================================================
-// AGENT IDs
-// ============================================================================
-const AGENT_IDS = {
-  RECEIPT_EXTRACTION: '696a2d3ea5272eccb326c62f',
-  FRAUD_DETECTION: '696a2d57a5272eccb326c639',
-  POLICY_COMPLIANCE: '696a2d6d9ea90559bbf3e8e7',
-  EMPLOYEE_ELIGIBILITY: '696a2d85a5272eccb326c648',
-  EXPENSE_VALIDATION_COORDINATOR: '696a2da7a5272eccb326c65d',
-  MANAGER_APPROVAL: '696a2dc7a5272eccb326c66b'
-}
-
-// ============================================================================
-// SAMPLE DATA
-// ============================================================================
-const initialExpenses: ExpenseRecord[] = []
-
-// ============================================================================
-// UTILITY FUNCTIONS
-// ============================================================================
-
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD'
-  }).format(amount)
-}
-
-function formatDate(dateStr: string): string {
-  return new Date(dateStr).toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric'
-  })
-}
-
-function getStatusColor(status: string): string {
-  switch (status) {
-    case 'approved':
-      return 'bg-green-500'
-    case 'rejected':
-      return 'bg-red-500'
-    case 'pending':
-      return 'bg-yellow-500'
-    case 'reviewing':
-      return 'bg-blue-500'
-    default:
-      return 'bg-gray-500'
-  }
-}
-
-function getRiskColor(risk: string): string {
-  switch (risk) {
-    case 'low':
-      return 'bg-green-100 text-green-800 border-green-200'
-    case 'medium':
-      return 'bg-yellow-100 text-yellow-800 border-yellow-200'
-    case 'high':
-    case 'critical':
-      return 'bg-red-100 text-red-800 border-red-200'
-    default:
-      return 'bg-gray-100 text-gray-800 border-gray-200'
-  }
-}
+import { isOwnExpense, ROLE_LABELS, type Permission } from '@/lib/permissions'
+import { checkSegregationOfDuties, getSubmitter, recordEditor } from '@/lib/approval-rules'
+import {
+  canEscalate,
+  escalateApprovalChain,
+  getReviewSla,
+  isSameReviewStep,
+  REVIEW_SLA_POLICY,
+  SLA_MONITOR_ACTOR
+} from '@/lib/review-sla'
+import { describeDelegationLimits } from '@/lib/delegations'
+import { canResubmit, diffVersions, getVersionNumber, snapshotVersion } from '@/lib/expense-versions'
+import {
+  canAppeal,
+  canReviewAppeal,
+  createAppeal,
+  decideAppeal,
+  getAppealReviewBlocker,
+  getAppealReviewers,
+  getLatestAppeal,
+  getOpenAppeal
+} from '@/lib/appeals'
+import { getUserById } from '@/lib/users'
+import {
+  captureExpenseState,
+  REIMBURSEMENT_ACTOR,
+  VALIDATION_ACTOR,
+  type AuditChainReport
+} from '@/lib/audit-log'
+import {
+  AUDIT_COLUMNS,
+  auditFiltersToParams,
+  countActiveAuditFilters,
+  DEFAULT_AUDIT_COLUMN_IDS,
+  EMPTY_AUDIT_FILTERS,
+  filterAuditEvents,
+  getAuditColumns,
+  parseAuditFilters,
+  type AuditColumnId,
+  type AuditFilters
+} from '@/lib/audit-filters'
+import { downloadCsv, toCsv } from '@/lib/csv'
+import { describeBudget, getBudgetWarnings, type BudgetDraft } from '@/lib/budgets'
+import { getExpenseDepartment } from '@/lib/spend-analytics'
+import {
+  convertToHome,
+  describeAmount,
+  getExpenseCurrency,
+  getOriginalMoney,
+  HOME_CURRENCY,
+  SUPPORTED_CURRENCIES
+} from '@/lib/currency'
+import { formatTransactionTimestamp, getLocalTimeZone, getTransactionTimestamp, localToday } from '@/lib/calendar-date'
+import { getMealTimingFlags } from '@/lib/meal-timing'
+import { formatMoney, getMinorUnits, parseMoney, toAmount, toDecimalString, zeroMoney } from '@/lib/money'
+import {
+  EMPTY_EXPENSE_FILTERS,
+  EXPENSE_DRILL_FIELDS,
+  expenseFiltersToSearch,
+  filterExpenses,
+  parseExpenseFilters,
+  type ExpenseFilters
+} from '@/lib/expense-filters'
+import {
+  APPROVAL_STEP_LABELS,
+  buildApprovalChain,
+  canSignStep,
+  describeApprover,
+  getApprovalChain,
+  getCurrentStepRole,
+  getNextApprovers,
+  getSigningAuthority,
+  signApprovalStep
+} from '@/lib/approval-chain'
+import { formatCurrency, formatDate, formatDuration } from '@/lib/format'
+import { StatusBadge, RiskBadge, SlaBadge, MealTimingBadges } from '@/components/ExpenseBadges'
+import { ValidationFindingsTabs } from '@/components/ValidationFindingsTabs'
+import { ApprovalChainProgress } from '@/components/ApprovalChainProgress'
+import { ExpenseCommentThread } from '@/components/ExpenseCommentThread'
+import { ExpenseVersionHistory } from '@/components/ExpenseVersionHistory'
+import { DelegationManager } from '@/components/DelegationManager'
+import { ExpenseTable } from '@/components/ExpenseTable'
+import { AuditEventTable } from '@/components/AuditEventTable'
+import { SpendAnalytics } from '@/components/SpendAnalytics'
+import { ExpenseAmount } from '@/components/ExpenseAmount'
+import { FxRateManager } from '@/components/FxRateManager'
+import { BudgetManager } from '@/components/BudgetManager'
+import { BudgetWarnings } from '@/components/BudgetWarnings'
+import { useExpenses } from '@/hooks/useExpenses'
+import { useDelegations } from '@/hooks/useDelegations'
+import { useBudgets } from '@/hooks/useBudgets'
+import { useFxRates } from '@/hooks/useFxRates'
+import { useVirtualRows } from '@/hooks/useVirtualRows'
+import { useNotifications } from '@/hooks/useNotifications'
+import { useCurrentUser } from '@/components/UserSessionProvider'
+import {
+  EXPENSE_CATEGORIES,
+  type ApprovalDelegation,
+  type ApprovalResult,
+  type ApprovalStepRole,
+  type Budget,
+  type CommentAttachment,
+  type ExpenseAuditState,
+  type ExpenseComment,
+  type ExpenseRecord,
+  type ExpenseStatus,
+  type FxRate,
+  type ReceiptData,
+  type ValidationMode,
+  type ValidationResult,
+  type ValidationRunMeta
+} from '@/types/expense'
 
 // ============================================================================
 // SUB-COMPONENTS (defined outside Home to prevent re-creation)
 // ============================================================================
 
-// Status Badge Component
-function StatusBadge({ status }: { status: string }) {
-  const color = getStatusColor(status)
-  return (
-    <Badge className={cn('capitalize', color, 'text-white border-0')}>
-      {status}
-    </Badge>
-  )
-}
-
-// Risk Badge Component
-function RiskBadge({ risk }: { risk: string }) {
-  const color = getRiskColor(risk)
-  return (
-    <Badge variant="outline" className={cn('capitalize', color)}>
-      {risk} risk
-    </Badge>
-  )
-}
-
 // File Upload Component
 function FileUploadZone({
   onFileSelect,
@@ -371,109 +275,90 @@ function FileUploadZone({
   )
 }
 
-// Expense Table Row Component
-function ExpenseTableRow({
-  expense,
-  onSelect,
-  isSelected
-}: {
-  expense: ExpenseRecord
-  onSelect: () => void
-  isSelected: boolean
-}) {
-  const [expanded, setExpanded] = useState(false)
+// Auto-fill Hint Component
+const CONFIDENCE_STYLES = {
+  high: { input: 'border-green-400 bg-green-50', text: 'text-green-700' },
+  medium: { input: 'border-yellow-400 bg-yellow-50', text: 'text-yellow-700' },
+  low: { input: 'border-orange-400 bg-orange-50', text: 'text-orange-700' }
+}
 
+function autofillInputClass(state?: AutofillFieldState): string | undefined {
+  if (!state) return undefined
+  if (state.missing) return 'border-red-400 bg-red-50'
+  return CONFIDENCE_STYLES[getConfidenceLevel(state.confidence)].input
+}
+
+function AutofillHint({ state }: { state?: AutofillFieldState }) {
+  if (!state) return null
+  if (state.missing) {
+    return <p className="text-xs text-red-600 mt-1">Not found on receipt, please enter manually</p>
+  }
+  const level = getConfidenceLevel(state.confidence)
   return (
-    <>
-      <TableRow
-        className={cn(
-          'cursor-pointer hover:bg-gray-50',
-          isSelected && 'bg-blue-50'
-        )}
-        onClick={onSelect}
-      >
-        <TableCell>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={(e) => {
-              e.stopPropagation()
-              setExpanded(!expanded)
-            }}
-          >
-            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
-          </Button>
-        </TableCell>
-        <TableCell className="font-medium">{expense.id}</TableCell>
-        <TableCell>{formatDate(expense.date)}</TableCell>
-        <TableCell>{expense.vendor}</TableCell>
-        <TableCell>{formatCurrency(expense.amount)}</TableCell>
-        <TableCell>{expense.category}</TableCell>
-        <TableCell><StatusBadge status={expense.status} /></TableCell>
-        <TableCell><RiskBadge risk={expense.riskScore} /></TableCell>
-      </TableRow>
-      {expanded && expense.validationResult && (
-        <TableRow>
-          <TableCell colSpan={8} className="bg-gray-50 p-4">
-            <div className="grid grid-cols-2 gap-4 text-sm">
-              <div>
-                <p className="font-semibold mb-1">Fraud Analysis</p>
-                <p>Score: {(expense.validationResult.fraud_analysis.fraud_score * 100).toFixed(0)}%</p>
-                <p>Flags: {expense.validationResult.fraud_analysis.flags_count}</p>
-              </div>
-              <div>
-                <p className="font-semibold mb-1">Policy Compliance</p>
-                <p>Status: {expense.validationResult.policy_compliance.compliant ? 'Compliant' : 'Non-Compliant'}</p>
-                <p>Violations: {expense.validationResult.policy_compliance.violations_count}</p>
-              </div>
-              <div className="col-span-2">
-                <p className="font-semibold mb-1">Recommendation</p>
-                <p className="text-gray-700">{expense.validationResult.recommendation_reasoning}</p>
-              </div>
-            </div>
-          </TableCell>
-        </TableRow>
-      )}
-    </>
+    <p className={cn('text-xs mt-1', CONFIDENCE_STYLES[level].text)}>
+      {state.suggested ? 'Suggested' : 'Auto-filled'} from receipt · {(state.confidence * 100).toFixed(0)}% confidence
+    </p>
   )
 }
 
 // Validation Progress Component
-function ValidationProgress({ stage }: { stage: number }) {
-  const stages = [
-    { name: 'Receipt Extraction', icon: FileText },
-    { name: 'Fraud Detection', icon: Shield },
-    { name: 'Policy Check', icon: ClipboardCheck },
-    { name: 'Eligibility', icon: User },
-    { name: 'Final Review', icon: FileCheck }
-  ]
+const STAGE_ICONS: Record<ValidationStageId, typeof FileText> = {
+  extraction: FileText,
+  fraud: Shield,
+  policy: ClipboardCheck,
+  eligibility: User,
+  final: FileCheck
+}
+
+function ValidationProgress({ stages }: { stages: ValidationStage[] }) {
+  const hasActive = stages.some(s => s.status === 'active')
+  const [now, setNow] = useState(Date.now())
+
+  // Tick while a stage is running so its elapsed time stays current
+  useEffect(() => {
+    if (!hasActive) return
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [hasActive])
 
   return (
     <div className="space-y-3">
-      {stages.map((s, idx) => {
-        const Icon = s.icon
-        const isActive = idx === stage
-        const isComplete = idx < stage
+      {stages.map((s) => {
+        const Icon = STAGE_ICONS[s.id]
+        const isActive = s.status === 'active'
+        const isComplete = s.status === 'complete'
+        const isFailed = s.status === 'failed'
+        const duration = getStageDuration(s, now)
 
         return (
-          <div key={s.name} className="flex items-center gap-3">
+          <div key={s.id} className="flex items-center gap-3">
             <div className={cn(
               'w-8 h-8 rounded-full flex items-center justify-center',
               isComplete ? 'bg-green-500 text-white' :
+              isFailed ? 'bg-red-500 text-white' :
               isActive ? 'bg-blue-500 text-white' :
               'bg-gray-200 text-gray-500'
             )}>
-              {isComplete ? <CheckCircle className="h-4 w-4" /> : <Icon className="h-4 w-4" />}
+              {isComplete ? <CheckCircle className="h-4 w-4" /> :
+               isFailed ? <XCircle className="h-4 w-4" /> :
+               <Icon className="h-4 w-4" />}
             </div>
             <div className="flex-1">
               <p className={cn(
                 'text-sm font-medium',
                 isActive && 'text-blue-600',
-                isComplete && 'text-green-600'
+                isComplete && 'text-green-600',
+                isFailed && 'text-red-600',
+                s.status === 'skipped' && 'text-gray-400'
               )}>
                 {s.name}
               </p>
+              {isFailed && s.error && <p className="text-xs text-red-600">{s.error}</p>}
+              {s.status === 'skipped' && <p className="text-xs text-gray-400">Not reported by agent</p>}
             </div>
+            {duration !== null && (
+              <span className="text-xs text-gray-500 tabular-nums">{formatDuration(duration)}</span>
+            )}
             {isActive && <Loader2 className="h-4 w-4 animate-spin text-blue-600" />}
           </div>
         )
@@ -486,182 +371,1384 @@ function ValidationProgress({ stage }: { stage: number }) {
 // MAIN COMPONENT
 // ============================================================================
 
+// ============================================================================
+// VIEW ACCESS
+// ============================================================================
+
+type View = 'employee' | 'manager' | 'audit' | 'analytics'
+
+const VIEW_PERMISSIONS: Record<View, Permission> = {
+  employee: 'expense:view_own',
+  manager: 'review:view',
+  audit: 'audit:view',
+  analytics: 'analytics:view'
+}
+
+const VIEW_PATHS: Record<View, string> = {
+  employee: '/expenses',
+  manager: '/review',
+  audit: '/audit',
+  analytics: '/analytics'
+}
+
+// ============================================================================
+// DECISIONS
+// ============================================================================
+
+type DecisionOutcome =
+  | { ok: true; status: ExpenseStatus; approvalResult?: ApprovalResult; nextRole?: ApprovalStepRole | null }
+  | { ok: false; error: string }
+
+interface BulkDecisionResult {
+  expenseId: string
+  ok: boolean
+  message: string
+}
+
+// Shown when the stored step no longer matches the one a reviewer decided on
+const STEP_MOVED_ERROR = 'This step was already decided or escalated since you opened it. Review the expense again.'
+
+// Keys handled by the review queue; ignored while typing in a field
+const REVIEW_SHORTCUTS = [
+  { keys: ['j', 'k'], label: 'Next / previous' },
+  { keys: ['a', 'r'], label: 'Approve / reject' },
+  { keys: ['e'], label: 'Expand' },
+  { keys: ['x'], label: 'Select' }
+]
+
+// Queues longer than this render only the cards in view
+const QUEUE_VIRTUALIZE_THRESHOLD = 50
+
 export default function Home() {
-  // Navigation state
-  const [currentView, setCurrentView] = useState<'employee' | 'manager' | 'audit'>('employee')
+  // Navigation state (derived from the URL)
+  const navigate = useNavigate()
+  const location = useLocation()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const expenseMatch = useMatch('/expenses/:id')
+  const reviewMatch = useMatch('/review/:id')
+  const currentView: View =
+    location.pathname.startsWith('/review') ? 'manager' :
+    location.pathname.startsWith('/audit') ? 'audit' :
+    location.pathname.startsWith('/analytics') ? 'analytics' : 'employee'
+  const selectedExpenseId = expenseMatch?.params.id ?? reviewMatch?.params.id ?? null
+
+  // Signed-in user and what they may see
+  const { currentUser, users, signIn, signOut, can } = useCurrentUser()
+  const canAccessView = can(VIEW_PERMISSIONS[currentView])
+  const fallbackView = (Object.keys(VIEW_PERMISSIONS) as View[]).find(view => can(VIEW_PERMISSIONS[view]))
 
   // Employee Dashboard state
   const [receiptFile, setReceiptFile] = useState<File | null>(null)
   const [receiptPreview, setReceiptPreview] = useState<string>('')
+  const [receiptAssetId, setReceiptAssetId] = useState<string | null>(null)
+  const [extractedReceipt, setExtractedReceipt] = useState<ReceiptData | null>(null)
+  const [isExtracting, setIsExtracting] = useState(false)
+  const [extractionError, setExtractionError] = useState<string | null>(null)
+  const [autofillFields, setAutofillFields] = useState<Partial<Record<AutofillField, AutofillFieldState>>>({})
+  // Guards against a slow extraction overwriting the form for a newer receipt
+  const extractionRequestRef = useRef(0)
   const [expenseData, setExpenseData] = useState({
     vendor: '',
     amount: '',
+    currency: HOME_CURRENCY,
     date: '',
+    time: '',
     category: 'Business Meal'
   })
   const [isValidating, setIsValidating] = useState(false)
-  const [validationStage, setValidationStage] = useState(0)
+  const [validationStages, setValidationStages] = useState<ValidationStage[]>(createValidationStages)
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null)
+  const [validationRunMeta, setValidationRunMeta] = useState<ValidationRunMeta | null>(null)
+  const [validationMode, setValidationMode] = useState<ValidationMode>('coordinator')
   const [validationError, setValidationError] = useState<string | null>(null)
-
-  // Expenses list state
-  const [expenses, setExpenses] = useState<ExpenseRecord[]>(initialExpenses)
-  const [selectedExpense, setSelectedExpense] = useState<ExpenseRecord | null>(null)
-  const [statusFilter, setStatusFilter] = useState<string>('all')
+  // Rejected or needs-info expense loaded into the form for resubmission
+  const [editingExpense, setEditingExpense] = useState<ExpenseRecord | null>(null)
+
+  // Expenses list state (persisted via the expense repository)
+  const {
+    expenses,
+    auditEvents,
+    loading: expensesLoading,
+    error: expensesError,
+    addExpense,
+    replaceExpense,
+    updateExpense,
+    modifyExpense,
+    recordApproval,
+    recordAuditEvent,
+    verifyAuditLog,
+    repository
+  } = useExpenses()
+  // The employee dashboard only lists other people's expenses for roles allowed to see them
+  const visibleExpenses = useMemo(
+    () => (can('expense:view_all') || currentView !== 'employee'
+      ? expenses
+      : expenses.filter(e => isOwnExpense(currentUser, e))),
+    [expenses, can, currentView, currentUser]
+  )
+  const selectedExpense = selectedExpenseId ? visibleExpenses.find(e => e.id === selectedExpenseId) ?? null : null
+  // List filters, including those set by drilling through from analytics
+  const expenseFilters = useMemo(() => parseExpenseFilters(searchParams), [searchParams])
 
   // Manager Review state
   const [managerRationale, setManagerRationale] = useState('')
+  // Appeal justification typed by the employee
+  const [appealJustification, setAppealJustification] = useState('')
+  const [isSubmittingAppeal, setIsSubmittingAppeal] = useState(false)
+  const [appealError, setAppealError] = useState<string | null>(null)
   const [isProcessingApproval, setIsProcessingApproval] = useState(false)
   const [approvalResult, setApprovalResult] = useState<ApprovalResult | null>(null)
+  // Set when a decision signs an intermediate step rather than ending the chain
+  const [stepSignedNotice, setStepSignedNotice] = useState<string | null>(null)
+  const [decisionError, setDecisionError] = useState<string | null>(null)
+  const rationaleRef = useRef<HTMLTextAreaElement>(null)
+  // Bulk triage
+  const [bulkSelection, setBulkSelection] = useState<string[]>([])
+  const [bulkRationale, setBulkRationale] = useState('')
+  const [isBulkProcessing, setIsBulkProcessing] = useState(false)
+  const [bulkResults, setBulkResults] = useState<BulkDecisionResult[]>([])
+  const [expandedQueueIds, setExpandedQueueIds] = useState<string[]>([])
+  const selectedChain = selectedExpense ? getApprovalChain(selectedExpense) : null
+  const { delegations, createDelegation, revokeDelegation } = useDelegations()
+  const { budgets, loading: budgetsLoading, createBudget, deleteBudget } = useBudgets()
+  const { rates: fxRates, loading: fxRatesLoading, importRates } = useFxRates()
+  // The amount being entered, exact in its currency, and its home-currency value; the conversion
+  // is null until amount and date are set or when no rate covers the date
+  const enteredAmount = useMemo(
+    () => parseMoney(expenseData.amount, expenseData.currency),
+    [expenseData.amount, expenseData.currency]
+  )
+  const submissionConversion = useMemo(
+    () => (enteredAmount && expenseData.date ? convertToHome(enteredAmount, expenseData.date, fxRates) : null),
+    [enteredAmount, expenseData.date, fxRates]
+  )
+  const missingFxRate = !!enteredAmount && !!expenseData.date && !submissionConversion
+  const { notifications, unreadCount, notify, markRead } = useNotifications(currentUser.id)
+  // Ticks every minute so queue ages and SLA checks stay current
+  const [slaNow, setSlaNow] = useState(() => Date.now())
+  const escalationRunningRef = useRef(false)
+  const selectedSla = selectedExpense ? getReviewSla(selectedExpense, new Date(slaNow)) : null
+  // Direct or delegated authority over the selected expense's current step
+  const signingAuthority = selectedExpense ? getSigningAuthority(currentUser, selectedExpense, delegations) : null
+  const decisionViolations = selectedExpense ? checkSegregationOfDuties(currentUser, selectedExpense) : []
+  const selectedAppeal = selectedExpense ? getLatestAppeal(selectedExpense) : null
+  const blockedAttempts = selectedExpense
+    ? auditEvents.filter(e => e.expenseId === selectedExpense.id && e.type === 'decision_blocked')
+    : []
 
   // Audit Log state
-  const [auditFilters, setAuditFilters] = useState({
-    dateFrom: '',
-    dateTo: '',
-    employee: '',
-    status: 'all'
-  })
+  const [auditVerification, setAuditVerification] = useState<AuditChainReport | null>(null)
+  const [isVerifyingAudit, setIsVerifyingAudit] = useState(false)
+  const [auditVerificationError, setAuditVerificationError] = useState<string | null>(null)
+  // Applied filters live in the query string; inputs edit a draft until "Apply Filters"
+  const auditFilters = useMemo(() => parseAuditFilters(searchParams), [searchParams])
+  const [auditFilterDraft, setAuditFilterDraft] = useState<AuditFilters>(auditFilters)
+  const [exportColumnIds, setExportColumnIds] = useState<AuditColumnId[]>(DEFAULT_AUDIT_COLUMN_IDS)
+  const [exportExcelBom, setExportExcelBom] = useState(true)
+
+  // ============================================================================
+  // HANDLERS - Navigation
+  // ============================================================================
+
+  // Filters are written to the query string; empty and 'all' values are dropped
+  const updateSearchParams = useCallback((changes: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      for (const [key, value] of Object.entries(changes)) {
+        if (!value || value === 'all') {
+          next.delete(key)
+        } else {
+          next.set(key, value)
+        }
+      }
+      return next
+    }, { replace: true })
+  }, [setSearchParams])
+
+  const setStatusFilter = useCallback((status: string) => updateSearchParams({ status }), [updateSearchParams])
+
+  const clearExpenseFilters = useCallback(() => {
+    updateSearchParams(Object.fromEntries(Object.keys(EMPTY_EXPENSE_FILTERS).map(field => [field, ''])))
+  }, [updateSearchParams])
+
+  const drillThroughToExpenses = useCallback((filters: Partial<ExpenseFilters>) => {
+    navigate({ pathname: '/expenses', search: expenseFiltersToSearch(filters) })
+  }, [navigate])
+
+  const setAuditFilter = useCallback((field: keyof AuditFilters, value: string) => {
+    setAuditFilterDraft(prev => ({ ...prev, [field]: value }))
+  }, [])
+
+  const applyAuditFilters = useCallback((filters: AuditFilters) => {
+    updateSearchParams(auditFiltersToParams(filters))
+  }, [updateSearchParams])
+
+  // Back/forward navigation changes the applied filters; show them in the inputs
+  useEffect(() => {
+    setAuditFilterDraft(parseAuditFilters(searchParams))
+  }, [searchParams])
+
+  const openExpense = useCallback((id: string) => {
+    navigate({ pathname: `/expenses/${id}`, search: location.search })
+  }, [navigate, location.search])
+
+  const openReview = useCallback((id: string) => {
+    navigate(`/review/${id}`)
+  }, [navigate])
+
+  // A decision shown for one expense should not linger on the next
+  useEffect(() => {
+    setApprovalResult(null)
+    setStepSignedNotice(null)
+    setDecisionError(null)
+    setAppealError(null)
+  }, [selectedExpenseId])
+
+  // ============================================================================
+  // HANDLERS - Review SLA
+  // ============================================================================
+
+  // Hand the current step to the next approval level, log it and tell the employee.
+  // Every open tab runs the SLA monitor and decisions may land at any time, so, as
+  // decisions do, the step is re-checked in the same write; an expense already
+  // escalated or decided is left alone. Resolves with whether the escalation was written.
+  const escalateExpense = useCallback(async (
+    expense: ExpenseRecord,
+    reason: 'sla_breach' | 'manual',
+    actor: { id: string; name: string }
+  ) => {
+    const updated = await modifyExpense(expense.id, current => {
+      if (!isSameReviewStep(current, expense)) return null
+      const escalated = escalateApprovalChain(
+        getApprovalChain(current),
+        reason,
+        new Date().toISOString(),
+        reason === 'manual' ? actor.id : undefined
+      )
+      return escalated && { approvalChain: escalated.chain }
+    })
+    if (!updated) return false
+
+    // The escalation just written is the newest
+    const escalations = getApprovalChain(updated).escalations ?? []
+    const escalation = escalations[escalations.length - 1]
+
+    const from = APPROVAL_STEP_LABELS[escalation.fromRole]
+    const to = APPROVAL_STEP_LABELS[escalation.toRole]
+    await recordAuditEvent({
+      expenseId: expense.id,
+      type: 'escalated',
+      actorId: actor.id,
+      actorName: actor.name,
+      timestamp: escalation.escalatedAt,
+      message: reason === 'sla_breach'
+        ? `${from} review exceeded the ${REVIEW_SLA_POLICY.businessDaysPerStep}-business-day SLA and was escalated to ${to}`
+        : `${actor.name} escalated ${from} review to ${to}`,
+      details: { ...escalation },
+      before: captureExpenseState(expense),
+      after: captureExpenseState(updated)
+    })
+
+    const submitter = getSubmitter(expense)
+    if (submitter) {
+      await notify({
+        userId: submitter.id,
+        expenseId: expense.id,
+        message: `Your expense ${expense.id} (${expense.vendor}) was escalated to ${to} review.`
+      })
+    }
+    return true
+  }, [modifyExpense, recordAuditEvent, notify])
+
+  const handleManualEscalation = async (expense: ExpenseRecord) => {
+    setDecisionError(null)
+    try {
+      if (!(await escalateExpense(expense, 'manual', currentUser))) setDecisionError(STEP_MOVED_ERROR)
+    } catch (error) {
+      console.error('Escalation failed:', error)
+      setDecisionError(error instanceof Error ? error.message : 'Escalation failed')
+    }
+  }
+
+  useEffect(() => {
+    const timer = setInterval(() => setSlaNow(Date.now()), 60_000)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Automatic escalation: overdue steps move up a level; the SLA clock then restarts
+  useEffect(() => {
+    if (REVIEW_SLA_POLICY.escalation !== 'automatic' || expensesLoading || escalationRunningRef.current) return
+
+    const now = new Date(slaNow)
+    const overdue = expenses.filter(e => getReviewSla(e, now)?.state === 'overdue' && canEscalate(e))
+    if (overdue.length === 0) return
+
+    escalationRunningRef.current = true
+    overdue
+      .reduce((chain, expense) => chain.then(() => escalateExpense(expense, 'sla_breach', SLA_MONITOR_ACTOR)), Promise.resolve())
+      .catch(error => console.error('Automatic escalation failed:', error))
+      .finally(() => {
+        escalationRunningRef.current = false
+      })
+  }, [expenses, expensesLoading, slaNow, escalateExpense])
 
   // ============================================================================
   // HANDLERS - Employee Dashboard
   // ============================================================================
 
-  const handleFileSelect = useCallback((file: File) => {
+  const handleFileSelect = useCallback(async (file: File) => {
     setReceiptFile(file)
     const reader = new FileReader()
     reader.onloadend = () => {
       setReceiptPreview(reader.result as string)
     }
     reader.readAsDataURL(file)
+
+    // Upload and extract right away so the form can be pre-filled
+    const requestId = ++extractionRequestRef.current
+    setReceiptAssetId(null)
+    setExtractedReceipt(null)
+    setAutofillFields({})
+    setExtractionError(null)
+    setIsExtracting(true)
+
+    try {
+      const upload = await uploadFiles(file)
+      if (requestId !== extractionRequestRef.current) return
+      if (!upload.success || upload.asset_ids.length === 0) {
+        setExtractionError(`Receipt upload failed: ${upload.error || upload.message}`)
+        return
+      }
+      const assetId = upload.asset_ids[0]
+      setReceiptAssetId(assetId)
+
+      const receipt = await extractReceipt(assetId)
+      if (requestId !== extractionRequestRef.current) return
+
+      const autofill = buildReceiptAutofill(receipt)
+      setExtractedReceipt(receipt)
+      setAutofillFields(autofill.fields)
+      setExpenseData(prev => ({ ...prev, ...autofill.values }))
+    } catch (error) {
+      if (requestId !== extractionRequestRef.current) return
+      setExtractionError(error instanceof Error ? error.message : 'Receipt extraction failed')
+    } finally {
+      if (requestId === extractionRequestRef.current) setIsExtracting(false)
+    }
   }, [])
 
   const handleExpenseDataChange = useCallback((field: string, value: string) => {
     setExpenseData(prev => ({ ...prev, [field]: value }))
+    // Once the employee touches a field it is theirs, not the agent's
+    setAutofillFields(prev => {
+      if (!(field in prev)) return prev
+      const { [field as AutofillField]: _removed, ...rest } = prev
+      return rest
+    })
+  }, [])
+
+  const resetExpenseForm = useCallback(() => {
+    extractionRequestRef.current++
+    setReceiptFile(null)
+    setReceiptPreview('')
+    setReceiptAssetId(null)
+    setExtractedReceipt(null)
+    setAutofillFields({})
+    setExtractionError(null)
+    setIsExtracting(false)
+    setExpenseData({ vendor: '', amount: '', currency: HOME_CURRENCY, date: '', time: '', category: 'Business Meal' })
   }, [])
 
+  // Load a rejected or needs-info expense into the form; its receipt is kept unless replaced
+  const startEditing = useCallback((expense: ExpenseRecord) => {
+    resetExpenseForm()
+    setEditingExpense(expense)
+    setReceiptAssetId(expense.receipt?.assetId ?? null)
+    setExpenseData({
+      vendor: expense.vendor,
+      amount: toDecimalString(getOriginalMoney(expense)),
+      currency: getExpenseCurrency(expense),
+      date: expense.date,
+      time: expense.transactionTime ?? '',
+      category: expense.category
+    })
+    setValidationResult(null)
+    setValidationError(null)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }, [resetExpenseForm])
+
+  const cancelEditing = useCallback(() => {
+    setEditingExpense(null)
+    resetExpenseForm()
+  }, [resetExpenseForm])
+
   const handleSubmitExpense = async () => {
+    if (!enteredAmount) {
+      setValidationError(`"${expenseData.amount}" is not a valid amount.`)
+      return
+    }
+    if (!submissionConversion) {
+      setValidationError(`No ${expenseData.currency} exchange rate covers ${expenseData.date}; an admin needs to import one.`)
+      return
+    }
+    const conversion = submissionConversion
+    const homeAmount = toAmount(conversion.home)
+    // A resubmission keeps the zone the expense was first entered in
+    const timeZone = editingExpense?.timeZone ?? getLocalTimeZone()
+    const transactionTime = expenseData.time || undefined
+    // Home-currency expenses carry no currency fields; a resubmission in USD clears old ones
+    const currencyFields: Pick<ExpenseRecord, 'currency' | 'originalAmount' | 'fxRate' | 'fxRateDate'> =
+      expenseData.currency === HOME_CURRENCY
+        ? { currency: undefined, originalAmount: undefined, fxRate: undefined, fxRateDate: undefined }
+        : {
+            currency: expenseData.currency,
+            originalAmount: toAmount(enteredAmount),
+            fxRate: conversion.rate,
+            fxRateDate: conversion.rateDate
+          }
+
     setIsValidating(true)
     setValidationError(null)
     setValidationResult(null)
-    setValidationStage(0)
+    setValidationRunMeta(null)
+    setValidationStages(createValidationStages())
 
     try {
-      // Simulate validation stages
-      const stages = [
-        { name: 'Extracting receipt data...', delay: 800 },
-        { name: 'Checking for fraud...', delay: 1000 },
-        { name: 'Validating policy compliance...', delay: 900 },
-        { name: 'Verifying employee eligibility...', delay: 700 },
-        { name: 'Generating final report...', delay: 600 }
-      ]
-
-      for (let i = 0; i < stages.length; i++) {
-        setValidationStage(i)
-        await new Promise(resolve => setTimeout(resolve, stages[i].delay))
-      }
-
-      // Call Expense Validation Coordinator
-      const message = `Validate expense: Vendor: ${expenseData.vendor}, Amount: $${expenseData.amount}, Date: ${expenseData.date}, Category: ${expenseData.category}, Employee: Current User`
-
-      const result = await callAIAgent(message, AGENT_IDS.EXPENSE_VALIDATION_COORDINATOR)
-
-      if (result.success && result.response) {
-        // Parse the nested response structure
-        let validationData: ValidationResult
-
-        if (typeof result.response.response === 'string') {
-          const parsedResponse = JSON.parse(result.response.response)
-          validationData = parsedResponse.result as ValidationResult
-        } else if (result.response.result) {
-          validationData = result.response.result as ValidationResult
-        } else {
-          throw new Error('Invalid response structure')
+      // Upload the receipt so the extraction and fraud agents can inspect it,
+      // unless it was already uploaded for auto-fill
+      let assetId = receiptAssetId ?? undefined
+      if (receiptFile && !assetId) {
+        const upload = await uploadFiles(receiptFile)
+        if (!upload.success || upload.asset_ids.length === 0) {
+          setValidationError(`Receipt upload failed: ${upload.error || upload.message}`)
+          return
         }
+        assetId = upload.asset_ids[0]
+        setReceiptAssetId(assetId)
+      }
 
-        setValidationResult(validationData)
-
-        // Add to expenses list
-        const newExpense: ExpenseRecord = {
-          id: `EXP-2026-${String(expenses.length + 1).padStart(3, '0')}`,
-          employee: 'Current User',
+      const submission: ExpenseSubmission = {
+        vendor: expenseData.vendor,
+        amount: enteredAmount,
+        homeAmount: conversion.home,
+        date: expenseData.date,
+        transactionTime,
+        timeZone,
+        category: expenseData.category,
+        employee: currentUser.name,
+        receiptAssetId: assetId,
+        receipt: extractedReceipt ?? undefined
+      }
+      const report = await runValidation(validationMode, submission, { onProgress: setValidationStages })
+      setValidationStages(prev => completeValidationStages(prev, { success: true }))
+
+      const validationData = report.result
+      setValidationResult(validationData)
+      setValidationRunMeta(report.meta)
+
+      // Persist the new expense together with its receipt
+      const now = new Date().toISOString()
+      // Expenses without a receipt are never auto-approved
+      const status: ExpenseStatus = validationData.final_recommendation === 'reject' ? 'rejected' :
+        validationData.final_recommendation === 'AUTO_APPROVE' && assetId ? 'approved' : 'reviewing'
+      const receipt = receiptFile
+        ? { fileName: receiptFile.name, mimeType: receiptFile.type, size: receiptFile.size, assetId }
+        : editingExpense?.receipt
+
+      if (editingExpense) {
+        await resubmitExpense(editingExpense, {
           vendor: expenseData.vendor,
-          amount: parseFloat(expenseData.amount),
+          amount: homeAmount,
+          ...currencyFields,
           date: expenseData.date,
+          transactionTime,
+          timeZone,
           category: expenseData.category,
-          status: validationData.final_recommendation === 'AUTO_APPROVE' ? 'approved' :
-                  validationData.final_recommendation === 'MANAGER_REVIEW' ? 'reviewing' : 'rejected',
+          status,
           riskScore: validationData.validation_summary.risk_level,
-          validationResult: validationData
-        }
-        setExpenses(prev => [newExpense, ...prev])
-      } else {
-        setValidationError(result.error || 'Validation failed')
+          validationResult: validationData,
+          validationMeta: report.meta,
+          validationDetails: report.details,
+          receipt,
+          approvalChain: status === 'reviewing'
+            ? buildApprovalChain(homeAmount, validationData, now)
+            : undefined
+        }, now)
+        setEditingExpense(null)
+        return
       }
+
+      const newExpense: ExpenseRecord = {
+        id: `EXP-${now.slice(0, 4)}-${crypto.randomUUID().slice(0, 8).toUpperCase()}`,
+        employee: currentUser.name,
+        employeeId: currentUser.id,
+        vendor: expenseData.vendor,
+        amount: homeAmount,
+        ...currencyFields,
+        date: expenseData.date,
+        transactionTime,
+        timeZone,
+        category: expenseData.category,
+        status,
+        riskScore: validationData.validation_summary.risk_level,
+        validationResult: validationData,
+        validationMeta: report.meta,
+        validationDetails: report.details,
+        receipt,
+        approvalChain: status === 'reviewing'
+          ? buildApprovalChain(homeAmount, validationData)
+          : undefined,
+        createdAt: now,
+        updatedAt: now
+      }
+      await addExpense(newExpense, receiptFile)
+
+      // The expense was pending while validation ran
+      const submitted = captureExpenseState({ ...newExpense, status: 'pending', approvalChain: undefined })
+      await recordAuditEvent({
+        expenseId: newExpense.id,
+        type: 'submitted',
+        actorId: currentUser.id,
+        actorName: currentUser.name,
+        timestamp: now,
+        message: `${currentUser.name} submitted ${describeAmount(newExpense)} at ${newExpense.vendor}${newExpense.receipt ? '' : ' without a receipt'}`,
+        details: { receipt: newExpense.receipt?.fileName ?? null },
+        after: submitted
+      })
+      await recordValidation(newExpense, submitted)
     } catch (error) {
-      setValidationError('Network error occurred')
+      const message = error instanceof Error ? error.message : 'Network error occurred'
+      setValidationStages(prev => completeValidationStages(prev, { success: false, error: message }))
+      setValidationError(message)
     } finally {
       setIsValidating(false)
-      setValidationStage(5)
     }
   }
 
+  const recordValidation = async (expense: ExpenseRecord, before: ExpenseAuditState) => {
+    const result = expense.validationResult
+    if (!result) return
+    await recordAuditEvent({
+      expenseId: expense.id,
+      type: 'validated',
+      actorId: VALIDATION_ACTOR.id,
+      actorName: VALIDATION_ACTOR.name,
+      timestamp: expense.validationMeta?.completedAt ?? expense.updatedAt,
+      message: `Validation recommended ${result.final_recommendation} (${result.validation_summary.risk_level} risk); expense ${expense.status}`,
+      details: {
+        recommendation: result.final_recommendation,
+        riskLevel: result.validation_summary.risk_level,
+        fraudScore: result.fraud_analysis?.fraud_score ?? null,
+        mode: expense.validationMeta?.mode ?? null,
+        durationMs: expense.validationMeta?.durationMs ?? null
+      },
+      before,
+      after: captureExpenseState(expense)
+    })
+  }
+
+  // An approval that triggered reimbursement is logged as paid; `expense` is the record as saved
+  const recordPayment = async (expense: ExpenseRecord, result: ApprovalResult) => {
+    if (expense.status !== 'approved' || !result.workflow_actions?.reimbursement_triggered) return
+    const reimbursement = result.reimbursement_details
+    await recordAuditEvent({
+      expenseId: expense.id,
+      type: 'paid',
+      actorId: REIMBURSEMENT_ACTOR.id,
+      actorName: REIMBURSEMENT_ACTOR.name,
+      timestamp: result.audit_trail?.timestamp ?? new Date().toISOString(),
+      message: reimbursement
+        ? `Reimbursement of ${formatCurrency(reimbursement.amount, reimbursement.currency)} scheduled via ${reimbursement.payment_method} (ref ${reimbursement.reference_number})`
+        : 'Reimbursement triggered',
+      details: reimbursement ? { ...reimbursement } : undefined
+    })
+  }
+
+  // Replace the expense with a new version, keeping the old one and its results
+  const resubmitExpense = async (previous: ExpenseRecord, changes: Partial<ExpenseRecord>, now: string) => {
+    const approvalResults = (await repository.listApprovalResults(previous.id)).map(stored => stored.result)
+    const snapshot = snapshotVersion(previous, approvalResults, now)
+    const updated: ExpenseRecord = {
+      ...previous,
+      ...changes,
+      version: getVersionNumber(previous) + 1,
+      versions: [...(previous.versions ?? []), snapshot],
+      editorIds: recordEditor(previous, changes, currentUser.id),
+      submittedAt: now,
+      updatedAt: now
+    }
+    await replaceExpense(updated, receiptFile)
+
+    const changed = diffVersions(snapshot, updated)
+    // The new version was pending while it was re-validated
+    const resubmitted: ExpenseAuditState = { ...captureExpenseState(updated), status: 'pending', approvalStep: null }
+    await recordAuditEvent({
+      expenseId: previous.id,
+      type: 'resubmitted',
+      actorId: currentUser.id,
+      actorName: currentUser.name,
+      timestamp: now,
+      message: `Resubmitted as version ${updated.version}${changed.length > 0 ? ` (changed: ${changed.map(c => c.label).join(', ')})` : ' (no field changes)'}`,
+      details: {
+        fromVersion: snapshot.version,
+        toVersion: updated.version,
+        changes: changed.map(({ field, before, after }) => ({ field, before, after }))
+      },
+      before: captureExpenseState(previous),
+      after: resubmitted
+    })
+    await recordValidation(updated, resubmitted)
+  }
+
   // ============================================================================
   // HANDLERS - Manager Review
   // ============================================================================
 
+  // Segregation of duties: returns why the user may not act, or null; blocked attempts are kept in the audit trail
+  const checkDutiesFor = async (expense: ExpenseRecord, action: string, decision: string): Promise<string | null> => {
+    const violations = checkSegregationOfDuties(currentUser, expense)
+    if (violations.length === 0) return null
+    const reason = violations.map(v => v.message).join(' ')
+    try {
+      await recordAuditEvent({
+        expenseId: expense.id,
+        type: 'decision_blocked',
+        actorId: currentUser.id,
+        actorName: currentUser.name,
+        timestamp: new Date().toISOString(),
+        message: `${action} blocked: ${reason}`,
+        details: { decision, violations: violations.map(v => v.code) }
+      })
+    } catch (error) {
+      console.error('Failed to record blocked decision:', error)
+    }
+    return reason
+  }
+
+  // Sign the expense's current step. Every rule is checked per expense, so this
+  // is safe to call for each item of a bulk action.
+  const decideExpense = async (
+    expense: ExpenseRecord,
+    decision: 'approve' | 'reject',
+    rationale: string
+  ): Promise<DecisionOutcome> => {
+    if (!can('review:decide')) {
+      return { ok: false, error: `Your role (${ROLE_LABELS[currentUser.role]}) cannot approve or reject expenses.` }
+    }
+    const authority = getSigningAuthority(currentUser, expense, delegations)
+    if (!authority) {
+      return { ok: false, error: 'This expense is not waiting on your approval step.' }
+    }
+
+    const blocked = await checkDutiesFor(expense, decision === 'approve' ? 'Approval' : 'Rejection', decision)
+    if (blocked) return { ok: false, error: blocked }
+
+    try {
+      // Signing the snapshot checks the decision and shows whether it ends the chain
+      const chain = getApprovalChain(expense)
+      const signed = signApprovalStep(chain, authority, decision, rationale)
+      const signedAt = signed.chain.signatures[signed.chain.signatures.length - 1].signedAt
+      const onBehalfOf = authority.onBehalfOf
+
+      // The stored step is signed in the same write it is re-read in; null when another
+      // decision or an escalation changed it since this snapshot was taken
+      const signStoredStep = (current: ExpenseRecord) => {
+        if (!isSameReviewStep(current, expense)) return null
+        const stored = signApprovalStep(getApprovalChain(current), authority, decision, rationale, signedAt)
+        return { approvalChain: stored.chain, status: stored.status }
+      }
+
+      const recordSignature = (updated: ExpenseRecord) => {
+        const { signatures } = getApprovalChain(updated)
+        const signature = signatures[signatures.length - 1]
+        return recordAuditEvent({
+          expenseId: expense.id,
+          type: 'decision_recorded',
+          actorId: currentUser.id,
+          actorName: currentUser.name,
+          timestamp: signature.signedAt,
+          message: `${APPROVAL_STEP_LABELS[signature.role]} step ${decision === 'approve' ? 'approved' : 'rejected'} by ${describeApprover(authority)}`,
+          details: {
+            step: signature.step,
+            role: signature.role,
+            decision,
+            rationale,
+            ...(onBehalfOf && { delegateId: currentUser.id, originalApproverId: onBehalfOf.id })
+          },
+          before: captureExpenseState(expense),
+          after: captureExpenseState(updated)
+        })
+      }
+
+      // Intermediate approvals only record the signature; the agent processes the final outcome
+      if (!signed.complete) {
+        const updated = await modifyExpense(expense.id, signStoredStep)
+        if (!updated) return { ok: false, error: STEP_MOVED_ERROR }
+        await recordSignature(updated)
+        return { ok: true, status: updated.status, nextRole: getCurrentStepRole(getApprovalChain(updated)) }
+      }
+
+      const priorSignatures = chain.signatures
+        .map(s => `${APPROVAL_STEP_LABELS[s.role]} ${s.userName}: ${s.decision.toUpperCase()}`)
+        .join('; ')
+      const message = `Process approval decision: Expense ID: ${expense.id}, Employee: ${expense.employee}, Amount: ${describeAmount(expense)}, Manager Decision: ${decision.toUpperCase()}, Approver: ${currentUser.name} (${currentUser.title})${onBehalfOf ? `, Acting On Behalf Of: ${onBehalfOf.name} (${onBehalfOf.title})` : ''}, Approval Chain: ${chain.steps.join(' > ')}${priorSignatures ? `, Prior Signatures: ${priorSignatures}` : ''}, Rationale: ${rationale}`
+
+      const result = await callAIAgent(message, AGENT_IDS.MANAGER_APPROVAL)
+      if (!result.success || !result.response) {
+        return { ok: false, error: result.error || 'The approval agent did not process the decision.' }
+      }
+
+      const agentResult = getAgentResult<ApprovalResult>(result.response)
+      // Delegated decisions name both the substitute and the approver they stood in for
+      const approvalData: ApprovalResult = onBehalfOf
+        ? {
+            ...agentResult,
+            decision_details: {
+              ...agentResult.decision_details,
+              delegate_id: currentUser.id,
+              original_approver_id: onBehalfOf.id
+            }
+          }
+        : agentResult
+
+      // Persist the decision and the final signature; the chain, not the agent's reply, sets the status.
+      // The agent call takes seconds, so the step is checked again as it is written.
+      const updated = await recordApproval(expense.id, approvalData, signStoredStep)
+      if (!updated) return { ok: false, error: STEP_MOVED_ERROR }
+      await recordSignature(updated)
+      await recordPayment(updated, approvalData)
+      return { ok: true, status: updated.status, approvalResult: approvalData }
+    } catch (error) {
+      console.error('Approval processing error:', error)
+      return { ok: false, error: error instanceof Error ? error.message : 'Approval processing failed' }
+    }
+  }
+
   const handleApprovalDecision = async (decision: 'approve' | 'reject') => {
-    if (!selectedExpense) return
+    if (!selectedExpense || !managerRationale) return
 
     setIsProcessingApproval(true)
     setApprovalResult(null)
+    setStepSignedNotice(null)
+    setDecisionError(null)
+
+    const outcome = await decideExpense(selectedExpense, decision, managerRationale)
+    if (outcome.ok === false) {
+      setDecisionError(outcome.error)
+    } else {
+      if (outcome.approvalResult) {
+        setApprovalResult(outcome.approvalResult)
+      } else {
+        setStepSignedNotice(`Signed. Now awaiting ${outcome.nextRole ? APPROVAL_STEP_LABELS[outcome.nextRole] : 'final'} approval.`)
+      }
+      setManagerRationale('')
+    }
+    setIsProcessingApproval(false)
+  }
+
+  // Decide every selected expense with one rationale; failures are reported per expense
+  const handleBulkDecision = async (decision: 'approve' | 'reject') => {
+    const targets = bulkTargets
+    if (targets.length === 0 || !bulkRationale) return
+
+    setIsBulkProcessing(true)
+    setBulkResults([])
+
+    const results: BulkDecisionResult[] = []
+    for (const target of targets) {
+      // A long run outlives the selection snapshot; decide on each expense as stored now
+      const expense = await repository.getExpense(target.id).catch(() => null)
+      const outcome: DecisionOutcome = expense
+        ? await decideExpense(expense, decision, bulkRationale)
+        : { ok: false, error: 'Could not load the expense.' }
+      results.push({
+        expenseId: target.id,
+        ok: outcome.ok,
+        message: outcome.ok === false
+          ? outcome.error
+          : outcome.approvalResult
+            ? `Expense ${outcome.status}`
+            : `Signed; awaiting ${outcome.nextRole ? APPROVAL_STEP_LABELS[outcome.nextRole] : 'final'} approval`
+      })
+      setBulkResults([...results])
+    }
+
+    // Failed items stay selected so they can be retried or handled individually
+    setBulkSelection(results.filter(r => !r.ok).map(r => r.expenseId))
+    if (results.every(r => r.ok)) setBulkRationale('')
+    setIsBulkProcessing(false)
+  }
+
+  const toggleBulkSelection = (id: string) => {
+    setBulkSelection(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]))
+  }
 
+  // ============================================================================
+  // HANDLERS - Comment Thread
+  // ============================================================================
+
+  // Keep the file locally and, when possible, upload it so agents can read it on re-validation
+  const storeAttachment = async (expenseId: string, file: File): Promise<CommentAttachment> => {
+    const id = `ATT-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+    await repository.saveAttachment({
+      id,
+      expenseId,
+      blob: file,
+      fileName: file.name,
+      mimeType: file.type,
+      storedAt: new Date().toISOString()
+    })
+
+    let assetId: string | undefined
     try {
-      const message = `Process approval decision: Expense ID: ${selectedExpense.id}, Employee: ${selectedExpense.employee}, Amount: $${selectedExpense.amount}, Manager Decision: ${decision.toUpperCase()}, Rationale: ${managerRationale}`
+      const upload = await uploadFiles(file)
+      assetId = upload.success ? upload.asset_ids[0] : undefined
+    } catch (error) {
+      console.error('Attachment upload failed:', error)
+    }
+    return { id, fileName: file.name, mimeType: file.type, size: file.size, assetId }
+  }
 
-      const result = await callAIAgent(message, AGENT_IDS.MANAGER_APPROVAL)
+  // The comment is appended to the stored thread. `changesFor` adds related changes checked against the
+  // stored record, or returns null to refuse; `updated` is then null and nothing is written.
+  const appendComment = async (
+    expense: ExpenseRecord,
+    kind: ExpenseComment['kind'],
+    body: string,
+    files: File[] = [],
+    changesFor: (current: ExpenseRecord) => Partial<ExpenseRecord> | null = () => ({})
+  ) => {
+    const attachments = await Promise.all(files.map(file => storeAttachment(expense.id, file)))
+    const comment: ExpenseComment = {
+      id: `CMT-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      authorId: currentUser.id,
+      authorName: currentUser.name,
+      kind,
+      body,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      createdAt: new Date().toISOString()
+    }
+    const updated = await modifyExpense(expense.id, current => {
+      const changes = changesFor(current)
+      return changes && { ...changes, comments: [...(current.comments ?? []), comment] }
+    })
+    return { comment, updated }
+  }
 
-      if (result.success && result.response) {
-        // Parse the nested response structure
-        let approvalData: ApprovalResult
+  // Reviewer asks a question; the expense leaves the queue until the employee answers
+  const handleRequestInfo = async () => {
+    if (!selectedExpense || !signingAuthority || !managerRationale) return
 
-        if (typeof result.response.response === 'string') {
-          const parsedResponse = JSON.parse(result.response.response)
-          approvalData = parsedResponse.result as ApprovalResult
-        } else if (result.response.result) {
-          approvalData = result.response.result as ApprovalResult
-        } else {
-          throw new Error('Invalid response structure')
-        }
+    setIsProcessingApproval(true)
+    setDecisionError(null)
+    try {
+      const blocked = await checkDutiesFor(selectedExpense, 'Information request', 'request_info')
+      if (blocked) {
+        setDecisionError(blocked)
+        return
+      }
+      const { comment, updated } = await appendComment(
+        selectedExpense,
+        'info_request',
+        managerRationale,
+        [],
+        current => (isSameReviewStep(current, selectedExpense) ? { status: 'needs_info' } : null)
+      )
+      if (!updated) {
+        setDecisionError(STEP_MOVED_ERROR)
+        return
+      }
+      await recordAuditEvent({
+        expenseId: selectedExpense.id,
+        type: 'info_requested',
+        actorId: currentUser.id,
+        actorName: currentUser.name,
+        timestamp: comment.createdAt,
+        message: `${currentUser.name} requested more information: ${comment.body}`,
+        details: { commentId: comment.id },
+        before: captureExpenseState(selectedExpense),
+        after: captureExpenseState(updated)
+      })
+      const submitter = getSubmitter(selectedExpense)
+      if (submitter) {
+        await notify({
+          userId: submitter.id,
+          expenseId: selectedExpense.id,
+          message: `${currentUser.name} needs more information about ${selectedExpense.id} (${selectedExpense.vendor}).`
+        })
+      }
+      setManagerRationale('')
+    } catch (error) {
+      setDecisionError(error instanceof Error ? error.message : 'Could not request information')
+    } finally {
+      setIsProcessingApproval(false)
+    }
+  }
+
+  // Employee answers; the expense returns to the same approval step with a fresh SLA clock
+  const handleInfoResponse = async (expense: ExpenseRecord, body: string, files: File[]) => {
+    if (expense.status !== 'needs_info' || !isOwnExpense(currentUser, expense)) return
+
+    const now = new Date().toISOString()
+    // Checked on the stored record so a double submit returns the expense to review once
+    const { comment, updated } = await appendComment(expense, 'response', body, files, current =>
+      current.status === 'needs_info'
+        ? { status: 'reviewing', approvalChain: { ...getApprovalChain(current), stepStartedAt: now } }
+        : null
+    )
+    if (!updated) throw new Error('This expense is no longer waiting on your answer.')
+    await recordAuditEvent({
+      expenseId: expense.id,
+      type: 'info_provided',
+      actorId: currentUser.id,
+      actorName: currentUser.name,
+      timestamp: comment.createdAt,
+      message: `${currentUser.name} responded${comment.attachments ? ` with ${comment.attachments.length} attachment(s)` : ''}; returned to review`,
+      details: { commentId: comment.id, attachments: comment.attachments?.map(a => a.fileName) ?? [] },
+      before: captureExpenseState(expense),
+      after: captureExpenseState(updated)
+    })
+
+    const lastRequest = [...(expense.comments ?? [])].reverse().find(c => c.kind === 'info_request')
+    if (lastRequest) {
+      await notify({
+        userId: lastRequest.authorId,
+        expenseId: expense.id,
+        message: `${currentUser.name} answered your question on ${expense.id}.`
+      })
+    }
+  }
+
+  const handleReviewerComment = async (expense: ExpenseRecord, body: string, files: File[]) => {
+    await appendComment(expense, 'comment', body, files)
+    const submitter = getSubmitter(expense)
+    if (submitter && submitter.id !== currentUser.id) {
+      await notify({
+        userId: submitter.id,
+        expenseId: expense.id,
+        message: `${currentUser.name} commented on ${expense.id}.`
+      })
+    }
+  }
+
+  const handleOpenAttachment = async (attachment: CommentAttachment) => {
+    const stored = await repository.getAttachment(attachment.id)
+    if (!stored) throw new Error(`${attachment.fileName} is no longer stored in this browser.`)
+    const url = URL.createObjectURL(stored.blob)
+    window.open(url, '_blank', 'noopener')
+    // Give the new tab time to load before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 60_000)
+  }
+
+  // ============================================================================
+  // HANDLERS - Audit Log
+  // ============================================================================
+
+  const handleExportAuditCsv = () => {
+    const csv = toCsv(auditRows, getAuditColumns(exportColumnIds))
+    const stamp = localToday()
+    downloadCsv(`audit-log-${stamp}.csv`, csv, { excelBom: exportExcelBom })
+  }
+
+  const toggleExportColumn = (id: AuditColumnId) => {
+    setExportColumnIds(prev => (prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]))
+  }
+
+  const handleVerifyAuditLog = async () => {
+    setIsVerifyingAudit(true)
+    setAuditVerificationError(null)
+    try {
+      setAuditVerification(await verifyAuditLog())
+    } catch (error) {
+      console.error('Audit verification failed:', error)
+      setAuditVerification(null)
+      setAuditVerificationError(error instanceof Error ? error.message : 'Verification failed')
+    } finally {
+      setIsVerifyingAudit(false)
+    }
+  }
 
-        setApprovalResult(approvalData)
+  // ============================================================================
+  // HANDLERS - Appeals
+  // ============================================================================
 
-        // Update expense status
-        setExpenses(prev => prev.map(exp =>
-          exp.id === selectedExpense.id
-            ? { ...exp, status: approvalData.expense_status }
-            : exp
-        ))
+  // Employee contests a rejection; the expense goes to a reviewer above the original decider
+  const handleSubmitAppeal = async (expense: ExpenseRecord) => {
+    if (!canAppeal(expense) || !isOwnExpense(currentUser, expense) || !appealJustification.trim()) return
 
-        // Clear rationale
-        setManagerRationale('')
+    setIsSubmittingAppeal(true)
+    setAppealError(null)
+    try {
+      // Appended to the stored appeals, so a double submit or a second tab cannot file two
+      const justification = appealJustification.trim()
+      const updated = await modifyExpense(expense.id, current =>
+        canAppeal(current) && getVersionNumber(current) === getVersionNumber(expense)
+          ? { status: 'appealed', appeals: [...(current.appeals ?? []), createAppeal(current, justification)] }
+          : null
+      )
+      if (!updated) {
+        setAppealError('This rejection has already been appealed or is no longer open to appeal.')
+        return
+      }
+      const appeal = getLatestAppeal(updated)!
+      const { originalDecision } = appeal
+      await recordAuditEvent({
+        expenseId: expense.id,
+        type: 'appeal_submitted',
+        actorId: currentUser.id,
+        actorName: currentUser.name,
+        timestamp: appeal.submittedAt,
+        message: `${currentUser.name} appealed the rejection by ${originalDecision.deciderName ?? 'automated validation'}; routed to ${APPROVAL_STEP_LABELS[appeal.reviewerRole]} review`,
+        details: {
+          appealId: appeal.id,
+          version: appeal.version,
+          justification: appeal.justification,
+          originalDecision: { ...originalDecision }
+        },
+        before: captureExpenseState(expense),
+        after: captureExpenseState(updated)
+      })
+      for (const reviewer of getAppealReviewers(updated, users)) {
+        await notify({
+          userId: reviewer.id,
+          expenseId: expense.id,
+          message: `${currentUser.name} appealed the rejection of ${expense.id} (${expense.vendor}).`
+        })
       }
+      setAppealJustification('')
     } catch (error) {
-      console.error('Approval processing error:', error)
+      console.error('Appeal submission error:', error)
+      setAppealError(error instanceof Error ? error.message : 'Appeal submission failed')
+    } finally {
+      setIsSubmittingAppeal(false)
+    }
+  }
+
+  // Overturning approves the expense through the approval agent; upholding restores the rejection
+  const handleAppealDecision = async (outcome: 'upheld' | 'overturned') => {
+    if (!selectedExpense || !managerRationale) return
+    const expense = selectedExpense
+    const appeal = getOpenAppeal(expense)
+    const blocker = getAppealReviewBlocker(currentUser, expense)
+    if (!appeal || blocker) {
+      setDecisionError(blocker ?? 'This expense has no open appeal.')
+      return
+    }
+
+    setIsProcessingApproval(true)
+    setApprovalResult(null)
+    setStepSignedNotice(null)
+    setDecisionError(null)
+    try {
+      const decided = decideAppeal(appeal, currentUser, outcome, managerRationale)
+      // Decided against the stored appeals; null when another reviewer already decided this appeal
+      const decideStoredAppeal = (current: ExpenseRecord) => {
+        if (current.status !== 'appealed' || getOpenAppeal(current)?.id !== appeal.id) return null
+        if (getAppealReviewBlocker(currentUser, current)) return null
+        const appeals = (current.appeals ?? []).map(a => (a.id === appeal.id ? decided : a))
+        return { appeals, status: outcome === 'overturned' ? 'approved' as const : 'rejected' as const }
+      }
+      let updated: ExpenseRecord | null
+      let approvalData: ApprovalResult | null = null
+
+      if (outcome === 'overturned') {
+        const message = `Process approval decision: Expense ID: ${expense.id}, Employee: ${expense.employee}, Amount: ${describeAmount(expense)}, Manager Decision: APPROVE, Approver: ${currentUser.name} (${currentUser.title}), Appeal: Overturns rejection by ${appeal.originalDecision.deciderName ?? 'automated validation'}, Employee Justification: ${appeal.justification}, Rationale: ${managerRationale}`
+        const result = await callAIAgent(message, AGENT_IDS.MANAGER_APPROVAL)
+        if (!result.success || !result.response) {
+          setDecisionError(result.error || 'The approval agent did not process the appeal.')
+          return
+        }
+        approvalData = getAgentResult<ApprovalResult>(result.response)
+        updated = await recordApproval(expense.id, approvalData, decideStoredAppeal)
+      } else {
+        updated = await modifyExpense(expense.id, decideStoredAppeal)
+      }
+      if (!updated) {
+        setDecisionError('This appeal was already decided or is no longer open.')
+        return
+      }
+      if (approvalData) setApprovalResult(approvalData)
+
+      await recordAuditEvent({
+        expenseId: expense.id,
+        type: 'appeal_decided',
+        actorId: currentUser.id,
+        actorName: currentUser.name,
+        timestamp: decided.decidedAt!,
+        message: `Appeal ${outcome} by ${currentUser.name}`,
+        details: {
+          appealId: appeal.id,
+          outcome,
+          rationale: managerRationale,
+          originalDeciderId: appeal.originalDecision.deciderId ?? null
+        },
+        before: captureExpenseState(expense),
+        after: captureExpenseState(updated)
+      })
+      if (approvalData) await recordPayment(updated, approvalData)
+      const submitter = getSubmitter(expense)
+      if (submitter) {
+        await notify({
+          userId: submitter.id,
+          expenseId: expense.id,
+          message: `Your appeal on ${expense.id} was ${outcome === 'overturned' ? 'granted; the expense is approved' : 'denied; the rejection stands'}.`
+        })
+      }
+      if (outcome === 'upheld') setStepSignedNotice('Appeal denied. The rejection stands.')
+      setManagerRationale('')
+    } catch (error) {
+      console.error('Appeal processing error:', error)
+      setDecisionError(error instanceof Error ? error.message : 'Appeal processing failed')
     } finally {
       setIsProcessingApproval(false)
     }
   }
 
+  // ============================================================================
+  // HANDLERS - Delegation
+  // ============================================================================
+
+  const handleCreateDelegation = async (draft: Omit<ApprovalDelegation, 'id' | 'createdAt'>) => {
+    const delegation = await createDelegation(draft)
+    const delegate = users.find(u => u.id === delegation.delegateId)
+    await recordAuditEvent({
+      type: 'delegation_created',
+      actorId: currentUser.id,
+      actorName: currentUser.name,
+      timestamp: delegation.createdAt,
+      message: `${currentUser.name} delegated approvals to ${delegate?.name ?? delegation.delegateId} from ${delegation.startDate} to ${delegation.endDate} (${describeDelegationLimits(delegation, formatCurrency)})`,
+      details: { ...delegation }
+    })
+  }
+
+  const handleRevokeDelegation = async (delegation: ApprovalDelegation) => {
+    const revoked = await revokeDelegation(delegation.id)
+    await recordAuditEvent({
+      type: 'delegation_revoked',
+      actorId: currentUser.id,
+      actorName: currentUser.name,
+      timestamp: revoked.revokedAt ?? new Date().toISOString(),
+      message: `${currentUser.name} revoked delegation ${delegation.id}`,
+      details: { delegationId: delegation.id }
+    })
+  }
+
+  // ============================================================================
+  // HANDLERS - Budgets
+  // ============================================================================
+
+  const handleCreateBudget = async (draft: BudgetDraft) => {
+    const budget = await createBudget(draft, currentUser.id)
+    await recordAuditEvent({
+      type: 'budget_created',
+      actorId: currentUser.id,
+      actorName: currentUser.name,
+      timestamp: budget.createdAt,
+      message: `${currentUser.name} set a ${formatCurrency(budget.amount)} budget for ${describeBudget(budget)}`,
+      details: { ...budget }
+    })
+  }
+
+  const handleDeleteBudget = async (budget: Budget) => {
+    await deleteBudget(budget.id)
+    await recordAuditEvent({
+      type: 'budget_deleted',
+      actorId: currentUser.id,
+      actorName: currentUser.name,
+      timestamp: new Date().toISOString(),
+      message: `${currentUser.name} deleted the ${formatCurrency(budget.amount)} budget for ${describeBudget(budget)}`,
+      details: { ...budget }
+    })
+  }
+
+  // ============================================================================
+  // HANDLERS - Exchange Rates
+  // ============================================================================
+
+  const handleImportFxRates = async (rates: FxRate[], fileName: string) => {
+    await importRates(rates)
+    const currencies = [...new Set(rates.map(rate => rate.currency))].sort()
+    await recordAuditEvent({
+      type: 'fx_rates_imported',
+      actorId: currentUser.id,
+      actorName: currentUser.name,
+      timestamp: rates[0]?.importedAt ?? new Date().toISOString(),
+      message: `${currentUser.name} imported ${rates.length} exchange rates (${currencies.join(', ')}) from ${fileName}`,
+      details: { fileName, rates: rates.map(({ currency, effectiveDate, rate }) => ({ currency, effectiveDate, rate })) }
+    })
+  }
+
   // ============================================================================
   // FILTERED DATA
   // ============================================================================
 
-  const filteredExpenses = expenses.filter(exp => {
-    if (statusFilter === 'all') return true
-    return exp.status === statusFilter
+  // Memoized so unrelated state changes (typing a rationale, the SLA tick) do
+  // not re-scan tens of thousands of expenses or audit events
+  const filteredExpenses = useMemo(
+    () => filterExpenses(visibleExpenses, expenseFilters),
+    [visibleExpenses, expenseFilters]
+  )
+
+  // Approvers only see expenses waiting on their step; read-only reviewers see everything open
+  const pendingExpenses = useMemo(
+    () => expenses.filter(e =>
+      (e.status === 'reviewing' || e.status === 'pending') &&
+      (!can('review:decide') || canSignStep(currentUser, e, delegations))
+    ),
+    [expenses, can, currentUser, delegations]
+  )
+
+  // Audit events matching the applied filters, newest first; exports use the same rows
+  const auditRows = useMemo(
+    () => filterAuditEvents(auditEvents, expenses, auditFilters),
+    [auditEvents, expenses, auditFilters]
+  )
+  const auditDraftChanged = JSON.stringify(auditFilterDraft) !== JSON.stringify(auditFilters)
+
+  // Open appeals; deciders only see the ones routed to them
+  const appealQueue = useMemo(
+    () => expenses.filter(e =>
+      e.status === 'appealed' && (!can('review:decide') || canReviewAppeal(currentUser, e))
+    ),
+    [expenses, can, currentUser]
+  )
+
+  // The employee's expenses waiting on their answer
+  const awaitingMyInfo = useMemo(
+    () => expenses.filter(e => e.status === 'needs_info' && isOwnExpense(currentUser, e)),
+    [expenses, currentUser]
+  )
+
+  const departments = useMemo(() => [...new Set(users.map(u => u.department))].sort(), [users])
+
+  // Budgets the expense being entered would strain; a resubmission replaces its previous amount
+  const submissionBudgetWarnings = useMemo(
+    () => getBudgetWarnings({
+      id: editingExpense?.id,
+      department: editingExpense ? getExpenseDepartment(editingExpense) : currentUser.department,
+      category: expenseData.category,
+      date: expenseData.date,
+      amount: submissionConversion ? toAmount(submissionConversion.home) : NaN
+    }, budgets, expenses),
+    [editingExpense, currentUser, expenseData, submissionConversion, budgets, expenses]
+  )
+
+  // Budgets approving the selected expense would strain
+  const reviewBudgetWarnings = useMemo(
+    () => selectedExpense && ['pending', 'reviewing', 'appealed'].includes(selectedExpense.status)
+      ? getBudgetWarnings({
+        id: selectedExpense.id,
+        department: getExpenseDepartment(selectedExpense),
+        category: selectedExpense.category,
+        date: selectedExpense.date,
+        amount: selectedExpense.amount
+      }, budgets, expenses)
+      : [],
+    [selectedExpense, budgets, expenses]
+  )
+
+  // Selected ids can go stale once an expense leaves the queue
+  const bulkTargets = pendingExpenses.filter(e => bulkSelection.includes(e.id))
+
+  const queueSla = useMemo(
+    () => new Map(pendingExpenses.map(e => [e.id, getReviewSla(e, new Date(slaNow))])),
+    [pendingExpenses, slaNow]
+  )
+
+  const {
+    scrollRef: queueScrollRef,
+    start: queueStart,
+    end: queueEnd,
+    paddingTop: queuePaddingTop,
+    paddingBottom: queuePaddingBottom,
+    measureRows: measureQueueRows,
+    scrollToIndex: scrollQueueToIndex
+  } = useVirtualRows({
+    count: pendingExpenses.length,
+    estimatedRowHeight: 160,
+    enabled: canAccessView && currentView === 'manager' && pendingExpenses.length > QUEUE_VIRTUALIZE_THRESHOLD
   })
 
-  const pendingExpenses = expenses.filter(e => e.status === 'reviewing' || e.status === 'pending')
+  // Correct the card height estimate from the cards just rendered; each includes its gap
+  useLayoutEffect(() => {
+    const list = queueScrollRef.current
+    if (!list || queueEnd <= queueStart) return
+    const rendered = Array.from(list.querySelectorAll<HTMLElement>('[data-queue-id]'))
+    measureQueueRows(rendered.reduce((sum, item) => sum + item.getBoundingClientRect().height, 0), rendered.length)
+  })
+
+  // Queue items the current user can only sign as someone's delegate, keyed to that approver's name
+  const delegatedFor = useMemo(
+    () => new Map(
+      pendingExpenses.flatMap(e => {
+        const onBehalfOf = getSigningAuthority(currentUser, e, delegations)?.onBehalfOf
+        return onBehalfOf ? [[e.id, onBehalfOf.name] as const] : []
+      })
+    ),
+    [pendingExpenses, currentUser, delegations]
+  )
+
+  // ============================================================================
+  // KEYBOARD SHORTCUTS - Review Queue
+  // ============================================================================
+
+  // Reassigned every render so the listener always sees current state
+  const reviewShortcutRef = useRef<(event: KeyboardEvent) => void>(() => {})
+  reviewShortcutRef.current = (event: KeyboardEvent) => {
+    if (currentView !== 'manager' || !canAccessView) return
+    if (event.metaKey || event.ctrlKey || event.altKey) return
+    const target = event.target as HTMLElement | null
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return
+
+    const index = selectedExpense ? pendingExpenses.findIndex(e => e.id === selectedExpense.id) : -1
+    const move = (offset: number) => {
+      const next = pendingExpenses[Math.min(Math.max(index + offset, 0), pendingExpenses.length - 1)]
+      if (!next) return
+      openReview(next.id)
+      // Cards outside the rendered window are not in the DOM yet
+      const card = document.querySelector(`[data-queue-id="${next.id}"]`)
+      if (card) card.scrollIntoView({ block: 'nearest' })
+      else scrollQueueToIndex(pendingExpenses.indexOf(next))
+    }
+
+    switch (event.key) {
+      case 'j':
+        move(index === -1 ? 0 : 1)
+        break
+      case 'k':
+        move(index === -1 ? 0 : -1)
+        break
+      case 'a':
+      case 'r':
+        if (!selectedExpense || isProcessingApproval) return
+        // Deciding needs a rationale; send the reviewer to the field first
+        if (!managerRationale) {
+          rationaleRef.current?.focus()
+        } else {
+          handleApprovalDecision(event.key === 'a' ? 'approve' : 'reject')
+        }
+        break
+      case 'e':
+        if (!selectedExpense) return
+        setExpandedQueueIds(prev =>
+          prev.includes(selectedExpense.id) ? prev.filter(id => id !== selectedExpense.id) : [...prev, selectedExpense.id]
+        )
+        break
+      case 'x':
+        if (!selectedExpense || !can('review:decide')) return
+        toggleBulkSelection(selectedExpense.id)
+        break
+      default:
+        return
+    }
+    event.preventDefault()
+  }
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => reviewShortcutRef.current(event)
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [])
 
   // ============================================================================
   // RENDER - Employee Dashboard
@@ -671,118 +1758,227 @@ export default function Home() {
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       {/* Left Column - Expense Submission */}
       <div className="space-y-6">
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Upload className="h-5 w-5" />
-              Submit New Expense
-            </CardTitle>
-            <CardDescription>Upload receipt and fill in expense details</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {/* File Upload */}
-            <div>
-              <Label>Receipt Document</Label>
-              <FileUploadZone
-                onFileSelect={handleFileSelect}
-                preview={receiptPreview}
-              />
-            </div>
-
-            <Separator />
-
-            {/* Expense Details */}
-            <div className="space-y-4">
+        {can('expense:submit') ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {editingExpense ? <Pencil className="h-5 w-5" /> : <Upload className="h-5 w-5" />}
+                {editingExpense ? `Edit & Resubmit ${editingExpense.id}` : 'Submit New Expense'}
+              </CardTitle>
+              <CardDescription>
+                {editingExpense
+                  ? `Version ${getVersionNumber(editingExpense) + 1}; the current version and its results are kept in the history`
+                  : 'Upload receipt and fill in expense details'}
+              </CardDescription>
+              {editingExpense && (
+                <Button variant="ghost" size="sm" className="w-fit" onClick={cancelEditing}>
+                  Cancel editing
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {/* File Upload */}
               <div>
-                <Label htmlFor="vendor">Vendor Name</Label>
-                <Input
-                  id="vendor"
-                  placeholder="e.g., Starbucks Coffee"
-                  value={expenseData.vendor}
-                  onChange={(e) => handleExpenseDataChange('vendor', e.target.value)}
+                <Label>Receipt Document</Label>
+                <FileUploadZone
+                  onFileSelect={handleFileSelect}
+                  preview={receiptPreview}
                 />
+                {isExtracting && (
+                  <p className="text-sm text-blue-600 mt-2 flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Reading receipt to pre-fill the form...
+                  </p>
+                )}
+                {extractedReceipt && !isExtracting && (
+                  <p className="text-sm text-gray-600 mt-2">
+                    Details pre-filled from the receipt. Please confirm or correct the highlighted fields.
+                  </p>
+                )}
+                {extractionError && (
+                  <p className="text-sm text-red-600 mt-2">
+                    Could not read the receipt ({extractionError}). Please fill in the details manually.
+                  </p>
+                )}
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
+              <Separator />
+
+              {/* Expense Details */}
+              <div className="space-y-4">
                 <div>
-                  <Label htmlFor="amount">Amount</Label>
-                  <div className="relative">
-                    <DollarSign className="absolute left-3 top-2.5 h-4 w-4 text-gray-500" />
-                    <Input
-                      id="amount"
-                      type="number"
-                      step="0.01"
-                      placeholder="0.00"
-                      className="pl-9"
-                      value={expenseData.amount}
-                      onChange={(e) => handleExpenseDataChange('amount', e.target.value)}
-                    />
+                  <Label htmlFor="vendor">Vendor Name</Label>
+                  <Input
+                    id="vendor"
+                    placeholder="e.g., Starbucks Coffee"
+                    className={autofillInputClass(autofillFields.vendor)}
+                    value={expenseData.vendor}
+                    onChange={(e) => handleExpenseDataChange('vendor', e.target.value)}
+                  />
+                  <AutofillHint state={autofillFields.vendor} />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="amount">Amount</Label>
+                    <div className="flex gap-2">
+                      <Select
+                        value={expenseData.currency}
+                        onValueChange={(value) => handleExpenseDataChange('currency', value)}
+                      >
+                        <SelectTrigger className={cn('w-24', autofillInputClass(autofillFields.currency))} aria-label="Currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SUPPORTED_CURRENCIES.map(currency => (
+                            <SelectItem key={currency.code} value={currency.code}>{currency.code}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        id="amount"
+                        type="number"
+                        step={10 ** -getMinorUnits(expenseData.currency)}
+                        placeholder={toDecimalString(zeroMoney(expenseData.currency))}
+                        className={autofillInputClass(autofillFields.amount)}
+                        value={expenseData.amount}
+                        onChange={(e) => handleExpenseDataChange('amount', e.target.value)}
+                      />
+                    </div>
+                    <AutofillHint state={autofillFields.amount} />
+                    {expenseData.currency !== HOME_CURRENCY && submissionConversion && (
+                      <p className="mt-1 text-xs text-gray-600">
+                        ≈ {formatMoney(submissionConversion.home)} at {submissionConversion.rate} ({submissionConversion.rateDate} rate)
+                      </p>
+                    )}
+                    {missingFxRate && (
+                      <p className="mt-1 text-xs text-red-600">
+                        No {expenseData.currency} rate on or before this date
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <Label htmlFor="date">Date</Label>
+                    <div className="relative">
+                      <Calendar className="absolute left-3 top-2.5 h-4 w-4 text-gray-500" />
+                      <Input
+                        id="date"
+                        type="date"
+                        className={cn('pl-9', autofillInputClass(autofillFields.date))}
+                        value={expenseData.date}
+                        onChange={(e) => handleExpenseDataChange('date', e.target.value)}
+                      />
+                    </div>
+                    <AutofillHint state={autofillFields.date} />
                   </div>
                 </div>
 
                 <div>
-                  <Label htmlFor="date">Date</Label>
+                  <Label htmlFor="time">Time (optional)</Label>
                   <div className="relative">
-                    <Calendar className="absolute left-3 top-2.5 h-4 w-4 text-gray-500" />
+                    <Clock className="absolute left-3 top-2.5 h-4 w-4 text-gray-500" />
                     <Input
-                      id="date"
-                      type="date"
-                      className="pl-9"
-                      value={expenseData.date}
-                      onChange={(e) => handleExpenseDataChange('date', e.target.value)}
+                      id="time"
+                      type="time"
+                      className={cn('pl-9', autofillInputClass(autofillFields.time))}
+                      value={expenseData.time}
+                      onChange={(e) => handleExpenseDataChange('time', e.target.value)}
                     />
                   </div>
+                  <AutofillHint state={autofillFields.time} />
+                  <p className="mt-1 text-xs text-gray-500">Local time where the purchase was made, as printed on the receipt</p>
+                </div>
+
+                <div>
+                  <Label htmlFor="category">Category</Label>
+                  <Select
+                    value={expenseData.category}
+                    onValueChange={(value) => handleExpenseDataChange('category', value)}
+                  >
+                    <SelectTrigger className={autofillInputClass(autofillFields.category)}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPENSE_CATEGORIES.map(category => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <AutofillHint state={autofillFields.category} />
                 </div>
               </div>
 
               <div>
-                <Label htmlFor="category">Category</Label>
-                <Select
-                  value={expenseData.category}
-                  onValueChange={(value) => handleExpenseDataChange('category', value)}
-                >
-                  <SelectTrigger>
+                <Label htmlFor="validation-mode">Validation Mode</Label>
+                <Select value={validationMode} onValueChange={(value) => setValidationMode(value as ValidationMode)}>
+                  <SelectTrigger id="validation-mode">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="Business Meal">Business Meal</SelectItem>
-                    <SelectItem value="Client Entertainment">Client Entertainment</SelectItem>
-                    <SelectItem value="Travel">Travel</SelectItem>
-                    <SelectItem value="Office Supplies">Office Supplies</SelectItem>
-                    <SelectItem value="Home Office Equipment">Home Office Equipment</SelectItem>
+                    <SelectItem value="coordinator">Coordinator (single agent call)</SelectItem>
+                    <SelectItem value="orchestrated">Orchestrated (sub-agents in parallel)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
-            </div>
 
-            <Button
-              className="w-full"
-              onClick={handleSubmitExpense}
-              disabled={isValidating || !expenseData.vendor || !expenseData.amount || !expenseData.date}
-            >
-              {isValidating ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Validating...
-                </>
-              ) : (
-                <>
-                  <FileCheck className="mr-2 h-4 w-4" />
-                  Submit Expense
-                </>
+              {editingExpense?.receipt && !receiptFile && (
+                <p className="text-sm text-gray-600">
+                  Keeping the current receipt ({editingExpense.receipt.fileName}). Upload a file to replace it.
+                </p>
               )}
-            </Button>
-          </CardContent>
-        </Card>
 
-        {/* Validation Progress */}
-        {isValidating && (
+              <BudgetWarnings warnings={submissionBudgetWarnings} action="Submitting this expense" />
+
+              {!receiptFile && !editingExpense?.receipt && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                  <AlertTitle>Missing receipt</AlertTitle>
+                  <AlertDescription>
+                    Expenses submitted without a receipt cannot be auto-approved and will be sent to manager review.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Button
+                className="w-full"
+                onClick={handleSubmitExpense}
+                disabled={isValidating || isExtracting || expensesLoading || !expenseData.vendor || !enteredAmount || !expenseData.date || missingFxRate}
+              >
+                {isValidating ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Validating...
+                  </>
+                ) : (
+                  <>
+                    <FileCheck className="mr-2 h-4 w-4" />
+                    {editingExpense
+                      ? 'Resubmit Expense'
+                      : receiptFile ? 'Submit Expense' : 'Submit Without Receipt'}
+                  </>
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Alert>
+            <Lock className="h-4 w-4" />
+            <AlertTitle>Read-only access</AlertTitle>
+            <AlertDescription>
+              Your role ({ROLE_LABELS[currentUser.role]}) can view expenses but not submit them.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Validation Progress - kept visible after a failed run so the failing stage can be seen */}
+        {(isValidating || validationStages.some(s => s.status === 'failed')) && (
           <Card>
             <CardHeader>
               <CardTitle className="text-sm">Validation Progress</CardTitle>
             </CardHeader>
             <CardContent>
-              <ValidationProgress stage={validationStage} />
+              <ValidationProgress stages={validationStages} />
             </CardContent>
           </Card>
         )}
@@ -815,6 +2011,16 @@ export default function Home() {
                 <RiskBadge risk={validationResult.validation_summary.risk_level} />
               </div>
 
+              {validationRunMeta && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Validation Mode</span>
+                  <span className="text-sm text-gray-600">
+                    <Badge variant="outline" className="capitalize mr-2">{validationRunMeta.mode}</Badge>
+                    {formatDuration(validationRunMeta.durationMs)}
+                  </span>
+                </div>
+              )}
+
               <div>
                 <span className="text-sm font-medium">Confidence Score</span>
                 <Progress
@@ -850,22 +2056,148 @@ export default function Home() {
           </Card>
         )}
 
-        {validationError && (
-          <Alert variant="destructive">
-            <AlertCircle className="h-4 w-4" />
-            <AlertTitle>Validation Error</AlertTitle>
-            <AlertDescription>{validationError}</AlertDescription>
-          </Alert>
+        {validationError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Validation Error</AlertTitle>
+            <AlertDescription>{validationError}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+
+      {/* Right Column - Recent Expenses */}
+      <div className="space-y-6">
+        {awaitingMyInfo.length > 0 && (
+          <Alert className="border-orange-200 bg-orange-50">
+            <HelpCircle className="h-4 w-4 text-orange-600" />
+            <AlertTitle className="text-orange-800">Information Requested</AlertTitle>
+            <AlertDescription className="text-orange-700">
+              <p className="mb-2">A reviewer has questions about {awaitingMyInfo.length === 1 ? 'this expense' : 'these expenses'}:</p>
+              <div className="flex flex-wrap gap-2">
+                {awaitingMyInfo.map(expense => (
+                  <Button key={expense.id} variant="outline" size="sm" onClick={() => openExpense(expense.id)}>
+                    {expense.id} · {expense.vendor}
+                  </Button>
+                ))}
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {selectedExpense && isOwnExpense(currentUser, selectedExpense) && canResubmit(selectedExpense) &&
+          editingExpense?.id !== selectedExpense.id && (
+          <Alert>
+            <Pencil className="h-4 w-4" />
+            <AlertTitle>
+              {selectedExpense.id} is {selectedExpense.status === 'rejected' ? 'rejected' : 'waiting on you'}
+            </AlertTitle>
+            <AlertDescription>
+              <p className="mb-2">
+                Correct the details or replace the receipt and resubmit as version {getVersionNumber(selectedExpense) + 1}.
+                Earlier versions stay visible to reviewers.
+              </p>
+              <Button variant="outline" size="sm" onClick={() => startEditing(selectedExpense)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit & Resubmit
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {selectedExpense && isOwnExpense(currentUser, selectedExpense) &&
+          (canAppeal(selectedExpense) || selectedAppeal) && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gavel className="h-5 w-5" />
+                Appeal - {selectedExpense.id}
+              </CardTitle>
+              <CardDescription>
+                {canAppeal(selectedExpense)
+                  ? 'Disagree with the rejection? Explain why and a senior reviewer who did not make the original decision will take another look.'
+                  : 'Your appeal against the rejection'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {selectedAppeal && (
+                <div className="rounded-md border border-gray-200 p-3 text-sm space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Version {selectedAppeal.version} appeal</span>
+                    <Badge variant="outline">
+                      {selectedAppeal.outcome === 'overturned' ? 'Granted' : selectedAppeal.outcome === 'upheld' ? 'Denied' : 'Awaiting review'}
+                    </Badge>
+                  </div>
+                  <p className="text-gray-700">{selectedAppeal.justification}</p>
+                  {selectedAppeal.outcome && (
+                    <p className="text-xs text-gray-600">
+                      {selectedAppeal.reviewerName}: {selectedAppeal.outcomeRationale}
+                    </p>
+                  )}
+                </div>
+              )}
+              {canAppeal(selectedExpense) && (
+                <>
+                  <Textarea
+                    placeholder="Why should this rejection be reconsidered?"
+                    value={appealJustification}
+                    onChange={(e) => setAppealJustification(e.target.value)}
+                    rows={3}
+                  />
+                  <Button
+                    onClick={() => handleSubmitAppeal(selectedExpense)}
+                    disabled={isSubmittingAppeal || !appealJustification.trim()}
+                  >
+                    {isSubmittingAppeal ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Gavel className="mr-2 h-4 w-4" />}
+                    Submit Appeal
+                  </Button>
+                  {appealError && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertTitle>Appeal Not Submitted</AlertTitle>
+                      <AlertDescription>{appealError}</AlertDescription>
+                    </Alert>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {selectedExpense && isOwnExpense(currentUser, selectedExpense) &&
+          (selectedExpense.status === 'needs_info' || (selectedExpense.comments?.length ?? 0) > 0) && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MessageSquare className="h-5 w-5" />
+                Conversation - {selectedExpense.id}
+              </CardTitle>
+              <CardDescription>
+                {selectedExpense.status === 'needs_info'
+                  ? 'Answer the reviewer and attach any requested documents to send the expense back for review'
+                  : 'Messages between you and the reviewers'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ExpenseCommentThread
+                comments={selectedExpense.comments ?? []}
+                currentUserId={currentUser.id}
+                onSubmit={selectedExpense.status === 'needs_info'
+                  ? (body, files) => handleInfoResponse(selectedExpense, body, files)
+                  : undefined}
+                submitLabel="Send Response & Return to Review"
+                placeholder="Your answer..."
+                allowAttachments
+                onOpenAttachment={handleOpenAttachment}
+              />
+            </CardContent>
+          </Card>
         )}
-      </div>
 
-      {/* Right Column - Recent Expenses */}
-      <div className="space-y-6">
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle>Recent Expenses</CardTitle>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={expenseFilters.status} onValueChange={setStatusFilter}>
                 <SelectTrigger className="w-32">
                   <SelectValue />
                 </SelectTrigger>
@@ -875,49 +2207,43 @@ export default function Home() {
                   <SelectItem value="reviewing">Reviewing</SelectItem>
                   <SelectItem value="approved">Approved</SelectItem>
                   <SelectItem value="rejected">Rejected</SelectItem>
+                  <SelectItem value="needs_info">Needs Info</SelectItem>
+                  <SelectItem value="appealed">Appealed</SelectItem>
                 </SelectContent>
               </Select>
             </div>
           </CardHeader>
           <CardContent>
-            <ScrollArea className="h-[600px]">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead className="w-12"></TableHead>
-                    <TableHead>ID</TableHead>
-                    <TableHead>Date</TableHead>
-                    <TableHead>Vendor</TableHead>
-                    <TableHead>Amount</TableHead>
-                    <TableHead>Category</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Risk</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredExpenses.length > 0 ? (
-                    filteredExpenses.map(expense => (
-                      <ExpenseTableRow
-                        key={expense.id}
-                        expense={expense}
-                        onSelect={() => setSelectedExpense(expense)}
-                        isSelected={selectedExpense?.id === expense.id}
-                      />
-                    ))
-                  ) : (
-                    <TableRow>
-                      <TableCell colSpan={8} className="text-center py-8 text-gray-500">
-                        <div className="flex flex-col items-center gap-2">
-                          <FileText className="h-12 w-12 text-gray-300" />
-                          <p className="text-sm">No expenses yet</p>
-                          <p className="text-xs">Submit your first expense to get started</p>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  )}
-                </TableBody>
-              </Table>
-            </ScrollArea>
+            {EXPENSE_DRILL_FIELDS.some(({ field }) => expenseFilters[field]) && (
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                {EXPENSE_DRILL_FIELDS.filter(({ field }) => expenseFilters[field]).map(({ field, label, format }) => (
+                  <Badge key={field} variant="secondary" className="gap-1">
+                    {label}: {format ? format(expenseFilters[field]) : expenseFilters[field]}
+                    <button
+                      type="button"
+                      onClick={() => updateSearchParams({ [field]: '' })}
+                      aria-label={`Remove ${label} filter`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+                <Button variant="ghost" size="sm" onClick={clearExpenseFilters}>Clear filters</Button>
+              </div>
+            )}
+            {selectedExpenseId && !expensesLoading && !selectedExpense && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>No expense with ID {selectedExpenseId} exists</AlertDescription>
+              </Alert>
+            )}
+            <ExpenseTable
+              expenses={filteredExpenses}
+              userId={currentUser.id}
+              loading={expensesLoading}
+              selectedExpenseId={selectedExpense?.id}
+              onSelect={(expense) => openExpense(expense.id)}
+            />
           </CardContent>
         </Card>
       </div>
@@ -931,56 +2257,206 @@ export default function Home() {
   const renderManagerReview = () => (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
       {/* Left Panel - Queue List */}
-      <div className="lg:col-span-1">
+      <div className="lg:col-span-1 space-y-6">
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <ClipboardCheck className="h-5 w-5" />
               Review Queue
             </CardTitle>
-            <CardDescription>{pendingExpenses.length} items pending</CardDescription>
+            <CardDescription>
+              {pendingExpenses.length} {can('review:decide') ? 'awaiting your approval' : 'items pending'}
+            </CardDescription>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 pt-1 text-xs text-gray-500">
+              {REVIEW_SHORTCUTS.map(shortcut => (
+                <span key={shortcut.label} className="flex items-center gap-1">
+                  <KbdGroup>{shortcut.keys.map(key => <Kbd key={key}>{key}</Kbd>)}</KbdGroup>
+                  {shortcut.label}
+                </span>
+              ))}
+            </div>
           </CardHeader>
-          <CardContent>
-            <ScrollArea className="h-[700px]">
-              <div className="space-y-3">
-                {pendingExpenses.map(expense => (
+          <CardContent className="space-y-3">
+            {/* Bulk Actions */}
+            {can('review:decide') && pendingExpenses.length > 0 && (
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <Checkbox
+                  checked={bulkTargets.length > 0 && bulkTargets.length === pendingExpenses.length}
+                  onCheckedChange={(checked) => setBulkSelection(checked === true ? pendingExpenses.map(e => e.id) : [])}
+                />
+                Select all
+              </label>
+            )}
+            {bulkTargets.length > 0 && (
+              <div className="rounded-md border border-blue-200 bg-blue-50 p-3 space-y-2">
+                <p className="text-sm font-medium">{bulkTargets.length} selected</p>
+                <Textarea
+                  placeholder="Shared rationale for all selected expenses..."
+                  value={bulkRationale}
+                  onChange={(e) => setBulkRationale(e.target.value)}
+                  rows={2}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    className="flex-1 bg-green-600 hover:bg-green-700"
+                    onClick={() => handleBulkDecision('approve')}
+                    disabled={isBulkProcessing || !bulkRationale}
+                  >
+                    {isBulkProcessing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+                    Approve All
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="flex-1"
+                    onClick={() => handleBulkDecision('reject')}
+                    disabled={isBulkProcessing || !bulkRationale}
+                  >
+                    {isBulkProcessing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
+                    Reject All
+                  </Button>
+                </div>
+              </div>
+            )}
+            {bulkResults.length > 0 && (
+              <div className="rounded-md border border-gray-200 p-3 space-y-1 text-xs">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-sm">
+                    {bulkResults.filter(r => r.ok).length} of {bulkResults.length} processed
+                  </p>
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setBulkResults([])}>
+                    Dismiss
+                  </Button>
+                </div>
+                {bulkResults.map(result => (
+                  <p key={result.expenseId} className={cn('flex items-start gap-1', result.ok ? 'text-green-700' : 'text-red-700')}>
+                    {result.ok ? <CheckCircle className="h-3 w-3 mt-0.5 shrink-0" /> : <XCircle className="h-3 w-3 mt-0.5 shrink-0" />}
+                    <span><span className="font-medium">{result.expenseId}</span>: {result.message}</span>
+                  </p>
+                ))}
+              </div>
+            )}
+            <div ref={queueScrollRef} className="h-[700px] overflow-y-auto">
+              {queuePaddingTop > 0 && <div style={{ height: queuePaddingTop }} />}
+              {pendingExpenses.slice(queueStart, queueEnd).map(expense => (
+                <div key={expense.id} data-queue-id={expense.id} className="pb-3">
                   <Card
-                    key={expense.id}
                     className={cn(
                       'cursor-pointer transition-colors hover:bg-gray-50',
                       selectedExpense?.id === expense.id && 'ring-2 ring-blue-500'
                     )}
-                    onClick={() => setSelectedExpense(expense)}
+                    onClick={() => openReview(expense.id)}
                   >
                     <CardContent className="p-4 space-y-2">
                       <div className="flex items-start justify-between">
-                        <div>
-                          <p className="font-medium text-sm">{expense.employee}</p>
-                          <p className="text-xs text-gray-500">{expense.id}</p>
+                        <div className="flex items-start gap-2">
+                          {can('review:decide') && (
+                            <Checkbox
+                              className="mt-0.5"
+                              checked={bulkSelection.includes(expense.id)}
+                              onClick={(e) => e.stopPropagation()}
+                              onCheckedChange={() => toggleBulkSelection(expense.id)}
+                              aria-label={`Select ${expense.id}`}
+                            />
+                          )}
+                          <div>
+                            <p className="font-medium text-sm">{expense.employee}</p>
+                            <p className="text-xs text-gray-500">{expense.id}</p>
+                          </div>
                         </div>
                         <RiskBadge risk={expense.riskScore} />
                       </div>
                       <div className="flex items-center justify-between text-sm">
                         <span className="text-gray-600">{expense.vendor}</span>
-                        <span className="font-semibold">{formatCurrency(expense.amount)}</span>
+                        <ExpenseAmount expense={expense} className="font-semibold" />
                       </div>
-                      <div className="text-xs text-gray-500">
-                        {formatDate(expense.date)}
+                      <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span className="flex items-center gap-1">
+                          {formatDate(expense.date)}
+                          <MealTimingBadges flags={getMealTimingFlags(expense)} />
+                        </span>
+                        {delegatedFor.has(expense.id) && (
+                          <Badge variant="outline">For {delegatedFor.get(expense.id)}</Badge>
+                        )}
                       </div>
+                      {queueSla.get(expense.id) && <SlaBadge sla={queueSla.get(expense.id)!} />}
+                      {expandedQueueIds.includes(expense.id) && (
+                        <div className="border-t pt-2 text-xs text-gray-600 space-y-1">
+                          <p>{expense.category}</p>
+                          {expense.validationResult ? (
+                            <>
+                              <p>{expense.validationResult.recommendation_reasoning}</p>
+                              <p>
+                                {expense.validationResult.fraud_analysis?.flags_count ?? 0} fraud flags ·{' '}
+                                {expense.validationResult.policy_compliance?.violations_count ?? 0} policy violations
+                              </p>
+                            </>
+                          ) : (
+                            <p>No validation data</p>
+                          )}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
-                ))}
-                {pendingExpenses.length === 0 && (
-                  <div className="text-center py-8 text-gray-500">
-                    <CheckCircle className="h-12 w-12 mx-auto mb-2 text-green-500" />
-                    <p className="text-sm">All caught up!</p>
-                    <p className="text-xs">No expenses pending review</p>
-                  </div>
-                )}
-              </div>
-            </ScrollArea>
+                </div>
+              ))}
+              {queuePaddingBottom > 0 && <div style={{ height: queuePaddingBottom }} />}
+              {pendingExpenses.length === 0 && (
+                <div className="text-center py-8 text-gray-500">
+                  <CheckCircle className="h-12 w-12 mx-auto mb-2 text-green-500" />
+                  <p className="text-sm">All caught up!</p>
+                  <p className="text-xs">No expenses pending review</p>
+                </div>
+              )}
+            </div>
           </CardContent>
         </Card>
+
+        {appealQueue.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gavel className="h-5 w-5" />
+                Appeals
+              </CardTitle>
+              <CardDescription>
+                {appealQueue.length} {can('review:decide') ? 'routed to you' : 'open'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {appealQueue.map(expense => (
+                <Card
+                  key={expense.id}
+                  className={cn(
+                    'cursor-pointer transition-colors hover:bg-gray-50',
+                    selectedExpense?.id === expense.id && 'ring-2 ring-blue-500'
+                  )}
+                  onClick={() => openReview(expense.id)}
+                >
+                  <CardContent className="p-4 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium text-sm">{expense.employee}</p>
+                      <ExpenseAmount expense={expense} className="font-semibold text-sm" />
+                    </div>
+                    <p className="text-xs text-gray-500">{expense.id} · {expense.vendor}</p>
+                    <p className="text-xs text-gray-600 line-clamp-2">{getOpenAppeal(expense)?.justification}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {can('review:decide') && (
+          <DelegationManager
+            currentUser={currentUser}
+            users={users}
+            delegations={delegations}
+            onCreate={handleCreateDelegation}
+            onRevoke={handleRevokeDelegation}
+          />
+        )}
       </div>
 
       {/* Right Panel - Validation Report */}
@@ -990,7 +2466,10 @@ export default function Home() {
             <CardHeader>
               <CardTitle>Expense Review - {selectedExpense.id}</CardTitle>
               <CardDescription>
-                {selectedExpense.employee} - {formatCurrency(selectedExpense.amount)}
+                {selectedExpense.employee} - {describeAmount(selectedExpense)}
+                {selectedExpense.validationMeta && (
+                  <> · {selectedExpense.validationMeta.mode} validation in {formatDuration(selectedExpense.validationMeta.durationMs)}</>
+                )}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -1006,11 +2485,22 @@ export default function Home() {
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-600">Amount</p>
-                  <p className="text-lg font-semibold">{formatCurrency(selectedExpense.amount)}</p>
+                  <ExpenseAmount expense={selectedExpense} className="text-lg font-semibold" stacked />
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-600">Date</p>
-                  <p className="text-lg">{formatDate(selectedExpense.date)}</p>
+                  <p className="text-lg">{formatTransactionTimestamp(getTransactionTimestamp(selectedExpense))}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    <MealTimingBadges flags={getMealTimingFlags(selectedExpense)} />
+                  </div>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600">Receipt</p>
+                  {selectedExpense.receipt ? (
+                    <p className="text-lg">{selectedExpense.receipt.fileName}</p>
+                  ) : (
+                    <Badge variant="destructive">Missing receipt</Badge>
+                  )}
                 </div>
               </div>
 
@@ -1018,179 +2508,258 @@ export default function Home() {
 
               {/* Validation Details */}
               {selectedExpense.validationResult ? (
-                <Tabs defaultValue="receipt">
-                  <TabsList className="grid w-full grid-cols-4">
-                    <TabsTrigger value="receipt">Receipt Data</TabsTrigger>
-                    <TabsTrigger value="fraud">Fraud Analysis</TabsTrigger>
-                    <TabsTrigger value="policy">Policy Check</TabsTrigger>
-                    <TabsTrigger value="eligibility">Eligibility</TabsTrigger>
-                  </TabsList>
-
-                  <TabsContent value="receipt" className="space-y-4">
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm text-gray-600">Extraction Status</span>
-                        <Badge variant={selectedExpense.validationResult.receipt_data.extracted_successfully ? 'default' : 'destructive'}>
-                          {selectedExpense.validationResult.receipt_data.extracted_successfully ? 'Success' : 'Failed'}
-                        </Badge>
-                      </div>
-                      <div className="grid grid-cols-2 gap-3 text-sm">
-                        <div>
-                          <p className="text-gray-600">Vendor</p>
-                          <p className="font-medium">{selectedExpense.validationResult.receipt_data.vendor}</p>
-                        </div>
-                        <div>
-                          <p className="text-gray-600">Amount</p>
-                          <p className="font-medium">{formatCurrency(selectedExpense.validationResult.receipt_data.amount)}</p>
-                        </div>
-                        <div>
-                          <p className="text-gray-600">Date</p>
-                          <p className="font-medium">{selectedExpense.validationResult.receipt_data.date}</p>
+                <ValidationFindingsTabs
+                  result={selectedExpense.validationResult}
+                  details={selectedExpense.validationDetails}
+                />
+              ) : (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>No validation data available for this expense</AlertDescription>
+                </Alert>
+              )}
+
+              {(selectedExpense.appeals?.length ?? 0) > 0 && (
+                <>
+                  <Separator />
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      <Gavel className="h-4 w-4" />
+                      Appeals
+                    </p>
+                    {selectedExpense.appeals!.map(appeal => (
+                      <div key={appeal.id} className="rounded-md border border-gray-200 p-3 text-sm space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">Version {appeal.version}</span>
+                          <Badge variant="outline">
+                            {appeal.outcome === 'overturned' ? 'Overturned' : appeal.outcome === 'upheld' ? 'Upheld' : `Awaiting ${APPROVAL_STEP_LABELS[appeal.reviewerRole]}`}
+                          </Badge>
                         </div>
-                      </div>
-                    </div>
-                  </TabsContent>
-
-                  <TabsContent value="fraud" className="space-y-4">
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm text-gray-600">Fraud Risk</span>
-                        <Badge variant={selectedExpense.validationResult.fraud_analysis.fraud_detected ? 'destructive' : 'default'}>
-                          {selectedExpense.validationResult.fraud_analysis.fraud_detected ? 'Detected' : 'Clear'}
-                        </Badge>
-                      </div>
-                      <div>
-                        <p className="text-sm text-gray-600 mb-2">Fraud Score</p>
-                        <Progress value={selectedExpense.validationResult.fraud_analysis.fraud_score * 100} />
-                        <p className="text-xs text-gray-500 mt-1">
-                          {(selectedExpense.validationResult.fraud_analysis.fraud_score * 100).toFixed(0)}%
+                        <p className="text-xs text-gray-600">
+                          Original rejection by {appeal.originalDecision.deciderName ?? 'automated validation'}: {appeal.originalDecision.rationale}
                         </p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-gray-600 mb-2">Flags ({selectedExpense.validationResult.fraud_analysis.flags_count})</p>
-                        {selectedExpense.validationResult.fraud_analysis.flags_count > 0 ? (
-                          <Alert variant="destructive">
-                            <AlertTriangle className="h-4 w-4" />
-                            <AlertDescription>
-                              {selectedExpense.validationResult.fraud_analysis.flags_count} fraud indicators detected
-                            </AlertDescription>
-                          </Alert>
-                        ) : (
-                          <Alert>
-                            <CheckCircle className="h-4 w-4" />
-                            <AlertDescription>No fraud indicators detected</AlertDescription>
-                          </Alert>
+                        <p className="text-gray-700">Justification: {appeal.justification}</p>
+                        {appeal.outcome && (
+                          <p className="text-xs text-gray-600">
+                            {appeal.reviewerName} ({new Date(appeal.decidedAt!).toLocaleString()}): {appeal.outcomeRationale}
+                          </p>
                         )}
                       </div>
-                    </div>
-                  </TabsContent>
-
-                  <TabsContent value="policy" className="space-y-4">
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm text-gray-600">Compliance Status</span>
-                        <Badge variant={selectedExpense.validationResult.policy_compliance.compliant ? 'default' : 'destructive'}>
-                          {selectedExpense.validationResult.policy_compliance.compliant ? 'Compliant' : 'Non-Compliant'}
-                        </Badge>
-                      </div>
-                      <div>
-                        <p className="text-sm text-gray-600 mb-2">Violations</p>
-                        {selectedExpense.validationResult.policy_compliance.violations_count > 0 ? (
-                          <Alert variant="destructive">
-                            <AlertTriangle className="h-4 w-4" />
-                            <AlertDescription>
-                              {selectedExpense.validationResult.policy_compliance.violations_count} policy violations found
-                              {selectedExpense.validationResult.policy_compliance.critical_violations && ' (critical)'}
-                            </AlertDescription>
-                          </Alert>
-                        ) : (
-                          <Alert>
-                            <CheckCircle className="h-4 w-4" />
-                            <AlertDescription>No policy violations</AlertDescription>
-                          </Alert>
-                        )}
-                      </div>
-                    </div>
-                  </TabsContent>
-
-                  <TabsContent value="eligibility" className="space-y-4">
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm text-gray-600">Eligibility Status</span>
-                        <Badge variant={selectedExpense.validationResult.employee_eligibility.eligible ? 'default' : 'destructive'}>
-                          {selectedExpense.validationResult.employee_eligibility.eligible ? 'Eligible' : 'Not Eligible'}
-                        </Badge>
-                      </div>
-                      <div>
-                        <p className="text-sm text-gray-600 mb-2">Restrictions</p>
-                        {selectedExpense.validationResult.employee_eligibility.restrictions > 0 ? (
-                          <Alert variant="destructive">
-                            <AlertTriangle className="h-4 w-4" />
-                            <AlertDescription>
-                              {selectedExpense.validationResult.employee_eligibility.restrictions} eligibility restrictions
-                            </AlertDescription>
-                          </Alert>
-                        ) : (
-                          <Alert>
-                            <CheckCircle className="h-4 w-4" />
-                            <AlertDescription>No eligibility restrictions</AlertDescription>
-                          </Alert>
-                        )}
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {(selectedExpense.versions?.length ?? 0) > 0 && (
+                <>
+                  <Separator />
+                  <ExpenseVersionHistory key={selectedExpense.id} expense={selectedExpense} />
+                </>
+              )}
+
+              <Separator />
+
+              {/* Conversation */}
+              <div>
+                <p className="text-sm font-medium mb-2 flex items-center gap-2">
+                  <MessageSquare className="h-4 w-4" />
+                  Conversation
+                </p>
+                <ExpenseCommentThread
+                  comments={selectedExpense.comments ?? []}
+                  currentUserId={currentUser.id}
+                  onSubmit={can('review:decide') ? (body, files) => handleReviewerComment(selectedExpense, body, files) : undefined}
+                  allowAttachments
+                  onOpenAttachment={handleOpenAttachment}
+                />
+              </div>
+
+              <Separator />
+
+              {/* Approval Chain */}
+              {selectedChain && (
+                <div>
+                  <p className="text-sm font-medium mb-2">Approval Chain</p>
+                  <ApprovalChainProgress expense={selectedExpense} chain={selectedChain} delegations={delegations} />
+                  {selectedSla && (
+                    <div className="mt-3 flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 text-xs text-gray-600">
+                        <SlaBadge sla={selectedSla} />
+                        <span>
+                          SLA {REVIEW_SLA_POLICY.businessDaysPerStep} business days per step · due {selectedSla.dueAt.toLocaleString()}
+                        </span>
                       </div>
+                      {can('review:decide') && selectedSla.state === 'overdue' && canEscalate(selectedExpense) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleManualEscalation(selectedExpense)}
+                        >
+                          <ArrowUpCircle className="mr-2 h-4 w-4" />
+                          Escalate
+                        </Button>
+                      )}
                     </div>
-                  </TabsContent>
-                </Tabs>
-              ) : (
-                <Alert>
-                  <AlertCircle className="h-4 w-4" />
-                  <AlertDescription>No validation data available for this expense</AlertDescription>
-                </Alert>
+                  )}
+                  {selectedChain.escalations?.map(escalation => (
+                    <p key={`${escalation.step}-${escalation.escalatedAt}`} className="mt-2 text-xs text-gray-600">
+                      Escalated from {APPROVAL_STEP_LABELS[escalation.fromRole]} to {APPROVAL_STEP_LABELS[escalation.toRole]} on{' '}
+                      {new Date(escalation.escalatedAt).toLocaleString()}
+                      {escalation.reason === 'sla_breach' ? ' (SLA exceeded)' : ' (manual)'}
+                    </p>
+                  ))}
+                </div>
               )}
 
               <Separator />
 
+              {can('review:decide') && (
+                <BudgetWarnings warnings={reviewBudgetWarnings} action="Approving this expense" />
+              )}
+
               {/* Manager Action */}
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="rationale">Decision Rationale</Label>
-                  <Textarea
-                    id="rationale"
-                    placeholder="Enter your reasoning for approval or rejection..."
-                    value={managerRationale}
-                    onChange={(e) => setManagerRationale(e.target.value)}
-                    rows={4}
-                  />
+              {can('review:decide') && canReviewAppeal(currentUser, selectedExpense) ? (
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="rationale">Appeal Decision Rationale</Label>
+                    <Textarea
+                      id="rationale"
+                      ref={rationaleRef}
+                      placeholder="Explain why the rejection stands or is overturned..."
+                      value={managerRationale}
+                      onChange={(e) => setManagerRationale(e.target.value)}
+                      rows={4}
+                    />
+                  </div>
+                  <div className="flex gap-3">
+                    <Button
+                      className="flex-1 bg-green-600 hover:bg-green-700"
+                      onClick={() => handleAppealDecision('overturned')}
+                      disabled={isProcessingApproval || !managerRationale}
+                    >
+                      {isProcessingApproval ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+                      Overturn & Approve
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      className="flex-1"
+                      onClick={() => handleAppealDecision('upheld')}
+                      disabled={isProcessingApproval || !managerRationale}
+                    >
+                      {isProcessingApproval ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
+                      Uphold Rejection
+                    </Button>
+                  </div>
                 </div>
+              ) : can('review:decide') && signingAuthority ? (
+                <div className="space-y-4">
+                  {decisionViolations.length > 0 && (
+                    <Alert variant="destructive">
+                      <Shield className="h-4 w-4" />
+                      <AlertTitle>Segregation of duties</AlertTitle>
+                      <AlertDescription>
+                        <ul className="list-disc pl-4 space-y-1">
+                          {decisionViolations.map(violation => (
+                            <li key={violation.code}>{violation.message}</li>
+                          ))}
+                        </ul>
+                        <p className="mt-2 text-xs">Decisions on this expense will be blocked and recorded in the audit trail.</p>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {blockedAttempts.length > 0 && (
+                    <div className="text-xs text-gray-600 space-y-1">
+                      <p className="font-medium">Blocked decision attempts</p>
+                      {blockedAttempts.map(event => (
+                        <p key={event.id}>
+                          {new Date(event.timestamp).toLocaleString()} · {event.actorName}: {event.message}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  <div>
+                    <Label htmlFor="rationale">Decision Rationale</Label>
+                    <Textarea
+                      id="rationale"
+                      ref={rationaleRef}
+                      placeholder="Enter your reasoning for approval or rejection..."
+                      value={managerRationale}
+                      onChange={(e) => setManagerRationale(e.target.value)}
+                      rows={4}
+                    />
+                  </div>
 
-                <div className="flex gap-3">
-                  <Button
-                    variant="default"
-                    className="flex-1 bg-green-600 hover:bg-green-700"
-                    onClick={() => handleApprovalDecision('approve')}
-                    disabled={isProcessingApproval || !managerRationale}
-                  >
-                    {isProcessingApproval ? (
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    ) : (
-                      <CheckCircle className="mr-2 h-4 w-4" />
-                    )}
-                    Approve
-                  </Button>
-                  <Button
-                    variant="destructive"
-                    className="flex-1"
-                    onClick={() => handleApprovalDecision('reject')}
-                    disabled={isProcessingApproval || !managerRationale}
-                  >
-                    {isProcessingApproval ? (
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    ) : (
-                      <XCircle className="mr-2 h-4 w-4" />
-                    )}
-                    Reject
-                  </Button>
+                  <div className="flex gap-3">
+                    <Button
+                      variant="default"
+                      className="flex-1 bg-green-600 hover:bg-green-700"
+                      onClick={() => handleApprovalDecision('approve')}
+                      disabled={isProcessingApproval || !managerRationale}
+                    >
+                      {isProcessingApproval ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                      )}
+                      Approve
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      className="flex-1"
+                      onClick={() => handleApprovalDecision('reject')}
+                      disabled={isProcessingApproval || !managerRationale}
+                    >
+                      {isProcessingApproval ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <XCircle className="mr-2 h-4 w-4" />
+                      )}
+                      Reject
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="flex-1"
+                      onClick={handleRequestInfo}
+                      disabled={isProcessingApproval || !managerRationale}
+                      title="Send the rationale to the employee as a question"
+                    >
+                      <HelpCircle className="mr-2 h-4 w-4" />
+                      Request Info
+                    </Button>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <Alert>
+                  <Lock className="h-4 w-4" />
+                  <AlertDescription>
+                    {!can('review:decide')
+                      ? `Your role (${ROLE_LABELS[currentUser.role]}) can review expenses but not approve or reject them.`
+                      : selectedExpense.status === 'reviewing' || selectedExpense.status === 'pending'
+                        ? `This expense is waiting on ${getNextApprovers(selectedExpense, delegations).map(describeApprover).join(', ') || 'another approver'}, not you.`
+                        : selectedExpense.status === 'needs_info'
+                          ? 'Waiting on the employee to answer a request for more information.'
+                          : selectedExpense.status === 'appealed'
+                            ? `${getAppealReviewBlocker(currentUser, selectedExpense)} Reviewers: ${getAppealReviewers(selectedExpense, users).map(u => u.name).join(', ') || 'none available'}.`
+                            : `This expense has already been ${selectedExpense.status}.`}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {decisionError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Decision Not Recorded</AlertTitle>
+                  <AlertDescription>{decisionError}</AlertDescription>
+                </Alert>
+              )}
+
+              {stepSignedNotice && (
+                <Alert className="border-blue-200 bg-blue-50">
+                  <CheckCircle className="h-4 w-4 text-blue-600" />
+                  <AlertTitle className="text-blue-800">Step Signed</AlertTitle>
+                  <AlertDescription className="text-blue-700">{stepSignedNotice}</AlertDescription>
+                </Alert>
+              )}
 
               {/* Approval Result */}
               {approvalResult && (
@@ -1199,9 +2768,17 @@ export default function Home() {
                   <AlertTitle className="text-green-800">Decision Processed</AlertTitle>
                   <AlertDescription className="text-green-700">
                     <p className="mb-2">Expense {approvalResult.expense_status}</p>
+                    {approvalResult.decision_details?.delegate_id && (
+                      <p className="mb-2 text-sm">
+                        Decided by {getUserById(approvalResult.decision_details.delegate_id)?.name ?? approvalResult.decision_details.delegate_id} on
+                        behalf of {getUserById(approvalResult.decision_details.original_approver_id)?.name ?? approvalResult.decision_details.original_approver_id}
+                      </p>
+                    )}
                     {approvalResult.reimbursement_details && (
                       <div className="text-sm space-y-1">
-                        <p>Reimbursement: {formatCurrency(approvalResult.reimbursement_details.amount)}</p>
+                        <p>
+                          Reimbursement: {formatCurrency(approvalResult.reimbursement_details.amount, approvalResult.reimbursement_details.currency)}
+                        </p>
                         <p>Reference: {approvalResult.reimbursement_details.reference_number}</p>
                         <p>Processing: {approvalResult.reimbursement_details.expected_processing_days} business days</p>
                       </div>
@@ -1215,9 +2792,21 @@ export default function Home() {
           <Card>
             <CardContent className="flex items-center justify-center h-[700px] text-gray-500">
               <div className="text-center">
-                <ClipboardCheck className="h-16 w-16 mx-auto mb-4 text-gray-300" />
-                <p className="text-lg font-medium">No Expense Selected</p>
-                <p className="text-sm">Select an expense from the queue to review</p>
+                {selectedExpenseId && expensesLoading ? (
+                  <Loader2 className="h-8 w-8 mx-auto animate-spin" />
+                ) : selectedExpenseId ? (
+                  <>
+                    <AlertCircle className="h-16 w-16 mx-auto mb-4 text-gray-300" />
+                    <p className="text-lg font-medium">Expense Not Found</p>
+                    <p className="text-sm">No expense with ID {selectedExpenseId} exists</p>
+                  </>
+                ) : (
+                  <>
+                    <ClipboardCheck className="h-16 w-16 mx-auto mb-4 text-gray-300" />
+                    <p className="text-lg font-medium">No Expense Selected</p>
+                    <p className="text-sm">Select an expense from the queue to review</p>
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -1226,6 +2815,29 @@ export default function Home() {
     </div>
   )
 
+  // ============================================================================
+  // RENDER - Analytics
+  // ============================================================================
+
+  const renderAnalytics = () => (
+    <div className="space-y-6">
+      <SpendAnalytics expenses={expenses} loading={expensesLoading} onDrillThrough={drillThroughToExpenses} />
+      <BudgetManager
+        budgets={budgets}
+        expenses={expenses}
+        departments={departments}
+        loading={budgetsLoading}
+        onCreate={can('budgets:manage') ? handleCreateBudget : undefined}
+        onDelete={can('budgets:manage') ? handleDeleteBudget : undefined}
+      />
+      <FxRateManager
+        rates={fxRates}
+        loading={fxRatesLoading}
+        onImport={can('users:manage') ? handleImportFxRates : undefined}
+      />
+    </div>
+  )
+
   // ============================================================================
   // RENDER - Audit Log
   // ============================================================================
@@ -1237,7 +2849,7 @@ export default function Home() {
           <FileCheck className="h-5 w-5" />
           Audit Log
         </CardTitle>
-        <CardDescription>Complete expense transaction history</CardDescription>
+        <CardDescription>Append-only, tamper-evident history of every expense event</CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
         {/* Filters */}
@@ -1247,8 +2859,8 @@ export default function Home() {
             <Input
               id="dateFrom"
               type="date"
-              value={auditFilters.dateFrom}
-              onChange={(e) => setAuditFilters(prev => ({ ...prev, dateFrom: e.target.value }))}
+              value={auditFilterDraft.dateFrom}
+              onChange={(e) => setAuditFilter('dateFrom', e.target.value)}
             />
           </div>
           <div>
@@ -1256,8 +2868,8 @@ export default function Home() {
             <Input
               id="dateTo"
               type="date"
-              value={auditFilters.dateTo}
-              onChange={(e) => setAuditFilters(prev => ({ ...prev, dateTo: e.target.value }))}
+              value={auditFilterDraft.dateTo}
+              onChange={(e) => setAuditFilter('dateTo', e.target.value)}
             />
           </div>
           <div>
@@ -1265,84 +2877,205 @@ export default function Home() {
             <Input
               id="employee"
               placeholder="Search employee..."
-              value={auditFilters.employee}
-              onChange={(e) => setAuditFilters(prev => ({ ...prev, employee: e.target.value }))}
+              value={auditFilterDraft.employee}
+              onChange={(e) => setAuditFilter('employee', e.target.value)}
             />
           </div>
           <div>
             <Label htmlFor="status">Status</Label>
             <Select
-              value={auditFilters.status}
-              onValueChange={(value) => setAuditFilters(prev => ({ ...prev, status: value }))}
+              value={auditFilterDraft.status}
+              onValueChange={(value) => setAuditFilter('status', value)}
             >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="reviewing">Reviewing</SelectItem>
+                <SelectItem value="needs_info">Needs Info</SelectItem>
+                <SelectItem value="appealed">Appealed</SelectItem>
                 <SelectItem value="approved">Approved</SelectItem>
                 <SelectItem value="rejected">Rejected</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
               </SelectContent>
             </Select>
           </div>
+          <div>
+            <Label htmlFor="risk">Risk Level</Label>
+            <Select
+              value={auditFilterDraft.risk}
+              onValueChange={(value) => setAuditFilter('risk', value)}
+            >
+              <SelectTrigger id="risk">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Risk Levels</SelectItem>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+                <SelectItem value="critical">Critical</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="minAmount">Min Amount</Label>
+            <Input
+              id="minAmount"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="0.00"
+              value={auditFilterDraft.minAmount}
+              onChange={(e) => setAuditFilter('minAmount', e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="maxAmount">Max Amount</Label>
+            <Input
+              id="maxAmount"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Any"
+              value={auditFilterDraft.maxAmount}
+              onChange={(e) => setAuditFilter('maxAmount', e.target.value)}
+            />
+          </div>
         </div>
 
-        <div className="flex justify-between items-center">
-          <Button variant="outline" size="sm">
-            <Filter className="mr-2 h-4 w-4" />
-            Apply Filters
-          </Button>
-          <Button variant="outline" size="sm">
-            <Download className="mr-2 h-4 w-4" />
-            Export CSV
-          </Button>
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => applyAuditFilters(auditFilterDraft)} disabled={!auditDraftChanged}>
+              <Filter className="mr-2 h-4 w-4" />
+              Apply Filters
+            </Button>
+            {countActiveAuditFilters(auditFilters) > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => applyAuditFilters(EMPTY_AUDIT_FILTERS)}>
+                Clear ({countActiveAuditFilters(auditFilters)})
+              </Button>
+            )}
+            <span className="text-sm text-gray-500">
+              Showing {auditRows.length} of {auditEvents.length} events
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Columns3 className="mr-2 h-4 w-4" />
+                  Columns ({exportColumnIds.length})
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>Export columns</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {AUDIT_COLUMNS.map(column => (
+                  <DropdownMenuCheckboxItem
+                    key={column.id}
+                    checked={exportColumnIds.includes(column.id)}
+                    onCheckedChange={() => toggleExportColumn(column.id)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {column.label}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <Checkbox checked={exportExcelBom} onCheckedChange={(checked) => setExportExcelBom(checked === true)} />
+              Excel (UTF-8 BOM)
+            </label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExportAuditCsv}
+              disabled={auditRows.length === 0 || exportColumnIds.length === 0}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV ({auditRows.length})
+            </Button>
+          </div>
         </div>
 
-        <ScrollArea className="h-[600px]">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Timestamp</TableHead>
-                <TableHead>Expense ID</TableHead>
-                <TableHead>Employee</TableHead>
-                <TableHead>Vendor</TableHead>
-                <TableHead>Amount</TableHead>
-                <TableHead>Category</TableHead>
-                <TableHead>Decision</TableHead>
-                <TableHead>Risk Level</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {expenses.length > 0 ? (
-                expenses.map(expense => (
-                  <TableRow key={expense.id}>
-                    <TableCell className="text-sm text-gray-600">
-                      {formatDate(expense.date)}
-                    </TableCell>
-                    <TableCell className="font-medium">{expense.id}</TableCell>
-                    <TableCell>{expense.employee}</TableCell>
-                    <TableCell>{expense.vendor}</TableCell>
-                    <TableCell>{formatCurrency(expense.amount)}</TableCell>
-                    <TableCell className="text-sm">{expense.category}</TableCell>
-                    <TableCell><StatusBadge status={expense.status} /></TableCell>
-                    <TableCell><RiskBadge risk={expense.riskScore} /></TableCell>
-                  </TableRow>
-                ))
+        {/* Chain Integrity */}
+        <div className="rounded-md border border-gray-200 p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm">
+              <Shield className="h-4 w-4" />
+              <span className="font-medium">Chain integrity</span>
+              <span className="text-gray-500">
+                {auditEvents.length} events · each event is hash-linked to the one before it
+              </span>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleVerifyAuditLog} disabled={isVerifyingAudit}>
+              {isVerifyingAudit ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileCheck className="mr-2 h-4 w-4" />}
+              Verify Integrity
+            </Button>
+          </div>
+          {auditVerificationError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Verification Failed</AlertTitle>
+              <AlertDescription>{auditVerificationError}</AlertDescription>
+            </Alert>
+          )}
+          {auditVerification && (
+            <Alert
+              variant={auditVerification.valid ? 'default' : 'destructive'}
+              className={cn(auditVerification.valid && 'border-green-200 bg-green-50')}
+            >
+              {auditVerification.valid ? (
+                <CheckCircle className="h-4 w-4 text-green-600" />
               ) : (
-                <TableRow>
-                  <TableCell colSpan={8} className="text-center py-8 text-gray-500">
-                    <div className="flex flex-col items-center gap-2">
-                      <FileCheck className="h-12 w-12 text-gray-300" />
-                      <p className="text-sm">No audit records</p>
-                      <p className="text-xs">Expense transactions will appear here</p>
-                    </div>
-                  </TableCell>
-                </TableRow>
+                <AlertTriangle className="h-4 w-4" />
               )}
-            </TableBody>
-          </Table>
-        </ScrollArea>
+              <AlertTitle>
+                {auditVerification.valid
+                  ? `Chain intact (${auditVerification.checked} events verified)`
+                  : `${auditVerification.breaks.length} broken link${auditVerification.breaks.length === 1 ? '' : 's'} found`}
+              </AlertTitle>
+              <AlertDescription className="space-y-1 text-xs">
+                {auditVerification.breaks.map((chainBreak, index) => (
+                  <p key={index}>{chainBreak.message}</p>
+                ))}
+                {auditVerification.legacy > 0 && (
+                  <p>{auditVerification.legacy} earlier event(s) were recorded before hashing and are not covered.</p>
+                )}
+                <p className="font-mono break-all">
+                  Head: {auditVerification.headHash ?? '—'} · verified {new Date(auditVerification.verifiedAt).toLocaleString()}
+                </p>
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        {/* Event Log */}
+        <AuditEventTable rows={auditRows} userId={currentUser.id} hasEvents={auditEvents.length > 0} />
+      </CardContent>
+    </Card>
+  )
+
+  // ============================================================================
+  // RENDER - Access Denied
+  // ============================================================================
+
+  const renderAccessDenied = () => (
+    <Card>
+      <CardContent className="flex items-center justify-center h-[400px] text-gray-500">
+        <div className="text-center">
+          <Lock className="h-16 w-16 mx-auto mb-4 text-gray-300" />
+          <p className="text-lg font-medium">Access Denied</p>
+          <p className="text-sm mb-4">
+            {currentUser.name} ({ROLE_LABELS[currentUser.role]}) does not have access to this page
+          </p>
+          {fallbackView && (
+            <Button variant="outline" onClick={() => navigate(VIEW_PATHS[fallbackView])}>
+              Go to an allowed page
+            </Button>
+          )}
+        </div>
       </CardContent>
     </Card>
   )
@@ -1367,10 +3100,72 @@ export default function Home() {
               </div>
             </div>
             <div className="flex items-center gap-2">
-              <Badge variant="outline" className="text-sm">
-                <User className="h-3 w-3 mr-1" />
-                Current User
-              </Badge>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+                    <Bell className="h-4 w-4" />
+                    {unreadCount > 0 && (
+                      <Badge className="absolute -top-1 -right-1 h-4 min-w-4 px-1 bg-red-500 text-white text-[10px]">
+                        {unreadCount}
+                      </Badge>
+                    )}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-80">
+                  <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {notifications.length > 0 ? (
+                    notifications.slice(0, 10).map(notification => (
+                      <DropdownMenuItem
+                        key={notification.id}
+                        className="flex flex-col items-start gap-1"
+                        onSelect={() => {
+                          if (notification.id !== undefined) markRead(notification.id)
+                          if (notification.expenseId) openExpense(notification.expenseId)
+                        }}
+                      >
+                        <span className={cn('text-sm', !notification.readAt && 'font-semibold')}>
+                          {notification.message}
+                        </span>
+                        <span className="text-xs text-gray-500">{new Date(notification.createdAt).toLocaleString()}</span>
+                      </DropdownMenuItem>
+                    ))
+                  ) : (
+                    <p className="px-2 py-4 text-center text-sm text-gray-500">No notifications</p>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-2">
+                    <User className="h-4 w-4" />
+                    <span>{currentUser.name}</span>
+                    <Badge variant="secondary">{ROLE_LABELS[currentUser.role]}</Badge>
+                    <ChevronDown className="h-3 w-3" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-64">
+                  <DropdownMenuLabel>
+                    <p>{currentUser.name}</p>
+                    <p className="text-xs font-normal text-gray-500">{currentUser.title} · {currentUser.department}</p>
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-xs font-normal text-gray-500">Switch user</DropdownMenuLabel>
+                  <DropdownMenuRadioGroup value={currentUser.id} onValueChange={signIn}>
+                    {users.map(user => (
+                      <DropdownMenuRadioItem key={user.id} value={user.id}>
+                        <span className="flex-1">{user.name}</span>
+                        <span className="text-xs text-gray-500">{ROLE_LABELS[user.role]}</span>
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={signOut}>
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Sign out
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
@@ -1380,60 +3175,91 @@ export default function Home() {
       <div className="bg-white border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <nav className="flex gap-1">
-            <button
-              onClick={() => setCurrentView('employee')}
-              className={cn(
-                'px-4 py-3 text-sm font-medium border-b-2 transition-colors',
-                currentView === 'employee'
-                  ? 'border-blue-600 text-blue-600'
-                  : 'border-transparent text-gray-600 hover:text-gray-900'
-              )}
-            >
-              <div className="flex items-center gap-2">
-                <HomeIcon className="h-4 w-4" />
-                Employee Dashboard
-              </div>
-            </button>
-            <button
-              onClick={() => setCurrentView('manager')}
-              className={cn(
-                'px-4 py-3 text-sm font-medium border-b-2 transition-colors',
-                currentView === 'manager'
-                  ? 'border-blue-600 text-blue-600'
-                  : 'border-transparent text-gray-600 hover:text-gray-900'
-              )}
-            >
-              <div className="flex items-center gap-2">
-                <ClipboardCheck className="h-4 w-4" />
-                Manager Review
-                {pendingExpenses.length > 0 && (
-                  <Badge className="bg-red-500 text-white">{pendingExpenses.length}</Badge>
+            {can(VIEW_PERMISSIONS.employee) && (
+              <button
+                onClick={() => navigate('/expenses')}
+                className={cn(
+                  'px-4 py-3 text-sm font-medium border-b-2 transition-colors',
+                  currentView === 'employee'
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-600 hover:text-gray-900'
                 )}
-              </div>
-            </button>
-            <button
-              onClick={() => setCurrentView('audit')}
-              className={cn(
-                'px-4 py-3 text-sm font-medium border-b-2 transition-colors',
-                currentView === 'audit'
-                  ? 'border-blue-600 text-blue-600'
-                  : 'border-transparent text-gray-600 hover:text-gray-900'
-              )}
-            >
-              <div className="flex items-center gap-2">
-                <FileCheck className="h-4 w-4" />
-                Audit Log
-              </div>
-            </button>
+              >
+                <div className="flex items-center gap-2">
+                  <HomeIcon className="h-4 w-4" />
+                  Employee Dashboard
+                </div>
+              </button>
+            )}
+            {can(VIEW_PERMISSIONS.manager) && (
+              <button
+                onClick={() => navigate('/review')}
+                className={cn(
+                  'px-4 py-3 text-sm font-medium border-b-2 transition-colors',
+                  currentView === 'manager'
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-600 hover:text-gray-900'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <ClipboardCheck className="h-4 w-4" />
+                  Manager Review
+                  {pendingExpenses.length > 0 && (
+                    <Badge className="bg-red-500 text-white">{pendingExpenses.length}</Badge>
+                  )}
+                </div>
+              </button>
+            )}
+            {can(VIEW_PERMISSIONS.analytics) && (
+              <button
+                onClick={() => navigate('/analytics')}
+                className={cn(
+                  'px-4 py-3 text-sm font-medium border-b-2 transition-colors',
+                  currentView === 'analytics'
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-600 hover:text-gray-900'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <BarChart3 className="h-4 w-4" />
+                  Analytics
+                </div>
+              </button>
+            )}
+            {can(VIEW_PERMISSIONS.audit) && (
+              <button
+                onClick={() => navigate('/audit')}
+                className={cn(
+                  'px-4 py-3 text-sm font-medium border-b-2 transition-colors',
+                  currentView === 'audit'
+                    ? 'border-blue-600 text-blue-600'
+                    : 'border-transparent text-gray-600 hover:text-gray-900'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <FileCheck className="h-4 w-4" />
+                  Audit Log
+                </div>
+              </button>
+            )}
           </nav>
         </div>
       </div>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {currentView === 'employee' && renderEmployeeDashboard()}
-        {currentView === 'manager' && renderManagerReview()}
-        {currentView === 'audit' && renderAuditLog()}
+        {expensesError && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Storage Error</AlertTitle>
+            <AlertDescription>Saved expenses could not be loaded: {expensesError}</AlertDescription>
+          </Alert>
+        )}
+        {!canAccessView && renderAccessDenied()}
+        {canAccessView && currentView === 'employee' && renderEmployeeDashboard()}
+        {canAccessView && currentView === 'manager' && renderManagerReview()}
+        {canAccessView && currentView === 'audit' && renderAuditLog()}
+        {canAccessView && currentView === 'analytics' && renderAnalytics()}
       </main>
     </div>
   )
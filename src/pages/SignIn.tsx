@@ -0,0 +1,51 @@
+/**
+ * SIGN-IN PAGE - Local account picker
+ *
+ * There is no identity provider yet, so signing in means choosing one of the
+ * seeded accounts. The choice is remembered across reloads.
+ */
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { DollarSign, ChevronRight } from 'lucide-react'
+import { ROLE_LABELS } from '@/lib/permissions'
+import type { User } from '@/types'
+
+interface SignInProps {
+  users: User[]
+  onSignIn: (userId: string) => void
+}
+
+export default function SignIn({ users, onSignIn }: SignInProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="bg-blue-600 rounded-lg p-2 w-fit mx-auto mb-2">
+            <DollarSign className="h-6 w-6 text-white" />
+          </div>
+          <CardTitle>Sign in to Expense Management</CardTitle>
+          <CardDescription>Choose an account to continue</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {users.map(user => (
+            <button
+              key={user.id}
+              onClick={() => onSignIn(user.id)}
+              className="w-full flex items-center justify-between rounded-lg border border-gray-200 p-3 text-left hover:bg-gray-50 transition-colors"
+            >
+              <div>
+                <p className="font-medium text-sm">{user.name}</p>
+                <p className="text-xs text-gray-500">{user.title} · {user.department}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{ROLE_LABELS[user.role]}</Badge>
+                <ChevronRight className="h-4 w-4 text-gray-400" />
+              </div>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,505 @@
+/**
+ * Expense Domain Types
+ *
+ * Shapes returned by the expense validation agents and the records the
+ * app persists. Shared by the pages, hooks and the expense repository.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS - Based on ACTUAL test responses
+// ============================================================================
+
+/**
+ * A day on the calendar as YYYY-MM-DD, independent of time zone; see
+ * `lib/calendar-date.ts` before turning one into a `Date`
+ */
+export type CalendarDate = string
+
+// Receipt Extraction Agent Response
+export interface ReceiptData {
+  vendor_name: string
+  transaction_date: string
+  transaction_time: string | null
+  location: string
+  total_amount: number
+  currency: string
+  tax_amount: number | null
+  line_items: Array<{
+    item_name: string
+    quantity: number
+    unit_price: number
+    total_price: number
+  }>
+  payment_method: string | null
+  receipt_number: string | null
+  extraction_confidence: number
+  missing_fields: string[]
+  /** Requested from the agent for form auto-fill; not always returned */
+  suggested_category?: string
+}
+
+// Fraud Detection Response
+export interface FraudAnalysis {
+  fraud_risk_level: 'low' | 'medium' | 'high'
+  fraud_score: number
+  flags: Array<{
+    category: string
+    severity: 'low' | 'medium' | 'high'
+    description: string
+    evidence: string
+  }>
+  duplicate_detected: boolean
+  vendor_verified: boolean
+  location_plausible: boolean
+  recommendation: 'approve' | 'reject' | 'review'
+  reasoning: string
+}
+
+// Policy Compliance Response
+export interface PolicyCompliance {
+  compliant: boolean
+  violations: Array<{
+    policy_rule: string
+    violation_type: string
+    severity: 'low' | 'medium' | 'critical'
+    description: string
+    policy_reference: string
+  }>
+  category_limit: {
+    limit: number
+    actual: number
+    within_limit: boolean
+  }
+  required_approvals: string[]
+  missing_documents: string[]
+  recommendation: 'approve' | 'reject'
+  reasoning: string
+}
+
+// Employee Eligibility Response
+export interface EmployeeEligibility {
+  eligible: boolean
+  ineligibility_reasons: string[]
+  employee_context: {
+    department: string
+    location: string
+    travel_status: string
+    meal_plan_enrolled: boolean
+    per_diem_active: boolean
+    job_level: string
+  }
+  recommendation: 'approve' | 'reject'
+  reasoning: string
+}
+
+// Expense Validation Coordinator Response
+export interface ValidationResult {
+  validation_summary: {
+    overall_status: string
+    confidence_score: number
+    risk_level: 'low' | 'medium' | 'high' | 'critical'
+  }
+  receipt_data: {
+    vendor: string
+    amount: number
+    date: string
+    extracted_successfully: boolean
+  }
+  fraud_analysis: {
+    fraud_detected: boolean
+    fraud_score: number
+    flags_count: number
+  }
+  policy_compliance: {
+    compliant: boolean
+    violations_count: number
+    critical_violations: boolean
+  }
+  employee_eligibility: {
+    eligible: boolean
+    restrictions: number
+  }
+  final_recommendation: 'AUTO_APPROVE' | 'MANAGER_REVIEW' | 'reject'
+  recommendation_reasoning: string
+  required_actions: string[]
+  approval_workflow: {
+    requires_manager_approval: boolean
+    required_approval_level: string
+    auto_approvable: boolean
+  }
+}
+
+// How a validation run was produced, kept so the two modes can be compared
+export type ValidationMode = 'coordinator' | 'orchestrated'
+
+export interface ValidationRunMeta {
+  mode: ValidationMode
+  durationMs: number
+  completedAt: string
+}
+
+// Full sub-agent payloads (only populated by the orchestrated mode)
+export interface ValidationDetails {
+  receipt?: ReceiptData
+  fraud?: FraudAnalysis
+  policy?: PolicyCompliance
+  eligibility?: EmployeeEligibility
+}
+
+// Manager Approval Response
+export interface ApprovalResult {
+  decision_processed: boolean
+  expense_status: 'approved' | 'rejected'
+  decision_details: {
+    manager_id: string
+    decision: string
+    rationale: string
+    decision_timestamp: string
+    /** Substitute who made the decision under delegation */
+    delegate_id?: string
+    /** Approver the delegate acted for */
+    original_approver_id?: string
+  }
+  workflow_actions: {
+    reimbursement_triggered: boolean
+    employee_notified: boolean
+    audit_record_created: boolean
+    finance_team_notified: boolean
+  }
+  reimbursement_details?: {
+    amount: number
+    currency: string
+    payment_method: string
+    expected_processing_days: number
+    reference_number: string
+  }
+  next_steps: string[]
+  audit_trail: {
+    record_id: string
+    timestamp: string
+    action: string
+  }
+}
+
+// Expense categories offered in the submission form
+export const EXPENSE_CATEGORIES = [
+  'Business Meal',
+  'Client Entertainment',
+  'Travel',
+  'Office Supplies',
+  'Home Office Equipment'
+] as const
+
+export type ExpenseCategory = typeof EXPENSE_CATEGORIES[number]
+
+// Receipt attachment metadata (the file itself lives in the receipts store)
+export interface ReceiptAttachment {
+  fileName: string
+  mimeType: string
+  size: number
+  /** Lyzr asset id returned by uploadFiles, sent to the agents as `assets` */
+  assetId?: string
+}
+
+export type ExpenseStatus = 'pending' | 'approved' | 'rejected' | 'reviewing' | 'needs_info' | 'appealed'
+
+// Comment Thread
+export interface CommentAttachment {
+  /** Key of the stored file in the repository's attachment store */
+  id: string
+  fileName: string
+  mimeType: string
+  size: number
+  /** Lyzr asset id, when the upload succeeded */
+  assetId?: string
+}
+
+export interface ExpenseComment {
+  id: string
+  authorId: string
+  authorName: string
+  /** 'info_request' moves the expense to needs_info; 'response' returns it to review */
+  kind: 'info_request' | 'response' | 'comment'
+  body: string
+  attachments?: CommentAttachment[]
+  createdAt: string
+}
+
+// Approval Chain
+export type ApprovalStepRole = 'manager' | 'director' | 'finance'
+
+export interface ApprovalSignature {
+  /** Index into `ApprovalChain.steps` */
+  step: number
+  role: ApprovalStepRole
+  userId: string
+  userName: string
+  decision: 'approve' | 'reject'
+  rationale: string
+  signedAt: string
+  /** Set when the signer acted as a delegate for this approver */
+  onBehalfOfId?: string
+  onBehalfOfName?: string
+}
+
+// Approval Delegation
+export interface ApprovalDelegation {
+  id: string
+  /** Approver whose authority is delegated */
+  delegatorId: string
+  /** Substitute who may sign in their place */
+  delegateId: string
+  /** Inclusive */
+  startDate: CalendarDate
+  endDate: CalendarDate
+  /** Only expenses up to this amount are delegated */
+  maxAmount?: number
+  /** Only these categories are delegated; all when empty */
+  categories?: string[]
+  createdAt: string
+  /** Set when revoked before the end date */
+  revokedAt?: string
+}
+
+export interface ApprovalEscalation {
+  step: number
+  fromRole: ApprovalStepRole
+  toRole: ApprovalStepRole
+  escalatedAt: string
+  /** 'sla_breach' when the review SLA ran out, 'manual' when an approver escalated */
+  reason: 'sla_breach' | 'manual'
+  escalatedBy?: string
+}
+
+export interface ApprovalChain {
+  steps: ApprovalStepRole[]
+  /** Index of the step awaiting a decision; equals steps.length once complete */
+  currentStep: number
+  signatures: ApprovalSignature[]
+  /** When the current step started waiting; drives the review SLA */
+  stepStartedAt?: string
+  escalations?: ApprovalEscalation[]
+}
+
+// Exchange Rates
+/**
+ * One row of the FX table: a currency's rate from its effective date until
+ * the next row for that currency
+ */
+export interface FxRate {
+  /** ISO 4217 code */
+  currency: string
+  effectiveDate: CalendarDate
+  /** Home-currency units per unit of `currency` */
+  rate: number
+  /** 'default' for the bundled table, else the imported file's name */
+  source: string
+  importedAt?: string
+}
+
+// Budgets
+export type BudgetPeriod = 'month' | 'quarter' | 'year'
+
+/**
+ * Spending allowed for a department, optionally one category, over one period
+ */
+export interface Budget {
+  id: string
+  department: string
+  /** Only this category counts against the budget; every category when absent */
+  category?: string
+  period: BudgetPeriod
+  /** First day of the period */
+  periodStart: CalendarDate
+  amount: number
+  /** Share of the budget (0–1) past which submissions and approvals are warned */
+  warningThreshold: number
+  createdBy: string
+  createdAt: string
+}
+
+// Appeals
+/**
+ * The rejection an appeal contests: the validation agent's or a reviewer's
+ */
+export interface AppealedDecision {
+  source: 'agent' | 'reviewer'
+  /** Reviewer who signed the rejection; absent for agent rejections */
+  deciderId?: string
+  deciderName?: string
+  /** Approver the decider signed for, when acting as a delegate */
+  onBehalfOfId?: string
+  role?: ApprovalStepRole
+  rationale: string
+  decidedAt: string
+}
+
+export interface ExpenseAppeal {
+  id: string
+  /** Expense version that was rejected; one appeal per version */
+  version: number
+  justification: string
+  submittedAt: string
+  originalDecision: AppealedDecision
+  /** Holders of this step role, other than the original decider, review the appeal */
+  reviewerRole: ApprovalStepRole
+  /** Absent while the appeal is open */
+  outcome?: 'upheld' | 'overturned'
+  reviewerId?: string
+  reviewerName?: string
+  outcomeRationale?: string
+  decidedAt?: string
+}
+
+// Version History
+/**
+ * A superseded submission of an expense, frozen when the employee resubmitted
+ */
+export interface ExpenseVersion {
+  version: number
+  vendor: string
+  amount: number
+  currency?: string
+  originalAmount?: number
+  fxRate?: number
+  fxRateDate?: CalendarDate
+  date: CalendarDate
+  transactionTime?: string
+  timeZone?: string
+  category: string
+  status: ExpenseStatus
+  riskScore: ExpenseRecord['riskScore']
+  receipt?: ReceiptAttachment
+  validationResult?: ValidationResult
+  validationMeta?: ValidationRunMeta
+  validationDetails?: ValidationDetails
+  approvalChain?: ApprovalChain
+  approvalResults?: ApprovalResult[]
+  /** When this version was submitted */
+  submittedAt: string
+  /** When it was replaced by the next version; absent for the current version */
+  supersededAt?: string
+}
+
+// Expense Record
+export interface ExpenseRecord {
+  id: string
+  employee: string
+  /** Submitting user's id; absent on records saved before user accounts */
+  employeeId?: string
+  /** Users who changed the expense after submission; they may not decide on it */
+  editorIds?: string[]
+  vendor: string
+  /** Amount in the home currency; thresholds, budgets and analytics use this */
+  amount: number
+  /** ISO 4217 code the expense was paid in; absent means the home currency */
+  currency?: string
+  /** Amount as paid, in `currency`; absent for home-currency expenses */
+  originalAmount?: number
+  /** Home-currency units per unit of `currency` used for the conversion */
+  fxRate?: number
+  /** Effective date of the FX table row used */
+  fxRateDate?: CalendarDate
+  /** Day of the transaction where it happened */
+  date: CalendarDate
+  /** Wall-clock time of the transaction (24-hour HH:MM), usually off the receipt */
+  transactionTime?: string
+  /** IANA zone `date` and `transactionTime` are in; absent on older records */
+  timeZone?: string
+  category: string
+  status: ExpenseStatus
+  riskScore: 'low' | 'medium' | 'high' | 'critical'
+  validationResult?: ValidationResult
+  validationMeta?: ValidationRunMeta
+  validationDetails?: ValidationDetails
+  receipt?: ReceiptAttachment
+  /** Sign-off steps for expenses that need manual approval */
+  approvalChain?: ApprovalChain
+  /** Conversation between the employee and reviewers, oldest first */
+  comments?: ExpenseComment[]
+  /** Appeals against rejections, oldest first */
+  appeals?: ExpenseAppeal[]
+  /** Current version number; absent means 1 */
+  version?: number
+  /** Prior versions, oldest first */
+  versions?: ExpenseVersion[]
+  /** When the current version was submitted; absent means createdAt */
+  submittedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Audit Trail
+export type AuditEventType =
+  | 'submitted'
+  | 'validated'
+  | 'paid'
+  | 'decision_blocked'
+  | 'decision_recorded'
+  | 'delegation_created'
+  | 'delegation_revoked'
+  | 'escalated'
+  | 'info_requested'
+  | 'info_provided'
+  | 'resubmitted'
+  | 'appeal_submitted'
+  | 'appeal_decided'
+  | 'budget_created'
+  | 'budget_deleted'
+  | 'fx_rates_imported'
+
+/**
+ * Expense fields an audit event records before and after the change
+ */
+export interface ExpenseAuditState {
+  status: ExpenseStatus
+  vendor: string
+  /** Home-currency amount in minor units; absent on events recorded before amounts were */
+  amountMinor?: number
+  /** Set for foreign-currency expenses only */
+  currency?: string
+  /** Amount as paid in minor units of `currency` */
+  originalAmountMinor?: number
+  /** Decimal amounts on events recorded before minor units; sealed events are never rewritten */
+  amount?: number
+  originalAmount?: number
+  date: CalendarDate
+  transactionTime?: string
+  category: string
+  riskScore: ExpenseRecord['riskScore']
+  version: number
+  /** Approval step the expense waits on; null outside review */
+  approvalStep: ApprovalStepRole | null
+}
+
+export interface AuditEvent {
+  /** Sequence number, assigned by the repository on append */
+  id?: number
+  /** Absent for events not tied to one expense, such as delegation changes */
+  expenseId?: string
+  type: AuditEventType
+  actorId: string
+  actorName: string
+  timestamp: string
+  /** Human-readable summary shown in the audit log */
+  message: string
+  details?: Record<string, unknown>
+  /** Expense state before the event; absent when the event created the expense */
+  before?: ExpenseAuditState
+  after?: ExpenseAuditState
+  /** Hash of the preceding event; set by the repository on append */
+  previousHash?: string
+  /** SHA-256 over this event, including `previousHash`; set by the repository on append */
+  hash?: string
+}
+
+// Notifications
+export interface UserNotification {
+  /** Assigned by the repository on append */
+  id?: number
+  userId: string
+  expenseId?: string
+  message: string
+  createdAt: string
+  readAt?: string
+}
@@ -1,9 +1,19 @@
 // Common TypeScript types for your application
 
+export type UserRole = 'employee' | 'manager' | 'finance' | 'auditor' | 'admin'
+
 export interface User {
   id: string
   name: string
   email: string
+  role: UserRole
+  department: string
+  /** Job title shown next to the name, e.g. "Director of Marketing" */
+  title: string
+  /** Seniority grade, higher outranks lower (1 = individual contributor) */
+  level: number
+  /** Direct manager, if any */
+  managerId?: string
 }
 
 export interface ApiResponse<T> {
@@ -179,6 +189,15 @@ export interface SubagentSwitchEvent extends SSEEventBase {
   previous_subagent: string | null
 }
 
+/**
+ * Chat failed event - when the run stops; the reason arrives as error or message
+ */
+export interface ChatFailedEvent extends SSEEventBase {
+  type: 'chat_failed' | 'error'
+  error?: string
+  message?: string
+}
+
 /**
  * Union type of all SSE events
  */
@@ -192,6 +211,7 @@ export type SSEEvent =
   | AgentCreatedEvent
   | WorkflowUpdateEvent
   | SubagentSwitchEvent
+  | ChatFailedEvent
   | (SSEEventBase & { type: SSEEventType })
 
 // =============================================================================
@@ -32,6 +32,8 @@
  */
 
 import parseLLMJson from '@/utils/jsonParser'
+import { parseSSEStream } from '@/lib/event-parser'
+import type { SSEEvent } from '@/types'
 import React from 'react'
 
 // =============================================================================
@@ -39,6 +41,7 @@ import React from 'react'
 // =============================================================================
 
 const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+const LYZR_STREAM_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/'
 const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
 
 // =============================================================================
@@ -312,6 +315,144 @@ export async function callAIAgent(
   }
 }
 
+/**
+ * Call the AI Agent over the streaming endpoint, reporting SSE events as they arrive
+ *
+ * Events (subagent_switch, tool_use, workflow_update, ...) are passed to `onEvent`
+ * in order. The resolved value has the same normalized shape as `callAIAgent`.
+ * If the stream cannot be opened, this falls back to `callAIAgent` and no
+ * events are reported.
+ *
+ * @example
+ * ```tsx
+ * const result = await streamAIAgent('Validate expense ...', agentId, {
+ *   onEvent: (event) => console.log(event.type)
+ * })
+ * ```
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options?: {
+    user_id?: string
+    session_id?: string
+    assets?: string[]
+    onEvent?: (event: SSEEvent) => void
+  }
+): Promise<AIAgentResponse> {
+  const user_id = options?.user_id || `user-${generateUUID()}`
+  const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+
+  const payload: Record<string, any> = {
+    message,
+    agent_id,
+    user_id,
+    session_id,
+  }
+
+  if (options?.assets && options.assets.length > 0) {
+    payload.assets = options.assets
+  }
+
+  let response: Response
+  try {
+    response = await fetch(LYZR_STREAM_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': LYZR_API_KEY,
+      },
+      body: JSON.stringify(payload),
+    })
+  } catch {
+    return callAIAgent(message, agent_id, { user_id, session_id, assets: options?.assets })
+  }
+
+  if (!response.ok || !response.body) {
+    return callAIAgent(message, agent_id, { user_id, session_id, assets: options?.assets })
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let rawText = ''
+  // Plain-text data chunks are the agent's answer, streamed token by token
+  let content = ''
+  let finalPayload: SSEEvent | null = null
+
+  const handleChunk = (chunk: string) => {
+    for (const parsed of parseSSEStream(chunk, session_id)) {
+      if (!parsed.success) {
+        content += parsed.raw || ''
+        continue
+      }
+      const event = parsed.event
+      if (!event) continue
+      if ('result' in event || 'response' in event) {
+        finalPayload = event
+      }
+      options?.onEvent?.(event)
+    }
+  }
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      const text = decoder.decode(value, { stream: true })
+      rawText += text
+      buffer += text
+
+      // Only parse complete events; keep the trailing partial one buffered
+      const boundary = buffer.lastIndexOf('\n\n')
+      if (boundary !== -1) {
+        handleChunk(buffer.substring(0, boundary + 2))
+        buffer = buffer.substring(boundary + 2)
+      }
+    }
+    if (buffer.trim()) {
+      handleChunk(buffer)
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Stream interrupted'
+    return {
+      success: false,
+      response: {
+        status: 'error',
+        result: {},
+        message: errorMsg
+      },
+      error: errorMsg,
+      raw_response: rawText,
+    }
+  }
+
+  const parsed = finalPayload ?? parseLLMJson(content)
+
+  if (parsed?.success === false && parsed?.error) {
+    return {
+      success: false,
+      response: {
+        status: 'error',
+        result: {},
+        message: parsed.error
+      },
+      error: parsed.error,
+      raw_response: rawText,
+    }
+  }
+
+  return {
+    success: true,
+    response: normalizeResponse(parsed),
+    agent_id,
+    user_id,
+    session_id,
+    timestamp: new Date().toISOString(),
+    raw_response: rawText,
+  }
+}
+
 // =============================================================================
 // React Hook
 // =============================================================================